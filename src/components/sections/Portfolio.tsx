@@ -14,25 +14,32 @@ import {
   ArrowUpRightIcon,
   ArrowDownRightIcon,
   InfoIcon,
-  SparklesIcon
+  SparklesIcon,
+  ShieldAlertIcon,
+  ExternalLinkIcon
 } from 'lucide-react';
 import { useAccount, useChainId } from 'wagmi';
+import { toast } from 'react-hot-toast';
+import { Address } from 'viem';
 
 // Types and Services
 import { 
   Portfolio as PortfolioType, 
   PortfolioPosition, 
   AIAnalysis,
-  PerformanceDataPoint
+  PerformanceDataPoint,
+  TokenApproval
 } from '@/types';
-import { usePortfolio } from '@/stores/portfolio';
+import { usePortfolio, useApprovals } from '@/stores/portfolio';
 import { portfolioService } from '@/services/portfolio';
 import { aiService } from '@/services/ai';
 import { pricingService } from '@/services/pricing';
+import { getBlockExplorerUrl } from '@/lib/wagmi';
 
 // Utils
 import { formatCurrency, formatPercentage, formatNumber } from '@/utils/format';
 import { cn } from '@/utils/cn';
+import { parseAmount, toNumber } from '@/utils/amount';
 
 // =============================================================================
 // PORTFOLIO OVERVIEW COMPONENT
@@ -346,6 +353,9 @@ export default function Portfolio(): JSX.Element {
         </AnimatePresence>
       </div>
 
+      {/* Token Approvals */}
+      {address && <ApprovalsManager owner={address} chainId={chainId} />}
+
       {/* Portfolio Analytics Toggle */}
       <div className="flex justify-center">
         <button
@@ -407,7 +417,7 @@ function PositionRow({ position, index }: PositionRowProps): JSX.Element {
         <div className="text-right">
           <div className="font-semibold">{formatCurrency(position.balanceUSD)}</div>
           <div className="text-sm text-muted-foreground">
-            {formatNumber(parseFloat(position.balance) / Math.pow(10, position.token.decimals))} {position.token.symbol}
+            {formatNumber(toNumber(position.balance, position.token.decimals))} {position.token.symbol}
           </div>
         </div>
 
@@ -437,6 +447,198 @@ function PositionRow({ position, index }: PositionRowProps): JSX.Element {
   );
 }
 
+// =============================================================================
+// APPROVALS MANAGER COMPONENT
+// =============================================================================
+
+interface ApprovalsManagerProps {
+  owner: Address;
+  chainId: number;
+}
+
+function ApprovalsManager({ owner, chainId }: ApprovalsManagerProps): JSX.Element {
+  const {
+    approvals,
+    riskyApprovals,
+    totalExposureUSD,
+    isLoading,
+    error,
+    refresh,
+    reduceAllowance,
+    revokeApprovals
+  } = useApprovals(owner, chainId);
+
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [newAllowance, setNewAllowance] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Drop selections for approvals that have since been revoked
+  useEffect(() => {
+    setSelectedIds(ids => ids.filter(id => approvals.some(approval => approval.id === id)));
+  }, [approvals]);
+
+  const toggleSelected = (approvalId: string) => {
+    setSelectedIds(ids => ids.includes(approvalId) ? ids.filter(id => id !== approvalId) : [...ids, approvalId]);
+  };
+
+  const handleRevoke = useCallback(async (approvalIds: string[]) => {
+    if (approvalIds.length === 0) return;
+
+    setIsSubmitting(true);
+    try {
+      const results = await revokeApprovals(approvalIds);
+      const failed = Object.values(results).filter(result => result.error);
+      if (failed.length === 0) {
+        toast.success(`Revoked ${approvalIds.length} approval${approvalIds.length === 1 ? '' : 's'}`);
+      } else {
+        toast.error(`${failed.length} of ${approvalIds.length} revokes failed: ${failed[0]?.error}`);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [revokeApprovals]);
+
+  const handleReduce = useCallback(async (approval: TokenApproval) => {
+    let amount: bigint;
+    try {
+      amount = parseAmount(newAllowance, approval.token.decimals);
+    } catch {
+      toast.error('Enter a valid amount');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await reduceAllowance(approval.id, amount);
+      toast.success(`${approval.token.symbol} allowance updated`);
+      setEditingId(null);
+      setNewAllowance('');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update allowance');
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [newAllowance, reduceAllowance]);
+
+  return (
+    <div className="card">
+      <div className="p-6 border-b border-border flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">Token Approvals</h3>
+          <p className="text-sm text-muted-foreground">
+            {approvals.length} active · {formatCurrency(totalExposureUSD)} exposed
+            {riskyApprovals.length > 0 && ` · ${riskyApprovals.length} unlimited to unknown contracts`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => handleRevoke(selectedIds)}
+            disabled={selectedIds.length === 0 || isSubmitting}
+            className="btn btn-primary btn-sm"
+          >
+            Revoke selected ({selectedIds.length})
+          </button>
+          <button
+            onClick={() => refresh()}
+            disabled={isLoading}
+            className="btn btn-outline btn-sm"
+          >
+            <RefreshCcwIcon className={cn("w-4 h-4", isLoading && "animate-spin")} />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-6 text-sm text-red-600">{error}</div>
+      )}
+
+      {!error && approvals.length === 0 && (
+        <div className="p-6 text-sm text-muted-foreground">
+          {isLoading ? 'Scanning approvals...' : 'No contract can spend your tokens on this network.'}
+        </div>
+      )}
+
+      <div className="divide-y divide-border">
+        {approvals.map(approval => (
+          <div key={approval.id} className={cn("p-6", approval.isRisky && "bg-red-50 dark:bg-red-950/20")}>
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-3">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(approval.id)}
+                  onChange={() => toggleSelected(approval.id)}
+                />
+                <div>
+                  <div className="font-semibold flex items-center gap-2">
+                    {approval.token.symbol}
+                    {approval.isRisky && <ShieldAlertIcon className="w-4 h-4 text-red-600" />}
+                  </div>
+                  <a
+                    href={getBlockExplorerUrl(chainId, approval.spender, 'address') ?? undefined}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-sm text-muted-foreground hover:text-foreground flex items-center gap-1"
+                  >
+                    {approval.spenderLabel || `${approval.spender.slice(0, 6)}…${approval.spender.slice(-4)}`}
+                    <ExternalLinkIcon className="w-3 h-3" />
+                  </a>
+                </div>
+              </div>
+
+              <div className="text-right">
+                <div className="font-semibold">
+                  {approval.isUnlimited ? 'Unlimited' : `${formatNumber(parseFloat(approval.allowance))} ${approval.token.symbol}`}
+                </div>
+                <div className="text-sm text-muted-foreground">
+                  {approval.exposureUSD !== null ? `${formatCurrency(approval.exposureUSD)} at risk` : 'Unpriced'}
+                </div>
+              </div>
+
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setEditingId(editingId === approval.id ? null : approval.id)}
+                  disabled={isSubmitting}
+                  className="btn btn-outline btn-sm"
+                >
+                  Reduce
+                </button>
+                <button
+                  onClick={() => handleRevoke([approval.id])}
+                  disabled={isSubmitting}
+                  className="btn btn-outline btn-sm"
+                >
+                  Revoke
+                </button>
+              </div>
+            </div>
+
+            {editingId === approval.id && (
+              <div className="flex gap-2 mt-3">
+                <input
+                  type="number"
+                  min="0"
+                  value={newAllowance}
+                  onChange={(e) => setNewAllowance(e.target.value)}
+                  placeholder={`New allowance (${approval.token.symbol})`}
+                  className="input flex-1"
+                />
+                <button
+                  onClick={() => handleReduce(approval)}
+                  disabled={!newAllowance || isSubmitting}
+                  className="btn btn-primary btn-sm"
+                >
+                  Set allowance
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 // =============================================================================
 // PERFORMANCE CHART COMPONENT
 // =============================================================================
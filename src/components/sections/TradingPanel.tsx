@@ -14,33 +14,64 @@ import {
   WalletIcon,
   ChevronDownIcon,
   InfoIcon,
-  ZapIcon
+  ZapIcon,
+  ClockIcon,
+  RepeatIcon,
+  ArrowRightLeftIcon,
+  ShieldIcon,
+  LayersIcon,
+  PlusIcon,
+  TrashIcon
 } from 'lucide-react';
 import { useWallet } from '@solana/wallet-adapter-react';
 import { useWalletModal } from '@solana/wallet-adapter-react-ui';
 import { useConnectModal } from '@rainbow-me/rainbowkit';
-import { PublicKey } from '@solana/web3.js';
+import { PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.js';
 import { toast } from 'react-hot-toast';
+import { logger } from '@/utils/logger';
 
 // Types and Hooks
 import { 
   SwapQuote, 
   Token, 
   ChainType,
-  AIRecommendation 
+  AIRecommendation,
+  DCAInterval,
+  SubmissionOptions,
+  SolanaSubmissionOptions
 } from '@/types';
 import { useMultiChainWallet } from '@/hooks/useMultiChainWallet';
-import { useTrading } from '@/stores/trading';
+import {
+  useTrading,
+  useSwapForm,
+  useLimitOrders,
+  useDCAPlans,
+  useQuoteLifecycle,
+  useBridge,
+  useGasFees,
+  usePriorityFees,
+  useTradeSimulation,
+  useBasket,
+  useRentReclaim
+} from '@/stores/trading';
+import { useTradingSettings } from '@/stores/settings';
+import { DCASigner } from '@/services/dca';
+import { bridgeService, SOLANA_CHAIN_ID } from '@/services/bridge';
+import { NETWORK_LABELS, GAS_LIMITS, getPrivateRelayUrl } from '@/lib/wagmi';
+import { APP_CONFIG } from '@/lib/constants';
 
 // Services
 import { dexService } from '@/services/dex';
-import { jupiterService } from '@/services/jupiter';
+import { jupiterService, SolanaSwapError } from '@/services/jupiter';
+import { wrapService } from '@/services/wrap';
 import { aiService } from '@/services/ai';
 import { pricingService } from '@/services/pricing';
 
 // Utils
 import { formatCurrency, formatPercentage, formatNumber } from '@/utils/format';
 import { cn } from '@/utils/cn';
+import { isPriceImpactBlocked } from '@/utils/priceImpact';
+import { groupRoutePaths } from '@/utils/route';
 
 // =============================================================================
 // TRADING PANEL COMPONENT
@@ -56,6 +87,8 @@ export default function TradingPanel(): JSX.Element {
     switchToEVM,
     switchToSolana,
     isConnecting,
+    evmWallet,
+    solanaWallet,
     error: walletError
   } = useMultiChainWallet();
 
@@ -64,20 +97,69 @@ export default function TradingPanel(): JSX.Element {
     toToken,
     amount,
     slippage,
-    quotes,
-    selectedQuote,
-    isLoadingQuotes,
-    lastQuoteUpdate,
+    currentQuote,
+    isLoadingQuote,
     setFromToken,
     setToToken,
     setAmount,
     setSlippage,
-    getQuotes,
-    selectQuote,
-    executeSwap,
-    swapTokens,
-    clearQuotes
+    requestQuote,
+    setCurrentQuote,
+    executeTrade,
+    executeSolanaTrade,
+    swapTokens
   } = useTrading();
+  const { swapMode, setSwapMode } = useSwapForm();
+  const {
+    expertMode,
+    maxPriceImpact,
+    approvalMode,
+    gasPrice: gasSpeed,
+    submissionStrategy,
+    privateRelayUrl,
+    solanaSubmissionMode,
+    jitoTipLamports,
+    jitoBlockEngineUrl,
+    maxPriorityFeeLamports,
+    updateTradingSettings
+  } = useTradingSettings();
+  const { openOrders, createOrder, cancelOrder } = useLimitOrders();
+  const { duePurchases, activePlans, createPlan, pausePlan, resumePlan, cancelPlan, executePurchase, skipPurchase } = useDCAPlans();
+  const {
+    quotes: bridgeQuotes,
+    isLoadingQuotes: isLoadingBridgeQuotes,
+    getQuotes: getBridgeQuotes,
+    executeBridge,
+    transfers: bridgeTransfers
+  } = useBridge();
+  const {
+    basket,
+    legs: basketLegs,
+    summary: basketSummary,
+    addLeg: addBasketLeg,
+    removeLeg: removeBasketLeg,
+    clearBasket,
+    quoteBasket,
+    executeBasket,
+    isQuoting: isQuotingBasket,
+    isExecuting: isExecutingBasket,
+    canExecute: canExecuteBasket
+  } = useBasket();
+  const { simulation, isSimulating, simulate, isBlocked: isSimulationBlocked } = useTradeSimulation(currentQuote);
+  const { costs: gasCosts } = useGasFees(
+    activeChainType === 'evm' ? activeWallet?.chainId : undefined,
+    currentQuote?.gasEstimate || String(GAS_LIMITS.SWAP)
+  );
+  const { levels: priorityFeeLevels } = usePriorityFees(
+    activeChainType === 'solana' ? currentQuote : null,
+    maxPriorityFeeLamports,
+    simulation?.gasUsed ? parseInt(simulation.gasUsed, 10) : undefined
+  );
+  const {
+    publicKey: solanaPublicKey,
+    sendTransaction: sendSolanaTransaction,
+    signTransaction: signSolanaTransaction
+  } = useWallet();
 
   // Solana wallet modal
   const { setVisible: setSolanaModalVisible } = useWalletModal();
@@ -90,6 +172,27 @@ export default function TradingPanel(): JSX.Element {
   const [loadingTokens, setLoadingTokens] = useState(false);
   const [aiRecommendations, setAiRecommendations] = useState<AIRecommendation[]>([]);
   const [showAiPanel, setShowAiPanel] = useState(false);
+  const [limitPrice, setLimitPrice] = useState('');
+  const [isPrivateSubmission, setIsPrivateSubmission] = useState(submissionStrategy === 'private');
+  const [isJitoSubmission, setIsJitoSubmission] = useState(solanaSubmissionMode === 'jito');
+  const [isPlacingOrder, setIsPlacingOrder] = useState(false);
+  const [dcaInterval, setDcaInterval] = useState<DCAInterval>('weekly');
+  const [dcaPurchases, setDcaPurchases] = useState('');
+  const [useJupiterDca, setUseJupiterDca] = useState(false);
+  const [bridgeToChainId, setBridgeToChainId] = useState<number | null>(null);
+  const [bridgeToToken, setBridgeToToken] = useState('');
+  const [tokenPicker, setTokenPicker] = useState<string | null>(null); // Label of the open selector
+  const [tokenSearch, setTokenSearch] = useState('');
+  const [acknowledgedMints, setAcknowledgedMints] = useState<string[]>([]);
+  const [reclaimDust, setReclaimDust] = useState(false);
+
+  const {
+    summary: rentReclaim,
+    accountCount: reclaimAccountCount,
+    isLoading: isLoadingRentReclaim,
+    isReclaiming,
+    reclaim: reclaimRent
+  } = useRentReclaim(activeChainType === 'solana' ? solanaPublicKey : null, reclaimDust);
 
   // ==========================================================================
   // TOKEN LOADING
@@ -139,6 +242,42 @@ export default function TradingPanel(): JSX.Element {
     }
   }, [tokens, fromToken, activeChainType, setFromToken, setToToken]);
 
+  const filteredTokens = useMemo(() => {
+    const search = tokenSearch.trim().toLowerCase();
+    return tokens
+      .filter(token => !search ||
+        token.symbol.toLowerCase().includes(search) ||
+        token.name.toLowerCase().includes(search) ||
+        token.address.toLowerCase() === search
+      )
+      .slice(0, 50);
+  }, [tokens, tokenSearch]);
+
+  // Solana picks get the full safety check, holder concentration included
+  const handleSelectToken = useCallback(async (token: Token, onSelect: (token: Token) => void) => {
+    setTokenPicker(null);
+    setTokenSearch('');
+    if (activeChainType !== 'solana') {
+      onSelect(token);
+      return;
+    }
+
+    try {
+      const [checked] = await jupiterService.withTokenSafety([token], { includeHolders: true });
+      onSelect(checked || token);
+    } catch (error) {
+      logger.warn(`Failed to check ${token.symbol} safety:`, error);
+      onSelect(token);
+    }
+  }, [activeChainType]);
+
+  // High-risk mints must be acknowledged before they can be swapped
+  const riskyTokens = useMemo(
+    () => [fromToken, toToken].filter((token): token is Token => token?.safety?.riskLevel === 'high'),
+    [fromToken, toToken]
+  );
+  const isTokenRiskUnconfirmed = riskyTokens.some(token => !acknowledgedMints.includes(token.address));
+
   // ==========================================================================
   // QUOTE FETCHING
   // ==========================================================================
@@ -148,29 +287,22 @@ export default function TradingPanel(): JSX.Element {
       return;
     }
 
-    clearQuotes();
-    
-    try {
-      let newQuotes: SwapQuote[] = [];
-      
-      if (activeChainType === 'solana') {
-        newQuotes = await jupiterService.getSwapQuote(fromToken, toToken, amount, slippage);
-      } else {
-        newQuotes = await dexService.getSwapQuote(fromToken, toToken, amount, slippage, 1);
-      }
-
-      // Update store with new quotes
-      await getQuotes(fromToken, toToken, amount, slippage);
-      
-      // Auto-select best quote
-      if (newQuotes.length > 0) {
-        selectQuote(newQuotes[0].id);
-      }
-    } catch (error) {
-      console.error('Failed to fetch quotes:', error);
+    // In ExactOut mode `amount` is what the user wants to receive
+    const quote = await requestQuote({
+      fromToken,
+      toToken,
+      amount,
+      slippage,
+      swapMode,
+      ...(activeChainType === 'evm' && { chainId: activeWallet?.chainId || 1 }),
+    });
+    if (!quote) {
       toast.error('Failed to get swap quotes');
     }
-  }, [fromToken, toToken, amount, slippage, activeChainType, getQuotes, selectQuote, clearQuotes]);
+  }, [fromToken, toToken, amount, slippage, swapMode, activeChainType, activeWallet?.chainId, requestQuote]);
+
+  // Countdown on the store's quote, requoting shortly before it expires
+  const { secondsRemaining, isExpired, requoteDiff, clearRequoteDiff } = useQuoteLifecycle();
 
   // Auto-fetch quotes when inputs change
   useEffect(() => {
@@ -188,7 +320,7 @@ export default function TradingPanel(): JSX.Element {
   // ==========================================================================
 
   const getAiRecommendations = useCallback(async () => {
-    if (!fromToken || !toToken || !selectedQuote) return;
+    if (!fromToken || !toToken || !currentQuote) return;
 
     try {
       const marketData = await pricingService.getMarketData([fromToken.symbol, toToken.symbol]);
@@ -201,46 +333,365 @@ export default function TradingPanel(): JSX.Element {
     } catch (error) {
       console.error('Failed to get AI recommendations:', error);
     }
-  }, [fromToken, toToken, selectedQuote, amount]);
+  }, [fromToken, toToken, currentQuote, amount]);
 
   // ==========================================================================
   // SWAP EXECUTION
   // ==========================================================================
 
+  const isImpactBlocked = useMemo(
+    () => !!currentQuote && isPriceImpactBlocked(currentQuote, maxPriceImpact, expertMode),
+    [currentQuote, maxPriceImpact, expertMode]
+  );
+
+  const walletSigner = useMemo((): DCASigner => {
+    if (activeChainType === 'solana') {
+      return solanaPublicKey
+        ? {
+            solana: {
+              publicKey: solanaPublicKey,
+              sendTransaction: sendSolanaTransaction,
+              ...(signSolanaTransaction && { signTransaction: signSolanaTransaction }),
+            }
+          }
+        : {};
+    }
+    return activeWallet ? { evmAddress: activeWallet.address as `0x${string}` } : {};
+  }, [activeChainType, activeWallet, solanaPublicKey, sendSolanaTransaction, signSolanaTransaction]);
+
+  // Follow the defaults until the user overrides them for this trade
+  useEffect(() => {
+    setIsPrivateSubmission(submissionStrategy === 'private');
+  }, [submissionStrategy]);
+
+  useEffect(() => {
+    setIsJitoSubmission(solanaSubmissionMode === 'jito');
+  }, [solanaSubmissionMode]);
+
+  const privateRelay = activeChainType === 'evm' && activeWallet?.chainId
+    ? getPrivateRelayUrl(activeWallet.chainId, privateRelayUrl)
+    : null;
+
+  const handleReview = useCallback(async () => {
+    if (!currentQuote || !activeWallet) {
+      toast.error('No quote selected or wallet not connected');
+      return;
+    }
+
+    try {
+      const result = await simulate(currentQuote, activeWallet.address, { approvalMode });
+      if (!result.success) {
+        toast.error(`Swap would fail: ${result.error || 'simulation reverted'}`);
+      }
+    } catch (error) {
+      toast.error('Could not simulate this swap');
+    }
+  }, [currentQuote, activeWallet, simulate, approvalMode]);
+
+  const evmSubmission = useMemo((): SubmissionOptions =>
+    isPrivateSubmission && privateRelay
+      ? { strategy: 'private', ...(privateRelayUrl && { relayUrl: privateRelayUrl }) }
+      : { strategy: 'public' },
+    [isPrivateSubmission, privateRelay, privateRelayUrl]
+  );
+
+  const solanaSubmission = useMemo((): SolanaSubmissionOptions =>
+    isJitoSubmission
+      ? {
+          mode: 'jito',
+          tipLamports: jitoTipLamports,
+          ...(jitoBlockEngineUrl && { blockEngineUrl: jitoBlockEngineUrl }),
+        }
+      : { mode: 'rpc', priorityLevel: gasSpeed, maxPriorityFeeLamports },
+    [isJitoSubmission, jitoTipLamports, jitoBlockEngineUrl, gasSpeed, maxPriorityFeeLamports]
+  );
+
   const handleSwap = useCallback(async () => {
-    if (!selectedQuote || !activeWallet) {
+    if (!currentQuote || !activeWallet) {
       toast.error('No quote selected or wallet not connected');
       return;
     }
 
+    if (isImpactBlocked) {
+      toast.error(`Price impact exceeds ${maxPriceImpact}%. Enable expert mode to continue.`);
+      return;
+    }
+
+    if (isTokenRiskUnconfirmed) {
+      toast.error('Confirm the token risks before swapping');
+      return;
+    }
+
     try {
       let txHash: string;
       
       if (activeChainType === 'solana') {
-        const { publicKey } = useWallet();
-        if (!publicKey) {
+        if (!walletSigner.solana) {
           toast.error('Solana wallet not connected');
           return;
         }
         
-        const swapTransaction = await jupiterService.executeSwap(selectedQuote, publicKey);
-        // Here you would send the transaction with the wallet
-        txHash = 'solana_tx_hash'; // Placeholder
+        txHash = await executeSolanaTrade(currentQuote, walletSigner.solana, {
+          maxPriceImpact,
+          expertMode,
+          submission: solanaSubmission,
+        });
       } else {
-        // EVM swap execution would go here
-        txHash = await executeSwap(selectedQuote);
+        txHash = await executeTrade(currentQuote, {
+          maxPriceImpact,
+          expertMode,
+          approvalMode,
+          gasSpeed,
+          submission: evmSubmission,
+        });
       }
 
       toast.success(`Swap executed! Transaction: ${txHash.slice(0, 8)}...`);
       
       // Clear form after successful swap
       setAmount('');
-      clearQuotes();
+      setCurrentQuote(null);
     } catch (error) {
       console.error('Swap failed:', error);
-      toast.error('Swap failed. Please try again.');
+      toast.error(error instanceof Error ? error.message : 'Swap failed. Please try again.');
+      
+      // The quote can't be filled as it stands; make the user requote
+      if (error instanceof SolanaSwapError && (error.code === 'SLIPPAGE_TOO_HIGH' || error.code === 'TRANSACTION_EXPIRED')) {
+        setCurrentQuote(null);
+      }
+    }
+  }, [currentQuote, activeWallet, isImpactBlocked, maxPriceImpact, expertMode, isTokenRiskUnconfirmed, activeChainType, executeTrade, executeSolanaTrade, walletSigner, approvalMode, gasSpeed, evmSubmission, solanaSubmission, setAmount, setCurrentQuote]);
+
+  // ==========================================================================
+  // LIMIT ORDERS
+  // ==========================================================================
+
+  const handlePlaceLimitOrder = useCallback(async () => {
+    const price = parseFloat(limitPrice);
+    if (!fromToken || !toToken || !amount || parseFloat(amount) <= 0 || !(price > 0)) {
+      toast.error('Enter an amount and a limit price');
+      return;
+    }
+
+    setIsPlacingOrder(true);
+    try {
+      await createOrder({
+        fromToken,
+        toToken,
+        fromAmount: amount,
+        limitPrice: price,
+        ...(activeChainType !== 'solana' && { chainId: activeWallet?.chainId || 1 }),
+      }, walletSigner);
+
+      toast.success(`Limit order placed: ${amount} ${fromToken.symbol} at ${limitPrice} ${toToken.symbol}`);
+      setLimitPrice('');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to place limit order');
+    } finally {
+      setIsPlacingOrder(false);
+    }
+  }, [fromToken, toToken, amount, limitPrice, activeChainType, activeWallet?.chainId, createOrder, walletSigner]);
+
+  const handleCancelLimitOrder = useCallback(async (orderId: string) => {
+    try {
+      await cancelOrder(orderId, walletSigner);
+      toast.success('Limit order cancelled');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel limit order');
+    }
+  }, [cancelOrder, walletSigner]);
+
+  // ==========================================================================
+  // RECURRING BUYS
+  // ==========================================================================
+
+  const handleCreateDcaPlan = useCallback(async () => {
+    if (!fromToken || !toToken || !amount || parseFloat(amount) <= 0) {
+      toast.error('Enter an amount to buy on each run');
+      return;
+    }
+
+    const purchases = parseInt(dcaPurchases, 10);
+    try {
+      await createPlan({
+        fromToken,
+        toToken,
+        amountPerExecution: amount,
+        interval: dcaInterval,
+        endCondition: purchases > 0 ? { type: 'executions', count: purchases } : { type: 'never' },
+        executionMode: activeChainType === 'solana' && useJupiterDca ? 'jupiter' : 'wallet',
+        ...(activeChainType !== 'solana' && { chainId: activeWallet?.chainId || 1 }),
+      }, walletSigner);
+
+      toast.success(`Recurring buy created: ${amount} ${fromToken.symbol} → ${toToken.symbol} ${dcaInterval}`);
+      setDcaPurchases('');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create recurring buy');
+    }
+  }, [fromToken, toToken, amount, dcaPurchases, dcaInterval, activeChainType, useJupiterDca, activeWallet?.chainId, createPlan, walletSigner]);
+
+  const handleExecuteDcaPurchase = useCallback(async (planId: string) => {
+    try {
+      const txHash = await executePurchase(planId, walletSigner, {
+        approvalMode,
+        solanaSubmission: solanaSubmissionMode === 'jito'
+          ? {
+              mode: 'jito',
+              tipLamports: jitoTipLamports,
+              ...(jitoBlockEngineUrl && { blockEngineUrl: jitoBlockEngineUrl }),
+            }
+          : { mode: 'rpc', priorityLevel: gasSpeed, maxPriorityFeeLamports },
+      });
+      toast.success(`Recurring buy executed! Transaction: ${txHash.slice(0, 8)}...`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Recurring buy failed');
     }
-  }, [selectedQuote, activeWallet, activeChainType, executeSwap, setAmount, clearQuotes]);
+  }, [executePurchase, walletSigner, approvalMode, solanaSubmissionMode, jitoTipLamports, jitoBlockEngineUrl, gasSpeed, maxPriorityFeeLamports]);
+
+  const handleCancelDcaPlan = useCallback(async (planId: string) => {
+    try {
+      await cancelPlan(planId, walletSigner);
+      toast.success('Recurring buy cancelled');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel recurring buy');
+    }
+  }, [cancelPlan, walletSigner]);
+
+  // ==========================================================================
+  // BRIDGING
+  // ==========================================================================
+
+  const bridgeFromChainId = activeChainType === 'solana' ? SOLANA_CHAIN_ID : activeWallet?.chainId || 1;
+  const bridgeDestinations = useMemo(() => [
+    ...(evmWallet.isConnected
+      ? Object.entries(NETWORK_LABELS).map(([chainId, label]) => ({ chainId: Number(chainId), label }))
+      : []),
+    ...(solanaWallet.isConnected ? [{ chainId: SOLANA_CHAIN_ID, label: 'Solana' }] : []),
+  ].filter(destination => destination.chainId !== bridgeFromChainId), [evmWallet.isConnected, solanaWallet.isConnected, bridgeFromChainId]);
+
+  const handleGetBridgeQuotes = useCallback(async () => {
+    const toAddress = bridgeToChainId === SOLANA_CHAIN_ID ? solanaWallet.address : evmWallet.address;
+    if (!fromToken || !amount || parseFloat(amount) <= 0 || !bridgeToChainId || !bridgeToToken || !activeWallet || !toAddress) {
+      toast.error('Enter an amount, destination chain and destination token');
+      return;
+    }
+
+    try {
+      const quotes = await getBridgeQuotes({
+        fromChainId: bridgeFromChainId,
+        toChainId: bridgeToChainId,
+        fromToken,
+        toTokenAddress: bridgeToToken.trim(),
+        amount,
+        fromAddress: activeWallet.address,
+        toAddress,
+        slippage,
+      });
+      if (quotes.length === 0) {
+        toast.error('No bridge route found');
+      }
+    } catch (error) {
+      toast.error('Failed to get bridge quotes');
+    }
+  }, [fromToken, amount, bridgeToChainId, bridgeToToken, activeWallet, bridgeFromChainId, solanaWallet.address, evmWallet.address, slippage, getBridgeQuotes]);
+
+  const handleBridge = useCallback(async (quoteId: string) => {
+    const quote = bridgeQuotes.find(q => q.id === quoteId);
+    if (!quote) return;
+
+    try {
+      await executeBridge(quote, walletSigner);
+      toast.success(`Sent! Funds arrive on ${bridgeService.getChainLabel(quote.toChainId)} in ~${Math.ceil(quote.estimatedDuration / 60)} min`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Bridge transfer failed');
+    }
+  }, [bridgeQuotes, executeBridge, walletSigner]);
+
+  // ==========================================================================
+  // RENT RECLAIM
+  // ==========================================================================
+
+  const handleReclaimRent = useCallback(async () => {
+    if (!walletSigner.solana) {
+      toast.error('Connect a Solana wallet');
+      return;
+    }
+
+    try {
+      const result = await reclaimRent(walletSigner.solana, solanaSubmission);
+      if (!result) return;
+
+      if (result.closedAccounts.length > 0) {
+        toast.success(`Closed ${result.closedAccounts.length} accounts, reclaiming ${formatNumber(result.reclaimedLamports / LAMPORTS_PER_SOL, 6)} SOL`);
+      }
+      if (result.failedAccounts.length > 0) {
+        toast.error(`${result.failedAccounts.length} accounts couldn't be closed`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to close token accounts');
+    }
+  }, [walletSigner, reclaimRent, solanaSubmission]);
+
+  // ==========================================================================
+  // BASKET
+  // ==========================================================================
+
+  const handleAddToBasket = useCallback(() => {
+    if (!fromToken || !toToken || !amount || parseFloat(amount) <= 0 || !activeChainType) {
+      toast.error('Enter an amount and both tokens');
+      return;
+    }
+
+    try {
+      addBasketLeg({
+        fromToken,
+        toToken,
+        amount,
+        slippage,
+        swapMode,
+        ...(activeChainType === 'evm' && { chainId: activeWallet?.chainId || 1 }),
+      });
+      setAmount('');
+      setCurrentQuote(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not add swap to basket');
+    }
+  }, [fromToken, toToken, amount, slippage, swapMode, activeChainType, activeWallet?.chainId, addBasketLeg, setAmount, setCurrentQuote]);
+
+  const handleQuoteBasket = useCallback(async () => {
+    try {
+      const quoted = await quoteBasket();
+      const unquoted = quoted.legs.filter(leg => !leg.quote).length;
+      if (unquoted > 0) {
+        toast.error(`${unquoted} swap${unquoted === 1 ? '' : 's'} could not be quoted`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to quote basket');
+    }
+  }, [quoteBasket]);
+
+  const handleExecuteBasket = useCallback(async () => {
+    try {
+      const executed = await executeBasket({
+        maxPriceImpact,
+        expertMode,
+        approvalMode,
+        gasSpeed,
+        submission: evmSubmission,
+        ...(walletSigner.solana && { solanaSigner: walletSigner.solana }),
+        solanaSubmission,
+      });
+
+      const confirmed = executed.legs.filter(leg => leg.status === 'confirmed').length;
+      if (executed.status === 'completed') {
+        toast.success(`All ${confirmed} swaps executed`);
+      } else {
+        toast.error(`${confirmed} of ${executed.legs.length} swaps executed`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Basket execution failed');
+    }
+  }, [executeBasket, maxPriceImpact, expertMode, approvalMode, gasSpeed, evmSubmission, walletSigner, solanaSubmission]);
 
   // ==========================================================================
   // RENDER HELPERS
@@ -351,11 +802,32 @@ export default function TradingPanel(): JSX.Element {
     return null;
   };
 
+  const renderRiskBadge = (token: Token) => {
+    const safety = token.safety;
+    if (!safety || safety.riskLevel === 'low') return null;
+
+    return (
+      <span
+        title={safety.warnings.filter(warning => warning.severity !== 'low').map(warning => warning.message).join('\n')}
+        className={cn(
+          "flex items-center gap-1 text-xs",
+          safety.riskLevel === 'high' ? "text-red-600" : "text-orange-500"
+        )}
+      >
+        <AlertTriangleIcon className="w-3 h-3" />
+        {safety.riskLevel === 'high' ? 'High risk' : 'Caution'}
+      </span>
+    );
+  };
+
   const renderTokenSelector = (token: Token | null, onSelect: (token: Token) => void, label: string) => (
     <div className="space-y-2">
       <label className="text-sm font-medium text-muted-foreground">{label}</label>
       <button
-        onClick={() => {/* Open token selector modal */}}
+        onClick={() => {
+          setTokenPicker(tokenPicker === label ? null : label);
+          setTokenSearch('');
+        }}
         className="w-full flex items-center gap-3 p-3 border border-border rounded-lg hover:bg-muted/50 transition-colors"
       >
         {token ? (
@@ -364,7 +836,10 @@ export default function TradingPanel(): JSX.Element {
               <span className="text-sm font-semibold">{token.symbol[0]}</span>
             </div>
             <div className="flex-1 text-left">
-              <div className="font-semibold">{token.symbol}</div>
+              <div className="flex items-center gap-2">
+                <span className="font-semibold">{token.symbol}</span>
+                {renderRiskBadge(token)}
+              </div>
               <div className="text-sm text-muted-foreground">{token.name}</div>
             </div>
           </>
@@ -378,51 +853,138 @@ export default function TradingPanel(): JSX.Element {
         )}
         <ChevronDownIcon className="w-4 h-4 text-muted-foreground" />
       </button>
+      {tokenPicker === label && (
+        <div className="border border-border rounded-lg p-2 space-y-2">
+          <input
+            type="text"
+            value={tokenSearch}
+            onChange={(e) => setTokenSearch(e.target.value)}
+            placeholder="Search by symbol, name or address"
+            className="input w-full text-sm"
+          />
+          <div className="max-h-64 overflow-y-auto space-y-1">
+            {loadingTokens && (
+              <div className="text-sm text-muted-foreground p-2">Loading tokens...</div>
+            )}
+            {!loadingTokens && filteredTokens.length === 0 && (
+              <div className="text-sm text-muted-foreground p-2">No tokens found</div>
+            )}
+            {filteredTokens.map(option => (
+              <button
+                key={option.id}
+                onClick={() => handleSelectToken(option, onSelect)}
+                className="w-full flex items-center justify-between gap-2 p-2 rounded-md hover:bg-muted/50 text-left"
+              >
+                <div>
+                  <div className="font-semibold text-sm">{option.symbol}</div>
+                  <div className="text-xs text-muted-foreground">{option.name}</div>
+                </div>
+                {renderRiskBadge(option)}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 
-  const renderQuoteCard = (quote: SwapQuote, isSelected: boolean) => (
+  const renderQuoteCard = (quote: SwapQuote) => (
     <motion.div
       key={quote.id}
       initial={{ opacity: 0, y: 20 }}
       animate={{ opacity: 1, y: 0 }}
-      className={cn(
-        "p-4 border rounded-lg cursor-pointer transition-all",
-        isSelected 
-          ? "border-primary bg-primary/5" 
-          : "border-border hover:border-primary/50"
-      )}
-      onClick={() => selectQuote(quote.id)}
+      className="p-4 border border-primary bg-primary/5 rounded-lg transition-all"
     >
       <div className="flex items-center justify-between mb-2">
         <div className="flex items-center gap-2">
           <div className="font-semibold">{quote.aggregator}</div>
-          {quote.priceImpact < 1 && (
+          {quote.priceImpactSeverity === 'low' && (
             <CheckCircleIcon className="w-4 h-4 text-green-600" />
           )}
+          {(quote.priceImpactSeverity === 'high' || quote.priceImpactSeverity === 'severe') && (
+            <AlertTriangleIcon className={cn(
+              "w-4 h-4",
+              quote.priceImpactSeverity === 'severe' ? "text-red-600" : "text-orange-500"
+            )} />
+          )}
         </div>
         <div className="text-sm text-muted-foreground">
-          {formatNumber(parseFloat(quote.toAmount), 6)} {quote.toToken.symbol}
+          {quote.swapMode === 'ExactOut'
+            ? `${formatNumber(parseFloat(quote.fromAmount), 6)} ${quote.fromToken.symbol}`
+            : `${formatNumber(parseFloat(quote.toAmount), 6)} ${quote.toToken.symbol}`}
         </div>
       </div>
 
       <div className="flex items-center justify-between text-sm">
-        <span className="text-muted-foreground">
-          Price Impact: {formatPercentage(quote.priceImpact)}
+        <span className={cn(
+          quote.priceImpactSeverity === 'severe' ? "text-red-600" :
+          quote.priceImpactSeverity === 'high' ? "text-orange-500" :
+          quote.priceImpactSeverity === 'medium' ? "text-yellow-600" :
+          "text-muted-foreground"
+        )}>
+          Price Impact: {quote.priceImpactSeverity ? formatPercentage(quote.priceImpact) : 'Unknown'}
+          {quote.priceImpactSeverity && quote.isPriceImpactEstimated && (
+            <span title="No spot quote for this pair; measured against oracle prices"> (est.)</span>
+          )}
         </span>
         <span className="text-muted-foreground">
-          Gas: ~{formatCurrency(parseFloat(quote.gasEstimate) * 0.00001)}
+          Gas: {quote.gasCostUSD !== undefined ? `~${formatCurrency(quote.gasCostUSD)}` : `${formatNumber(parseFloat(quote.gasEstimate), 0)} units`}
         </span>
       </div>
 
-      {quote.route.length > 0 && (
-        <div className="mt-2 text-xs text-muted-foreground">
-          Route: {quote.route.map(r => r.protocol).join(' → ')}
+      {quote.netValueUSD !== undefined && (
+        <div className="mt-1 flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">
+            {quote.swapMode === 'ExactOut' ? 'Input value' : 'Gross'}: {formatCurrency(quote.grossValueUSD ?? 0)}
+          </span>
+          <span className="font-medium">
+            {quote.swapMode === 'ExactOut' ? 'Total cost' : 'Net after gas'}: {formatCurrency(quote.netValueUSD)}
+          </span>
         </div>
       )}
+
+      {wrapService.isWrapQuote(quote) && (
+        <div className="mt-1 text-xs text-muted-foreground">
+          1:1 {wrapService.getWrapDirection(quote.fromToken, quote.toToken, quote.chainId)} · no slippage or aggregator fee
+        </div>
+      )}
+
+      {quote.route.length > 0 && renderRoute(quote)}
     </motion.div>
   );
 
+  const renderRoute = (quote: SwapQuote) => {
+    const paths = groupRoutePaths(quote.route);
+
+    return (
+      <div className="mt-3 space-y-1.5 text-xs text-muted-foreground">
+        {paths.map((path, pathIndex) => (
+          <div key={pathIndex} className="flex flex-wrap items-center gap-1">
+            {paths.length > 1 && (
+              <span className="w-10 font-medium text-foreground">{formatNumber(path.percentage, 0)}%</span>
+            )}
+            {path.hops.map((hop, hopIndex) => (
+              <React.Fragment key={`${hop.hopIndex}_${hop.tokenOut.address}`}>
+                {hopIndex === 0 && <span className="font-medium text-foreground">{hop.tokenIn.symbol}</span>}
+                <span
+                  className="px-1.5 py-0.5 rounded bg-muted"
+                  title={hop.pools.map(pool =>
+                    `${pool.protocol}${pool.amountIn && pool.amountOut ? `: ${pool.amountIn} ${pool.tokenIn.symbol} → ${pool.amountOut} ${pool.tokenOut.symbol}` : ''}`
+                  ).join('\n')}
+                >
+                  → {hop.pools.length > 1
+                    ? hop.pools.map(pool => `${pool.protocol} ${formatNumber((pool.percentage / (hop.percentage || 1)) * 100, 0)}%`).join(', ')
+                    : hop.pools[0]?.protocol}
+                </span>
+                <span className="font-medium text-foreground">{hop.tokenOut.symbol}</span>
+              </React.Fragment>
+            ))}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
   // ==========================================================================
   // MAIN RENDER
   // ==========================================================================
@@ -490,7 +1052,31 @@ export default function TradingPanel(): JSX.Element {
               
               {/* Amount Input */}
               <div className="space-y-2">
-                <label className="text-sm font-medium text-muted-foreground">Amount</label>
+                <div className="flex items-center justify-between">
+                  <label className="text-sm font-medium text-muted-foreground">
+                    {swapMode === 'ExactOut' ? `Amount to receive${toToken ? ` (${toToken.symbol})` : ''}` : 'Amount'}
+                  </label>
+                  <div className="flex rounded-md border border-border text-xs">
+                    <button
+                      onClick={() => setSwapMode('ExactIn')}
+                      className={cn(
+                        "px-2 py-1 rounded-l-md transition-colors",
+                        swapMode === 'ExactIn' ? "bg-primary text-primary-foreground" : "hover:bg-muted"
+                      )}
+                    >
+                      Exact in
+                    </button>
+                    <button
+                      onClick={() => setSwapMode('ExactOut')}
+                      className={cn(
+                        "px-2 py-1 rounded-r-md transition-colors",
+                        swapMode === 'ExactOut' ? "bg-primary text-primary-foreground" : "hover:bg-muted"
+                      )}
+                    >
+                      Exact out
+                    </button>
+                  </div>
+                </div>
                 <input
                   type="number"
                   value={amount}
@@ -514,42 +1100,580 @@ export default function TradingPanel(): JSX.Element {
               {renderTokenSelector(toToken, setToToken, "To")}
 
               {/* Quotes */}
-              {quotes.length > 0 && (
+              {currentQuote && (
                 <div className="space-y-3">
                   <div className="flex items-center justify-between">
-                    <h4 className="font-semibold">Best Quotes</h4>
+                    <h4 className="font-semibold">Best Quote</h4>
                     <button
                       onClick={fetchQuotes}
-                      disabled={isLoadingQuotes}
+                      disabled={isLoadingQuote}
                       className="btn btn-outline btn-sm"
                     >
-                      <RefreshCwIcon className={cn("w-4 h-4", isLoadingQuotes && "animate-spin")} />
+                      <RefreshCwIcon className={cn("w-4 h-4", isLoadingQuote && "animate-spin")} />
                       Refresh
                     </button>
                   </div>
                   
-                  <div className="space-y-2">
-                    {quotes.slice(0, 3).map(quote => 
-                      renderQuoteCard(quote, quote.id === selectedQuote?.id)
-                    )}
+                  <div className="text-xs text-muted-foreground">
+                    {isExpired ? 'Quote expired, it will be refreshed when you swap' : `Quote valid for ${secondsRemaining}s`}
+                  </div>
+
+                  {renderQuoteCard(currentQuote)}
+                </div>
+              )}
+
+              {/* Price Impact Warning */}
+              {currentQuote && (currentQuote.priceImpactSeverity === 'high' || currentQuote.priceImpactSeverity === 'severe') && (
+                <div className={cn(
+                  "flex items-start gap-2 p-3 rounded-lg border text-sm",
+                  isImpactBlocked
+                    ? "border-red-500/50 bg-red-500/10 text-red-600"
+                    : "border-orange-500/50 bg-orange-500/10 text-orange-600"
+                )}>
+                  <AlertTriangleIcon className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  <span>
+                    This trade moves the price by {currentQuote.isPriceImpactEstimated ? 'an estimated ' : ''}{formatPercentage(currentQuote.priceImpact)}.
+                    {isImpactBlocked
+                      ? ` Swaps above ${maxPriceImpact}% impact are blocked unless expert mode is on.`
+                      : ' You may receive significantly less than the market rate.'}
+                  </span>
+                </div>
+              )}
+
+              {/* Requote Diff */}
+              {requoteDiff && (
+                <div className={cn(
+                  "flex items-start gap-2 p-3 rounded-lg border text-sm",
+                  requoteDiff.exceedsSlippage
+                    ? "border-red-500/50 bg-red-500/10 text-red-600"
+                    : "border-border bg-muted/50 text-muted-foreground"
+                )}>
+                  <InfoIcon className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  <span className="flex-1">
+                    Your quote expired and was refreshed:{' '}
+                    {requoteDiff.next.swapMode === 'ExactOut'
+                      ? `${formatNumber(parseFloat(requoteDiff.previous.fromAmount), 6)} → ${formatNumber(parseFloat(requoteDiff.next.fromAmount), 6)} ${requoteDiff.next.fromToken.symbol}`
+                      : `${formatNumber(parseFloat(requoteDiff.previous.toAmount), 6)} → ${formatNumber(parseFloat(requoteDiff.next.toAmount), 6)} ${requoteDiff.next.toToken.symbol}`}
+                    {' '}({requoteDiff.changePercent >= 0 ? '+' : ''}{requoteDiff.changePercent.toFixed(2)}%).
+                    {requoteDiff.exceedsSlippage && ' This is beyond your slippage tolerance, so the swap was not sent.'}
+                  </span>
+                  <button onClick={clearRequoteDiff} className="text-xs hover:underline">
+                    Dismiss
+                  </button>
+                </div>
+              )}
+
+              {/* Simulated Balance Changes */}
+              {simulation && (
+                <div className={cn(
+                  "p-3 rounded-lg border text-sm space-y-2",
+                  simulation.success
+                    ? "border-border bg-muted/50"
+                    : "border-red-500/50 bg-red-500/10 text-red-600"
+                )}>
+                  <div className="font-medium">
+                    {simulation.success ? 'Simulated balance changes' : `Simulation failed: ${simulation.error || 'reverted'}`}
                   </div>
+                  {simulation.balanceChanges.map(change => {
+                    const value = parseFloat(change.amount);
+                    return (
+                      <div key={change.token.address} className="flex items-center justify-between">
+                        <span>{change.token.symbol}</span>
+                        <span className={value < 0 ? "text-red-600" : "text-green-600"}>
+                          {value > 0 ? '+' : ''}{formatNumber(value, 6)}
+                        </span>
+                      </div>
+                    );
+                  })}
+                  {simulation.isPartial && (
+                    <div className="text-xs text-muted-foreground">
+                      This network can&apos;t trace balance changes, so only whether the swap succeeds was checked.
+                    </div>
+                  )}
+                  {simulation.logs.length > 0 && (
+                    <details className="text-xs text-muted-foreground">
+                      <summary className="cursor-pointer">Logs ({simulation.logs.length})</summary>
+                      <div className="mt-1 max-h-32 overflow-y-auto font-mono break-all">
+                        {simulation.logs.map((log, index) => (
+                          <div key={index}>{log}</div>
+                        ))}
+                      </div>
+                    </details>
+                  )}
                 </div>
               )}
 
+              {/* Private Submission */}
+              {privateRelay && (
+                <label className="flex items-center justify-between text-sm cursor-pointer">
+                  <span className="flex items-center gap-2 text-muted-foreground">
+                    <ShieldIcon className="w-4 h-4" />
+                    Private submission (MEV protection)
+                  </span>
+                  <input
+                    type="checkbox"
+                    checked={isPrivateSubmission}
+                    onChange={(e) => setIsPrivateSubmission(e.target.checked)}
+                  />
+                </label>
+              )}
+
+              {activeChainType === 'solana' && (
+                <label className="flex items-center justify-between text-sm cursor-pointer">
+                  <span className="flex items-center gap-2 text-muted-foreground">
+                    <ShieldIcon className="w-4 h-4" />
+                    Jito bundle ({formatNumber(jitoTipLamports / LAMPORTS_PER_SOL, 6)} SOL tip)
+                  </span>
+                  <input
+                    type="checkbox"
+                    checked={isJitoSubmission}
+                    onChange={(e) => setIsJitoSubmission(e.target.checked)}
+                  />
+                </label>
+              )}
+
+              {/* Token Risks */}
+              {riskyTokens.map(token => (
+                <div key={token.address} className="p-3 rounded-lg border border-red-500/50 bg-red-500/10 text-sm space-y-2">
+                  <div className="flex items-center gap-2 font-medium text-red-600">
+                    <AlertTriangleIcon className="w-4 h-4" />
+                    {token.symbol} is high risk
+                  </div>
+                  <ul className="list-disc pl-5 text-red-600">
+                    {token.safety?.warnings.filter(warning => warning.severity !== 'low').map(warning => (
+                      <li key={warning.check}>{warning.message}</li>
+                    ))}
+                  </ul>
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={acknowledgedMints.includes(token.address)}
+                      onChange={(e) => setAcknowledgedMints(mints => e.target.checked
+                        ? [...mints, token.address]
+                        : mints.filter(mint => mint !== token.address)
+                      )}
+                    />
+                    I understand the risks of trading {token.symbol}
+                  </label>
+                </div>
+              ))}
+
               {/* Swap Button */}
               <button
-                onClick={handleSwap}
-                disabled={!selectedQuote || isLoadingQuotes}
+                onClick={simulation ? handleSwap : handleReview}
+                disabled={!currentQuote || isLoadingQuote || isImpactBlocked || isTokenRiskUnconfirmed || isSimulating || isSimulationBlocked}
                 className="btn btn-primary w-full py-3 text-lg"
               >
-                {isLoadingQuotes ? 'Getting quotes...' : 'Swap'}
+                {isLoadingQuote ? 'Getting quote...'
+                  : isImpactBlocked ? 'Price impact too high'
+                  : isTokenRiskUnconfirmed ? 'Confirm token risks'
+                  : isSimulating ? 'Simulating...'
+                  : isSimulationBlocked ? 'Swap would fail'
+                  : simulation ? 'Confirm swap'
+                  : 'Review swap'}
+              </button>
+
+              <button
+                onClick={handleAddToBasket}
+                disabled={!fromToken || !toToken || !amount || isExecutingBasket}
+                className="btn btn-outline w-full flex items-center justify-center gap-2"
+              >
+                <PlusIcon className="w-4 h-4" />
+                Add to basket
               </button>
+
+              {/* Limit Order */}
+              {swapMode === 'ExactIn' && (
+                <div className="space-y-2 pt-4 border-t border-border">
+                  <label className="text-sm font-medium text-muted-foreground">
+                    Limit price{fromToken && toToken ? ` (${toToken.symbol} per ${fromToken.symbol})` : ''}
+                  </label>
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      value={limitPrice}
+                      onChange={(e) => setLimitPrice(e.target.value)}
+                      placeholder={currentQuote ? formatNumber(currentQuote.price, 6) : '0.0'}
+                      className="input flex-1"
+                    />
+                    <button
+                      onClick={handlePlaceLimitOrder}
+                      disabled={!fromToken || !toToken || !amount || !limitPrice || isPlacingOrder}
+                      className="btn btn-outline"
+                    >
+                      {isPlacingOrder ? 'Placing...' : 'Place limit order'}
+                    </button>
+                  </div>
+                </div>
+              )}
             </div>
           </div>
         </div>
 
         {/* AI Assistant Panel */}
         <div className="space-y-6">
+          {basket && (
+            <div className="card p-6">
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-2">
+                  <LayersIcon className="w-4 h-4" />
+                  <h3 className="font-semibold">Basket</h3>
+                </div>
+                <button
+                  onClick={clearBasket}
+                  disabled={isExecutingBasket}
+                  className="btn btn-outline btn-sm"
+                >
+                  Clear
+                </button>
+              </div>
+
+              <div className="space-y-2">
+                {basketLegs.map(leg => (
+                  <div key={leg.id} className="p-3 border border-border rounded-lg text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">
+                        {leg.quote ? formatNumber(parseFloat(leg.quote.fromAmount), 6) : leg.request.amount} {leg.request.fromToken.symbol}
+                        {' → '}
+                        {leg.quote ? `${formatNumber(parseFloat(leg.quote.toAmount), 6)} ` : ''}{leg.request.toToken.symbol}
+                      </span>
+                      {leg.status === 'confirmed' && <CheckCircleIcon className="w-4 h-4 text-green-600" />}
+                      {leg.status === 'executing' && <ClockIcon className="w-4 h-4 animate-pulse" />}
+                      {leg.status === 'failed' && <XCircleIcon className="w-4 h-4 text-red-600" />}
+                      {leg.status === 'skipped' && <span className="text-muted-foreground">Skipped</span>}
+                      {(leg.status === 'draft' || leg.status === 'quoted') && (
+                        <button
+                          onClick={() => removeBasketLeg(leg.id)}
+                          className="text-muted-foreground hover:text-foreground"
+                        >
+                          <TrashIcon className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                    {leg.quote && (leg.status === 'quoted' || leg.status === 'draft') && (
+                      <div className="text-muted-foreground mt-1">{leg.quote.aggregator}</div>
+                    )}
+                    {leg.error && (
+                      <div className="text-red-600 mt-1">{leg.error}</div>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {basketSummary && basketSummary.quotedCount > 0 && (
+                <div className="space-y-1 mt-4 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Total in</span>
+                    <span>{formatCurrency(basketSummary.totalInUSD)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Total out</span>
+                    <span>{formatCurrency(basketSummary.totalOutUSD)}</span>
+                  </div>
+                  {basketSummary.totalGasUSD > 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Network fees</span>
+                      <span>{formatCurrency(basketSummary.totalGasUSD)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between font-medium">
+                    <span>Net change</span>
+                    <span className={basketSummary.netChangeUSD < 0 ? 'text-red-600' : 'text-green-600'}>
+                      {formatCurrency(basketSummary.netChangeUSD)}
+                    </span>
+                  </div>
+                  {!basketSummary.isComplete && (
+                    <p className="text-xs text-muted-foreground">Some swaps have no USD price; totals are partial.</p>
+                  )}
+                </div>
+              )}
+
+              {(basket.status === 'draft' || basket.status === 'quoted') && (
+                <div className="flex gap-2 mt-4">
+                  <button
+                    onClick={handleQuoteBasket}
+                    disabled={isQuotingBasket}
+                    className="btn btn-outline flex-1"
+                  >
+                    {isQuotingBasket ? 'Quoting...' : canExecuteBasket ? 'Requote' : 'Quote all'}
+                  </button>
+                  <button
+                    onClick={handleExecuteBasket}
+                    disabled={!canExecuteBasket || isQuotingBasket}
+                    className="btn btn-primary flex-1"
+                  >
+                    Execute {basketLegs.length} swap{basketLegs.length === 1 ? '' : 's'}
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {bridgeDestinations.length > 0 && (
+            <div className="card p-6">
+              <div className="flex items-center gap-2 mb-4">
+                <ArrowRightLeftIcon className="w-4 h-4" />
+                <h3 className="font-semibold">Bridge</h3>
+              </div>
+
+              <div className="space-y-2">
+                <select
+                  value={bridgeToChainId ?? ''}
+                  onChange={(e) => setBridgeToChainId(e.target.value ? Number(e.target.value) : null)}
+                  className="input w-full"
+                >
+                  <option value="">Destination chain</option>
+                  {bridgeDestinations.map(destination => (
+                    <option key={destination.chainId} value={destination.chainId}>{destination.label}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={bridgeToToken}
+                  onChange={(e) => setBridgeToToken(e.target.value)}
+                  placeholder="Destination token address"
+                  className="input w-full"
+                />
+                <button
+                  onClick={handleGetBridgeQuotes}
+                  disabled={!fromToken || !amount || !bridgeToChainId || !bridgeToToken || isLoadingBridgeQuotes}
+                  className="btn btn-outline w-full"
+                >
+                  {isLoadingBridgeQuotes ? 'Finding routes...' : `Bridge ${amount || '0'} ${fromToken?.symbol || ''}`}
+                </button>
+              </div>
+
+              {bridgeQuotes.length > 0 && (
+                <div className="space-y-2 mt-4">
+                  {bridgeQuotes.slice(0, 3).map(quote => (
+                    <div key={quote.id} className="p-3 border border-border rounded-lg text-sm">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">{quote.bridge}</span>
+                        <span>{formatNumber(parseFloat(quote.toAmount), 6)} {quote.toToken.symbol}</span>
+                      </div>
+                      <div className="flex items-center justify-between text-muted-foreground mt-1">
+                        <span>Fees {formatCurrency(quote.feeUSD + quote.gasCostUSD)}</span>
+                        <span>~{Math.ceil(quote.estimatedDuration / 60)} min</span>
+                      </div>
+                      <button onClick={() => handleBridge(quote.id)} className="btn btn-primary btn-sm w-full mt-2">
+                        Send
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {bridgeTransfers.length > 0 && (
+                <div className="space-y-2 mt-4">
+                  {bridgeTransfers.slice(0, 5).map(transfer => (
+                    <div key={transfer.id} className="p-3 border border-border rounded-lg text-sm">
+                      <div className="font-medium">
+                        {transfer.fromAmount} {transfer.fromToken.symbol} → {transfer.toToken?.symbol}
+                      </div>
+                      {transfer.stages?.map(stage => (
+                        <div key={stage.label} className="flex items-center gap-2 mt-1 text-muted-foreground">
+                          {stage.status === 'confirmed' && <CheckCircleIcon className="w-3 h-3 text-green-600" />}
+                          {stage.status === 'pending' && <ClockIcon className="w-3 h-3 animate-pulse" />}
+                          {stage.status === 'failed' && <XCircleIcon className="w-3 h-3 text-red-600" />}
+                          <span>{stage.label}</span>
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {activeChainType === 'solana' && solanaPublicKey && (
+            <div className="card p-6">
+              <div className="flex items-center gap-2 mb-4">
+                <WalletIcon className="w-4 h-4" />
+                <h3 className="font-semibold">Reclaim Rent</h3>
+              </div>
+
+              {isLoadingRentReclaim && !rentReclaim ? (
+                <p className="text-sm text-muted-foreground">Checking token accounts...</p>
+              ) : rentReclaim && (
+                <div className="space-y-2 text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="text-muted-foreground">Empty accounts</span>
+                    <span>{rentReclaim.emptyAccounts.length}</span>
+                  </div>
+                  {reclaimDust && (
+                    <div className="flex items-center justify-between">
+                      <span className="text-muted-foreground">Dust accounts</span>
+                      <span>
+                        {rentReclaim.dustAccounts.length} (~{formatNumber(parseFloat(rentReclaim.dustValueSol), 6)} SOL)
+                      </span>
+                    </div>
+                  )}
+                  <div className="flex items-center justify-between">
+                    <span className="text-muted-foreground">Reclaimable</span>
+                    <span className="font-medium">{formatNumber(parseFloat(rentReclaim.reclaimableSol), 6)} SOL</span>
+                  </div>
+                </div>
+              )}
+
+              <label className="flex items-center justify-between text-sm cursor-pointer mt-3">
+                <span className="text-muted-foreground">
+                  Swap dust under {APP_CONFIG.RENT_RECLAIM.DUST_THRESHOLD_SOL} SOL first
+                </span>
+                <input
+                  type="checkbox"
+                  checked={reclaimDust}
+                  onChange={(e) => setReclaimDust(e.target.checked)}
+                />
+              </label>
+
+              <button
+                onClick={handleReclaimRent}
+                disabled={reclaimAccountCount === 0 || isLoadingRentReclaim || isReclaiming}
+                className="btn btn-outline w-full mt-3"
+              >
+                {isReclaiming ? 'Closing accounts...' : `Close ${reclaimAccountCount} accounts`}
+              </button>
+            </div>
+          )}
+
+          <div className="card p-6">
+            <div className="flex items-center gap-2 mb-4">
+              <RepeatIcon className="w-4 h-4" />
+              <h3 className="font-semibold">Recurring Buys</h3>
+            </div>
+
+            {duePurchases.length > 0 && (
+              <div className="space-y-2 mb-4">
+                {duePurchases.map(({ plan, quote }) => (
+                  <div key={plan.id} className="p-3 border border-primary/50 bg-primary/5 rounded-lg text-sm">
+                    <div className="font-medium">
+                      Buy ~{formatNumber(parseFloat(quote.toAmount), 6)} {plan.toToken.symbol} for {plan.amountPerExecution} {plan.fromToken.symbol}
+                    </div>
+                    <div className="flex gap-2 mt-2">
+                      <button onClick={() => handleExecuteDcaPurchase(plan.id)} className="btn btn-primary btn-sm flex-1">
+                        Confirm
+                      </button>
+                      <button onClick={() => skipPurchase(plan.id)} className="btn btn-outline btn-sm flex-1">
+                        Skip
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <div className="flex gap-2">
+                <select
+                  value={dcaInterval}
+                  onChange={(e) => setDcaInterval(e.target.value as DCAInterval)}
+                  className="input flex-1"
+                >
+                  <option value="hourly">Hourly</option>
+                  <option value="daily">Daily</option>
+                  <option value="weekly">Weekly</option>
+                  <option value="biweekly">Every 2 weeks</option>
+                  <option value="monthly">Monthly</option>
+                </select>
+                <input
+                  type="number"
+                  min="1"
+                  value={dcaPurchases}
+                  onChange={(e) => setDcaPurchases(e.target.value)}
+                  placeholder="Runs (∞)"
+                  className="input w-24"
+                />
+              </div>
+              {activeChainType === 'solana' && (
+                <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <input
+                    type="checkbox"
+                    checked={useJupiterDca}
+                    onChange={(e) => setUseJupiterDca(e.target.checked)}
+                  />
+                  Run on-chain with Jupiter DCA (deposits the full budget)
+                </label>
+              )}
+              <button
+                onClick={handleCreateDcaPlan}
+                disabled={!fromToken || !toToken || !amount || swapMode !== 'ExactIn'}
+                className="btn btn-outline w-full"
+              >
+                Buy {amount || '0'} {fromToken?.symbol} of {toToken?.symbol} {dcaInterval}
+              </button>
+            </div>
+
+            {activePlans.length > 0 && (
+              <div className="space-y-2 mt-4">
+                {activePlans.map(plan => (
+                  <div key={plan.id} className="p-3 border border-border rounded-lg text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">
+                        {plan.amountPerExecution} {plan.fromToken.symbol} → {plan.toToken.symbol}
+                      </span>
+                      <span className="text-muted-foreground">{plan.interval}</span>
+                    </div>
+                    <div className="text-muted-foreground mt-1">
+                      {plan.executionCount}
+                      {plan.endCondition.type === 'executions' ? `/${plan.endCondition.count}` : ''} runs
+                      {plan.status === 'paused'
+                        ? ' • Paused'
+                        : ` • Next ${new Date(plan.nextExecutionAt).toLocaleString()}`}
+                    </div>
+                    <div className="flex gap-3 mt-2 text-xs">
+                      {plan.executionMode === 'wallet' && (
+                        <button
+                          onClick={() => plan.status === 'paused' ? resumePlan(plan.id) : pausePlan(plan.id)}
+                          className="hover:underline"
+                        >
+                          {plan.status === 'paused' ? 'Resume' : 'Pause'}
+                        </button>
+                      )}
+                      <button onClick={() => handleCancelDcaPlan(plan.id)} className="text-red-600 hover:underline">
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {openOrders.length > 0 && (
+            <div className="card p-6">
+              <div className="flex items-center gap-2 mb-4">
+                <ClockIcon className="w-4 h-4" />
+                <h3 className="font-semibold">Open Orders</h3>
+              </div>
+
+              <div className="space-y-2">
+                {openOrders.map(order => (
+                  <div key={order.id} className="p-3 border border-border rounded-lg text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">
+                        {formatNumber(parseFloat(order.fromAmount), 6)} {order.fromToken.symbol} → {order.toToken.symbol}
+                      </span>
+                      <button
+                        onClick={() => handleCancelLimitOrder(order.id)}
+                        className="text-red-600 hover:underline text-xs"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                    <div className="flex items-center justify-between text-muted-foreground mt-1">
+                      <span>@ {formatNumber(order.limitPrice, 6)} {order.toToken.symbol}</span>
+                      <span>
+                        {order.status === 'partially_filled'
+                          ? `${formatPercentage((parseFloat(order.filledFromAmount) / parseFloat(order.fromAmount)) * 100)} filled`
+                          : order.protocol}
+                      </span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div className="card p-6">
             <div className="flex items-center justify-between mb-4">
               <h3 className="font-semibold">AI Trading Assistant</h3>
@@ -626,6 +1750,160 @@ export default function TradingPanel(): JSX.Element {
                   <span>5%</span>
                 </div>
               </div>
+
+              <div>
+                <label className="text-sm font-medium text-muted-foreground">
+                  Token Approvals
+                </label>
+                <div className="flex gap-2 mt-2">
+                  <button
+                    onClick={() => updateTradingSettings({ approvalMode: 'exact' })}
+                    className={cn("btn btn-sm flex-1", approvalMode === 'exact' ? "btn-primary" : "btn-outline")}
+                  >
+                    Exact amount
+                  </button>
+                  <button
+                    onClick={() => updateTradingSettings({ approvalMode: 'unlimited' })}
+                    className={cn("btn btn-sm flex-1", approvalMode === 'unlimited' ? "btn-primary" : "btn-outline")}
+                  >
+                    Unlimited
+                  </button>
+                </div>
+              </div>
+
+              <div>
+                <label className="text-sm font-medium text-muted-foreground">
+                  Transaction Submission
+                </label>
+                <div className="flex gap-2 mt-2">
+                  <button
+                    onClick={() => updateTradingSettings({ submissionStrategy: 'public' })}
+                    className={cn("btn btn-sm flex-1", submissionStrategy === 'public' ? "btn-primary" : "btn-outline")}
+                  >
+                    Public mempool
+                  </button>
+                  <button
+                    onClick={() => updateTradingSettings({ submissionStrategy: 'private' })}
+                    className={cn("btn btn-sm flex-1", submissionStrategy === 'private' ? "btn-primary" : "btn-outline")}
+                  >
+                    Private relay
+                  </button>
+                </div>
+                {submissionStrategy === 'private' && (
+                  <input
+                    type="url"
+                    value={privateRelayUrl || ''}
+                    onChange={(e) => updateTradingSettings({ privateRelayUrl: e.target.value })}
+                    placeholder="Relay RPC URL (defaults to Flashbots Protect)"
+                    className="input w-full mt-2 text-sm"
+                  />
+                )}
+              </div>
+
+              <div>
+                <label className="text-sm font-medium text-muted-foreground">
+                  Solana Submission
+                </label>
+                <div className="flex gap-2 mt-2">
+                  <button
+                    onClick={() => updateTradingSettings({ solanaSubmissionMode: 'rpc' })}
+                    className={cn("btn btn-sm flex-1", solanaSubmissionMode === 'rpc' ? "btn-primary" : "btn-outline")}
+                  >
+                    Wallet RPC
+                  </button>
+                  <button
+                    onClick={() => updateTradingSettings({ solanaSubmissionMode: 'jito' })}
+                    className={cn("btn btn-sm flex-1", solanaSubmissionMode === 'jito' ? "btn-primary" : "btn-outline")}
+                  >
+                    Jito bundle
+                  </button>
+                </div>
+                {solanaSubmissionMode === 'jito' && (
+                  <div className="space-y-2 mt-2">
+                    <input
+                      type="number"
+                      min={APP_CONFIG.JITO.MIN_TIP_LAMPORTS}
+                      step="1000"
+                      value={jitoTipLamports}
+                      onChange={(e) => updateTradingSettings({ jitoTipLamports: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                      placeholder="Tip (lamports)"
+                      className="input w-full text-sm"
+                    />
+                    <input
+                      type="url"
+                      value={jitoBlockEngineUrl || ''}
+                      onChange={(e) => updateTradingSettings({ jitoBlockEngineUrl: e.target.value })}
+                      placeholder={`Block engine URL (${APP_CONFIG.JITO.BLOCK_ENGINE_URL})`}
+                      className="input w-full text-sm"
+                    />
+                  </div>
+                )}
+                {solanaSubmissionMode === 'rpc' && (
+                  <div className="mt-2">
+                    <input
+                      type="number"
+                      min="0"
+                      step="100000"
+                      value={maxPriorityFeeLamports}
+                      onChange={(e) => updateTradingSettings({ maxPriorityFeeLamports: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                      placeholder="Max priority fee (lamports)"
+                      className="input w-full text-sm"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Max priority fee: {formatNumber(maxPriorityFeeLamports / LAMPORTS_PER_SOL, 6)} SOL
+                    </p>
+                  </div>
+                )}
+              </div>
+
+              {priorityFeeLevels.length > 0 && !isJitoSubmission && (
+                <div>
+                  <label className="text-sm font-medium text-muted-foreground">
+                    Priority Fee
+                  </label>
+                  <div className="grid grid-cols-4 gap-2 mt-2">
+                    {priorityFeeLevels.map(level => (
+                      <button
+                        key={level.speed}
+                        onClick={() => updateTradingSettings({ gasPrice: level.speed })}
+                        title={`${formatNumber(level.microLamportsPerComputeUnit, 0)} micro-lamports per compute unit${level.isCapped ? ', capped at your max' : ''}`}
+                        className={cn("btn btn-sm flex-col h-auto py-1", gasSpeed === level.speed ? "btn-primary" : "btn-outline")}
+                      >
+                        <span className="capitalize">{level.speed}</span>
+                        <span className="text-xs opacity-75">
+                          {formatNumber(parseFloat(level.fee), 6)} SOL{level.isCapped ? ' (max)' : ''}
+                        </span>
+                        {level.feeUSD !== null && (
+                          <span className="text-xs opacity-75">~{formatCurrency(level.feeUSD)}</span>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {gasCosts.length > 0 && (
+                <div>
+                  <label className="text-sm font-medium text-muted-foreground">
+                    Gas Speed
+                  </label>
+                  <div className="grid grid-cols-4 gap-2 mt-2">
+                    {gasCosts.map(cost => (
+                      <button
+                        key={cost.speed}
+                        onClick={() => updateTradingSettings({ gasPrice: cost.speed })}
+                        title={cost.maxCostUSD !== null ? `Up to ${formatCurrency(cost.maxCostUSD)}` : `Up to ${cost.maxCost}`}
+                        className={cn("btn btn-sm flex-col h-auto py-1", gasSpeed === cost.speed ? "btn-primary" : "btn-outline")}
+                      >
+                        <span className="capitalize">{cost.speed}</span>
+                        <span className="text-xs opacity-75">
+                          {cost.expectedCostUSD !== null ? `~${formatCurrency(cost.expectedCostUSD)}` : formatNumber(parseFloat(cost.expectedCost), 6)}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           </motion.div>
         )}
@@ -254,7 +254,57 @@ export const APP_CONFIG = {
     MAX_SLIPPAGE: 50, // 50%
     MIN_SLIPPAGE: 0.1, // 0.1%
     SLIPPAGE_OPTIONS: [0.1, 0.5, 1, 3, 5],
-    GAS_LIMIT_BUFFER: 1.2 // 20% buffer
+    GAS_LIMIT_BUFFER: 1.2, // 20% buffer
+    PRICE_IMPACT_WARNING: {
+      MEDIUM: 1, // 1%
+      HIGH: 3, // 3%
+      SEVERE: 5 // 5%
+    },
+    MAX_PRICE_IMPACT: 15, // 15%, confirmation blocked above this outside expert mode
+    QUOTE_TTL: 30000, // 30 seconds
+    QUOTE_REFRESH_BUFFER: 5000, // Requote this long before a quote expires
+    MAX_BASKET_LEGS: 8
+  },
+  
+  // Sending Solana transactions
+  SOLANA: {
+    REBROADCAST_INTERVAL: 2000, // Resend a signed transaction this often until it confirms or its blockhash expires
+    SWAP_COMPUTE_UNITS: 300000, // Assumed for priority fees until a swap has been simulated
+    DEFAULT_MAX_PRIORITY_FEE_LAMPORTS: 2000000, // 0.002 SOL
+    PRIORITY_FEE_CACHE_DURATION: 10000
+  },
+  
+  // Closing empty and dust Solana token accounts
+  RENT_RECLAIM: {
+    CLOSE_ACCOUNTS_PER_TRANSACTION: 20, // Keeps each batch under the transaction size limit
+    DUST_THRESHOLD_SOL: 0.001, // Balances worth at most this much count as dust
+    DUST_SLIPPAGE: 5 // %, dust routes are thin
+  },
+  
+  // On-chain checks of Solana mints
+  TOKEN_SAFETY: {
+    TOP_HOLDERS: 10, // Largest accounts counted towards holder concentration
+    CONCENTRATION_WARNING: 50, // % of supply held by the top holders
+    CONCENTRATION_HIGH: 80,
+    HIGH_TRANSFER_FEE_BPS: 500, // 5%
+    CACHE_DURATION: 300000 // 5 minutes
+  },
+  
+  // Jito bundles for Solana swaps
+  JITO: {
+    BLOCK_ENGINE_URL: process.env.NEXT_PUBLIC_JITO_BLOCK_ENGINE_URL || 'https://mainnet.block-engine.jito.wtf',
+    DEFAULT_TIP_LAMPORTS: 100000, // 0.0001 SOL
+    MIN_TIP_LAMPORTS: 1000, // Bundles tipping less are rejected
+    STATUS_POLL_INTERVAL: 2000,
+    BUNDLE_TIMEOUT: 60000, // Give up on a bundle that hasn't landed after a minute
+    MAX_BUNDLE_SIZE: 5 // Transactions the block engine accepts in one bundle
+  },
+  
+  // Allowance discovery from Approval logs
+  APPROVALS: {
+    LOG_LOOKBACK_BLOCKS: 2000000, // How far back to scan when the RPC won't search all history at once
+    LOG_CHUNK_SIZE: 50000, // Blocks per getLogs request in that scan
+    CACHE_DURATION: 60000 // 1 minute
   },
   
   // UI Configuration
@@ -307,9 +357,11 @@ export const ERROR_MESSAGES = {
   INSUFFICIENT_BALANCE: 'Insufficient balance for this transaction',
   SLIPPAGE_TOO_HIGH: 'Price impact too high. Try reducing your trade size',
   TRADE_FAILED: 'Trade failed. Please try again',
+  TRANSACTION_EXPIRED: 'Transaction expired before it confirmed. Please try again',
   NETWORK_ERROR: 'Network error. Please check your connection',
   INVALID_AMOUNT: 'Please enter a valid amount',
   TOKEN_NOT_FOUND: 'Token not found',
+  NO_ROUTE_FOUND: 'No route found for this swap',
   UNKNOWN_ERROR: 'An unexpected error occurred'
 } as const;
 
@@ -122,6 +122,16 @@ export function getRpcUrl(chainId: number): string {
   return chain.rpcUrls.default.http[0] || chain.rpcUrls.public.http[0];
 }
 
+// Flashbots Protect-style RPCs that keep a transaction out of the public
+// mempool until it's mined, so it can't be sandwiched
+export const PRIVATE_RELAY_URLS: Record<number, string> = {
+  [mainnet.id]: process.env.NEXT_PUBLIC_PRIVATE_RELAY_URL || 'https://rpc.flashbots.net/fast',
+};
+
+export function getPrivateRelayUrl(chainId: number, customUrl?: string): string | null {
+  return customUrl || PRIVATE_RELAY_URLS[chainId] || null;
+}
+
 // =============================================================================
 // NETWORK CONSTANTS
 // =============================================================================
@@ -156,6 +166,8 @@ export const GAS_LIMITS: Record<string, number> = {
   ERC20_TRANSFER: 65000,
   ERC20_APPROVE: 45000,
   SWAP: 150000,
+  WRAP: 50000,
+  UNWRAP: 40000,
   ADD_LIQUIDITY: 200000,
   REMOVE_LIQUIDITY: 150000,
   STAKE: 100000,
@@ -212,8 +224,23 @@ export const TOKEN_CONTRACTS: Record<number, Record<string, string>> = {
 // DEX ROUTER CONTRACTS
 // =============================================================================
 
+// Aggregator routers share one address across chains. ParaSwap's are the
+// v5 AugustusSwapper and TokenTransferProxy its /adapters/contracts API
+// reports, the latter being the spender @paraswap/sdk's getSpender returns
+const AGGREGATOR_ROUTERS = {
+  ONEINCH: '0x1111111254EEB25477B68fb85Ed929f73A960582',
+  ZEROEX: '0xDef1C0ded9bec7F1a1670819833240f027b25EfF',
+  PARASWAP: '0xDEF171Fe48CF0115B1d80b88dc8eAB59176FEe57',
+  PARASWAP_PROXY: '0x216B4B4Ba9F3e719726886d34a177484278Bfcae', // ParaSwap pulls tokens via its TokenTransferProxy
+  OPENOCEAN: '0x6352a56caadC4F1E25CD6c75970Fa768A3304e64',
+};
+
+// The Universal Router has a different address per chain; these are the
+// CHAIN_CONFIGS entries in @uniswap/universal-router-sdk
 export const DEX_ROUTERS: Record<number, Record<string, string>> = {
   [mainnet.id]: {
+    ...AGGREGATOR_ROUTERS,
+    UNISWAP_UNIVERSAL_ROUTER: '0x3fC91A3afd70395Cd496C647d5a6CC9D4B2b7FAD',
     UNISWAP_V2: '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D',
     UNISWAP_V3: '0xE592427A0AEce92De3Edee1F18E0157C05861564',
     SUSHISWAP: '0xd9e1cE17f2641f24aE83637ab66a2cca9C378B9F',
@@ -221,22 +248,31 @@ export const DEX_ROUTERS: Record<number, Record<string, string>> = {
     BALANCER: '0xBA12222222228d8Ba445958a75a0704d566BF2C8',
   },
   [polygon.id]: {
+    ...AGGREGATOR_ROUTERS,
+    UNISWAP_UNIVERSAL_ROUTER: '0xec7BE89e9d109e7e3Fec59c222CF297125FEFda2',
+    UNISWAP_V3: '0xE592427A0AEce92De3Edee1F18E0157C05861564',
     QUICKSWAP: '0xa5E0829CaCEd8fFDD4De3c43696c57F7D7A678ff',
     SUSHISWAP: '0x1b02dA8Cb0d097eB8D57A175b88c7D8b47997506',
     CURVE: '0x445FE580eF8d70FF569aB36e80c647af338db351',
   },
   [arbitrum.id]: {
+    ...AGGREGATOR_ROUTERS,
+    UNISWAP_UNIVERSAL_ROUTER: '0x5E325eDA8064b456f4781070C0738d849c824258',
     UNISWAP_V3: '0xE592427A0AEce92De3Edee1F18E0157C05861564',
     SUSHISWAP: '0x1b02dA8Cb0d097eB8D57A175b88c7D8b47997506',
     CURVE: '0x445FE580eF8d70FF569aB36e80c647af338db351',
     BALANCER: '0xBA12222222228d8Ba445958a75a0704d566BF2C8',
   },
   [bsc.id]: {
+    ...AGGREGATOR_ROUTERS,
     PANCAKESWAP: '0x10ED43C718714eb63d5aA57B78B54704E256024E',
     SUSHISWAP: '0x1b02dA8Cb0d097eB8D57A175b88c7D8b47997506',
   },
 };
 
+// Uniswap's canonical Permit2 deployment (same address on every chain)
+export const PERMIT2_ADDRESS = '0x000000000022D473030F116dDEE9F6B43aC78BA3';
+
 // =============================================================================
 // MULTICALL CONTRACTS
 // =============================================================================
@@ -0,0 +1,142 @@
+import { DCAPlan, Trade } from '@/types';
+import { dcaService } from '../dca';
+import { USDC, WETH } from '@/utils/__tests__/fixtures';
+
+// Scheduling is pure; keep the quoting services and their wallet stacks out
+jest.mock('../dex', () => ({ dexService: {} }));
+jest.mock('../jupiter', () => ({ jupiterService: {} }));
+
+const HOUR = 60 * 60 * 1000;
+const NOW = new Date('2026-01-10T12:00:00Z');
+
+function makePlan(overrides: Partial<DCAPlan> = {}): DCAPlan {
+  return {
+    id: 'dca_1',
+    owner: '0xowner',
+    chainId: 1,
+    fromToken: USDC,
+    toToken: WETH,
+    amountPerExecution: '100',
+    interval: 'daily',
+    endCondition: { type: 'never' },
+    executionMode: 'wallet',
+    status: 'active',
+    createdAt: new Date('2026-01-01T12:00:00Z'),
+    nextExecutionAt: NOW,
+    executionCount: 0,
+    totalSpent: '0',
+    totalReceived: '0',
+    tradeIds: [],
+    ...overrides,
+  };
+}
+
+function makeTrade(overrides: Partial<Trade> = {}): Trade {
+  return {
+    id: 'trade_1',
+    userId: '0xowner',
+    type: 'swap',
+    fromToken: USDC,
+    toToken: WETH,
+    fromAmount: '100',
+    toAmount: '0.05',
+    price: 0.0005,
+    gasUsed: '150000',
+    gasFee: '0.001',
+    txHash: '0xhash',
+    status: 'confirmed',
+    timestamp: NOW,
+    ...overrides,
+  };
+}
+
+describe('getDuePlans', () => {
+  it('returns active wallet plans whose purchase is due', () => {
+    const due = makePlan({ id: 'due' });
+    const onTime = makePlan({ id: 'on_time', nextExecutionAt: new Date(NOW.getTime() - HOUR) });
+    const later = makePlan({ id: 'later', nextExecutionAt: new Date(NOW.getTime() + HOUR) });
+
+    expect(dcaService.getDuePlans([due, onTime, later], NOW).map(plan => plan.id)).toEqual(['due', 'on_time']);
+  });
+
+  it('skips paused plans and plans Jupiter executes', () => {
+    const paused = makePlan({ status: 'paused' });
+    const jupiter = makePlan({ executionMode: 'jupiter' });
+
+    expect(dcaService.getDuePlans([paused, jupiter], NOW)).toEqual([]);
+  });
+});
+
+describe('getNextExecutionTime', () => {
+  it('schedules one interval after the current slot', () => {
+    const plan = makePlan({ interval: 'weekly' });
+    expect(dcaService.getNextExecutionTime(plan, NOW).getTime()).toBe(NOW.getTime() + 7 * 24 * HOUR);
+  });
+
+  it('skips slots missed while the app was closed', () => {
+    const plan = makePlan({ interval: 'hourly' });
+    const from = new Date(NOW.getTime() + 5.5 * HOUR);
+    expect(dcaService.getNextExecutionTime(plan, from).getTime()).toBe(NOW.getTime() + 6 * HOUR);
+  });
+
+  it('never returns the moment it is computed from', () => {
+    const plan = makePlan({ interval: 'hourly' });
+    const from = new Date(NOW.getTime() + HOUR);
+    expect(dcaService.getNextExecutionTime(plan, from).getTime()).toBe(NOW.getTime() + 2 * HOUR);
+  });
+});
+
+describe('isPlanComplete', () => {
+  it('completes after the configured number of purchases', () => {
+    const endCondition = { type: 'executions', count: 3 } as const;
+    expect(dcaService.isPlanComplete(makePlan({ endCondition, executionCount: 2 }))).toBe(false);
+    expect(dcaService.isPlanComplete(makePlan({ endCondition, executionCount: 3 }))).toBe(true);
+  });
+
+  it('completes once the next purchase falls after the end date', () => {
+    const endCondition = { type: 'date', endDate: NOW } as const;
+    expect(dcaService.isPlanComplete(makePlan({ endCondition }))).toBe(false);
+    expect(dcaService.isPlanComplete(makePlan({
+      endCondition,
+      nextExecutionAt: new Date(NOW.getTime() + HOUR),
+    }))).toBe(true);
+  });
+
+  it('never completes an open-ended plan', () => {
+    expect(dcaService.isPlanComplete(makePlan({ executionCount: 1000 }))).toBe(false);
+  });
+});
+
+describe('recordExecution', () => {
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('adds the purchase to the totals and moves the schedule on', () => {
+    const plan = makePlan({ totalSpent: '200', totalReceived: '0.1', executionCount: 2, tradeIds: ['a', 'b'] });
+    const updated = dcaService.recordExecution(plan, makeTrade());
+
+    expect(updated.executionCount).toBe(3);
+    expect(updated.totalSpent).toBe('300');
+    expect(updated.totalReceived).toBe('0.15');
+    expect(updated.tradeIds).toEqual(['a', 'b', 'trade_1']);
+    expect(updated.lastExecutedAt).toEqual(NOW);
+    expect(updated.nextExecutionAt.getTime()).toBe(NOW.getTime() + 24 * HOUR);
+    expect(updated.status).toBe('active');
+  });
+
+  it('completes the plan on its last purchase', () => {
+    const plan = makePlan({ endCondition: { type: 'executions', count: 1 } });
+    expect(dcaService.recordExecution(plan, makeTrade()).status).toBe('completed');
+  });
+
+  it('keeps amounts exact at the token decimals', () => {
+    const plan = makePlan({ totalReceived: '0.000000000000000001' });
+    const updated = dcaService.recordExecution(plan, makeTrade({ toAmount: '0.000000000000000002' }));
+    expect(updated.totalReceived).toBe('0.000000000000000003');
+  });
+});
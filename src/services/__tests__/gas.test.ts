@@ -0,0 +1,154 @@
+import { gasService } from '../gas';
+
+// Fee data comes from a stubbed RPC client; keep the wallet stacks out
+const mockGetPublicClient = jest.fn();
+const mockGetTokenPrice = jest.fn();
+jest.mock('../portfolio', () => ({
+  portfolioService: { getPublicClient: (chainId: number): unknown => mockGetPublicClient(chainId) },
+}));
+jest.mock('../pricing', () => ({
+  pricingService: { getTokenPrice: (symbol: string): unknown => mockGetTokenPrice(symbol) },
+}));
+jest.mock('@/lib/wagmi', () => ({
+  GAS_PRICE_LEVELS: { SLOW: 1, STANDARD: 1.25, FAST: 1.5, INSTANT: 2 },
+  NATIVE_CURRENCY: { 1: { name: 'Ether', symbol: 'ETH', decimals: 18 } },
+}));
+
+const GWEI = BigInt(1000000000);
+
+function gwei(...values: number[]): bigint[] {
+  return values.map(value => BigInt(value) * GWEI);
+}
+
+function mockClient(feeHistory: { baseFeePerGas: bigint[]; reward?: bigint[][] } | null, gasPrice = BigInt(20) * GWEI) {
+  const client = {
+    getFeeHistory: jest.fn(() => feeHistory ? Promise.resolve(feeHistory) : Promise.reject(new Error('not supported'))),
+    getGasPrice: jest.fn().mockResolvedValue(gasPrice),
+  };
+  mockGetPublicClient.mockReturnValue(client);
+  return client;
+}
+
+beforeEach(() => {
+  gasService.clearCache();
+  mockGetTokenPrice.mockResolvedValue({ price: 2000 });
+});
+
+describe('getFeeEstimate', () => {
+  it('prices each speed from the next base fee and the median tip', async () => {
+    mockClient({
+      baseFeePerGas: gwei(10, 12),
+      reward: [gwei(1, 2, 3, 5), gwei(2, 3, 4, 6), gwei(1, 1, 2, 9)],
+    });
+
+    const { isEip1559, baseFeePerGas, levels } = await gasService.getFeeEstimate(1);
+
+    expect(isEip1559).toBe(true);
+    expect(baseFeePerGas).toBe(BigInt(12) * GWEI);
+    expect(levels.slow.maxPriorityFeePerGas).toBe(BigInt(1) * GWEI);
+    expect(levels.standard.maxPriorityFeePerGas).toBe(BigInt(2) * GWEI);
+    expect(levels.fast.maxPriorityFeePerGas).toBe(BigInt(3) * GWEI);
+    expect(levels.instant.maxPriorityFeePerGas).toBe(BigInt(6) * GWEI);
+  });
+
+  it('leaves base fee headroom by speed but expects to pay only the base fee', async () => {
+    mockClient({ baseFeePerGas: gwei(12), reward: [gwei(1, 2, 3, 6)] });
+
+    const { levels } = await gasService.getFeeEstimate(1);
+
+    // 12 base + 12 × multiplier headroom + tip
+    expect(levels.slow.maxFeePerGas).toBe(BigInt(25) * GWEI);
+    expect(levels.standard.maxFeePerGas).toBe(BigInt(29) * GWEI);
+    expect(levels.fast.maxFeePerGas).toBe(BigInt(33) * GWEI);
+    expect(levels.instant.maxFeePerGas).toBe(BigInt(42) * GWEI);
+    expect(levels.fast.expectedFeePerGas).toBe(BigInt(15) * GWEI);
+  });
+
+  it('never tips less at a faster speed', async () => {
+    mockClient({ baseFeePerGas: gwei(12), reward: [gwei(1, 5, 2, 3)] });
+
+    const { levels } = await gasService.getFeeEstimate(1);
+
+    expect(levels.fast.maxPriorityFeePerGas).toBe(BigInt(5) * GWEI);
+    expect(levels.instant.maxPriorityFeePerGas).toBe(BigInt(5) * GWEI);
+  });
+
+  it('treats missing reward percentiles as no tip', async () => {
+    mockClient({ baseFeePerGas: gwei(12), reward: [gwei(1, 2)] });
+
+    const { levels } = await gasService.getFeeEstimate(1);
+
+    expect(levels.fast.maxPriorityFeePerGas).toBe(BigInt(2) * GWEI);
+    expect(levels.instant.maxPriorityFeePerGas).toBe(BigInt(2) * GWEI);
+  });
+
+  it('falls back to the legacy gas price without fee history', async () => {
+    mockClient(null);
+
+    const { isEip1559, baseFeePerGas, levels } = await gasService.getFeeEstimate(1);
+
+    expect(isEip1559).toBe(false);
+    expect(baseFeePerGas).toBe(BigInt(0));
+    expect(levels.slow.maxFeePerGas).toBe(BigInt(20) * GWEI);
+    expect(levels.standard.maxFeePerGas).toBe(BigInt(25) * GWEI);
+    expect(levels.instant.expectedFeePerGas).toBe(BigInt(40) * GWEI);
+  });
+
+  it('falls back to the legacy gas price without a base fee', async () => {
+    const client = mockClient({ baseFeePerGas: gwei(0), reward: [gwei(1, 2, 3, 4)] });
+
+    const { isEip1559 } = await gasService.getFeeEstimate(1);
+
+    expect(isEip1559).toBe(false);
+    expect(client.getGasPrice).toHaveBeenCalled();
+  });
+
+  it('reuses an estimate within a block', async () => {
+    const client = mockClient({ baseFeePerGas: gwei(12), reward: [gwei(1, 2, 3, 4)] });
+
+    await gasService.getFeeEstimate(1);
+    await gasService.getFeeEstimate(1);
+
+    expect(client.getFeeHistory).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('getTransactionFees', () => {
+  it('sends EIP-1559 fields where the chain supports them', async () => {
+    mockClient({ baseFeePerGas: gwei(12), reward: [gwei(1, 2, 3, 4)] });
+
+    expect(await gasService.getTransactionFees(1, 'standard')).toEqual({
+      maxFeePerGas: BigInt(29) * GWEI,
+      maxPriorityFeePerGas: BigInt(2) * GWEI,
+    });
+  });
+
+  it('sends a gas price elsewhere', async () => {
+    mockClient({ baseFeePerGas: gwei(0) });
+
+    expect(await gasService.getTransactionFees(1, 'fast')).toEqual({ gasPrice: BigInt(30) * GWEI });
+  });
+});
+
+describe('projectCosts', () => {
+  it('costs the gas at each speed in the native currency and USD', async () => {
+    mockClient({ baseFeePerGas: gwei(12), reward: [gwei(1, 2, 3, 6)] });
+    const estimate = await gasService.getFeeEstimate(1);
+
+    const [slow] = gasService.projectCosts(estimate, '100000');
+
+    // 100k gas at 13 gwei expected, 25 gwei max
+    expect(slow).toMatchObject({ speed: 'slow', expectedCost: '0.0013', maxCost: '0.0025' });
+    expect(slow?.expectedCostUSD).toBeCloseTo(2.6);
+    expect(slow?.maxCostUSD).toBeCloseTo(5);
+  });
+
+  it('leaves USD costs out without a native price', async () => {
+    mockGetTokenPrice.mockRejectedValue(new Error('rate limited'));
+    mockClient({ baseFeePerGas: gwei(12), reward: [gwei(1, 2, 3, 6)] });
+    const estimate = await gasService.getFeeEstimate(1);
+
+    expect(estimate.nativePriceUSD).toBeNull();
+    expect(gasService.projectCosts(estimate, '100000')[0]?.expectedCostUSD).toBeNull();
+  });
+});
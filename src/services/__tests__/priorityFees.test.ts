@@ -0,0 +1,125 @@
+import { Connection, Keypair, PublicKey } from '@solana/web3.js';
+import { APP_CONFIG } from '@/lib/constants';
+import { priorityFeeService } from '../priorityFees';
+
+// Fees come from a stubbed connection; keep the EVM stacks behind the gas service out
+const mockGetTokenPrice = jest.fn();
+jest.mock('../portfolio', () => ({ portfolioService: {} }));
+jest.mock('../pricing', () => ({
+  pricingService: { getTokenPrice: (symbol: string): unknown => mockGetTokenPrice(symbol) },
+}));
+jest.mock('@/lib/wagmi', () => ({
+  GAS_PRICE_LEVELS: { SLOW: 1, STANDARD: 1.25, FAST: 1.5, INSTANT: 2 },
+  NATIVE_CURRENCY: {},
+}));
+
+const ACCOUNTS = [Keypair.generate().publicKey, Keypair.generate().publicKey];
+const COMPUTE_UNITS = 200000;
+
+function mockConnection(prices: number[]) {
+  const getRecentPrioritizationFees = jest.fn().mockResolvedValue(
+    prices.map((prioritizationFee, slot) => ({ slot, prioritizationFee }))
+  );
+  return { connection: { getRecentPrioritizationFees } as unknown as Connection, getRecentPrioritizationFees };
+}
+
+// 1,000 to 20,000 micro-lamports per compute unit, out of order
+const PRICES = Array.from({ length: 20 }, (_, index) => ((index * 7) % 20 + 1) * 1000);
+
+beforeEach(() => {
+  priorityFeeService.clearCache();
+  mockGetTokenPrice.mockResolvedValue({ price: 150 });
+});
+
+describe('getFeeEstimate', () => {
+  it('bids each speed at its percentile of recent prices', async () => {
+    const { connection } = mockConnection(PRICES);
+
+    const { levels } = await priorityFeeService.getFeeEstimate(ACCOUNTS, connection, { computeUnits: COMPUTE_UNITS });
+
+    expect(levels.slow.microLamportsPerComputeUnit).toBe(3000);
+    expect(levels.standard.microLamportsPerComputeUnit).toBe(11000);
+    expect(levels.fast.microLamportsPerComputeUnit).toBe(16000);
+    expect(levels.instant.microLamportsPerComputeUnit).toBe(20000);
+  });
+
+  it('totals the fee for the compute units, rounding up to a lamport', async () => {
+    const { connection } = mockConnection(PRICES);
+
+    const { levels } = await priorityFeeService.getFeeEstimate(ACCOUNTS, connection, { computeUnits: COMPUTE_UNITS });
+
+    // 11,000 micro-lamports × 200,000 units
+    expect(levels.standard).toMatchObject({ lamports: 2200, fee: '0.0000022', isCapped: false });
+    expect(levels.standard.feeUSD).toBeCloseTo(0.00033);
+
+    const { connection: quiet } = mockConnection([1]);
+    const { levels: quietLevels } = await priorityFeeService.getFeeEstimate([Keypair.generate().publicKey], quiet, {
+      computeUnits: COMPUTE_UNITS,
+    });
+
+    // 1 micro-lamport × 200,000 units is a fifth of a lamport
+    expect(quietLevels.slow.lamports).toBe(1);
+  });
+
+  it('caps each level at the max fee and flags the ones it cut', async () => {
+    const { connection } = mockConnection(PRICES);
+
+    const { levels } = await priorityFeeService.getFeeEstimate(ACCOUNTS, connection, {
+      computeUnits: COMPUTE_UNITS,
+      maxFeeLamports: 3000,
+    });
+
+    expect(levels.standard).toMatchObject({ lamports: 2200, isCapped: false });
+    expect(levels.fast).toMatchObject({ lamports: 3000, isCapped: true, microLamportsPerComputeUnit: 16000 });
+    expect(levels.instant).toMatchObject({ lamports: 3000, isCapped: true });
+  });
+
+  it('does not flag a fee that lands exactly on the cap', async () => {
+    const { connection } = mockConnection(PRICES);
+
+    const { levels } = await priorityFeeService.getFeeEstimate(ACCOUNTS, connection, {
+      computeUnits: COMPUTE_UNITS,
+      maxFeeLamports: 4000,
+    });
+
+    expect(levels.instant).toMatchObject({ lamports: 4000, isCapped: false });
+  });
+
+  it('falls back to the default compute units and cap', async () => {
+    const { connection } = mockConnection([100000000]);
+
+    const { computeUnits, levels } = await priorityFeeService.getFeeEstimate(ACCOUNTS, connection);
+
+    expect(computeUnits).toBe(APP_CONFIG.SOLANA.SWAP_COMPUTE_UNITS);
+    expect(levels.slow).toMatchObject({ lamports: APP_CONFIG.SOLANA.DEFAULT_MAX_PRIORITY_FEE_LAMPORTS, isCapped: true });
+  });
+
+  it('bids nothing when recent slots paid nothing', async () => {
+    const { connection } = mockConnection([]);
+
+    const { levels } = await priorityFeeService.getFeeEstimate(ACCOUNTS, connection, { computeUnits: COMPUTE_UNITS });
+
+    expect(levels.instant).toMatchObject({ microLamportsPerComputeUnit: 0, lamports: 0, isCapped: false });
+  });
+
+  it('asks about at most 128 accounts and reuses recent prices', async () => {
+    const accounts: PublicKey[] = Array.from({ length: 130 }, () => Keypair.generate().publicKey);
+    const { connection, getRecentPrioritizationFees } = mockConnection(PRICES);
+
+    await priorityFeeService.getFeeEstimate(accounts, connection);
+    await priorityFeeService.getFeeEstimate(accounts, connection);
+
+    expect(getRecentPrioritizationFees).toHaveBeenCalledTimes(1);
+    expect(getRecentPrioritizationFees).toHaveBeenCalledWith({ lockedWritableAccounts: accounts.slice(0, 128) });
+  });
+
+  it('leaves USD fees out without a SOL price', async () => {
+    mockGetTokenPrice.mockRejectedValue(new Error('rate limited'));
+    const { connection } = mockConnection(PRICES);
+
+    const { solPriceUSD, levels } = await priorityFeeService.getFeeEstimate(ACCOUNTS, connection);
+
+    expect(solPriceUSD).toBeNull();
+    expect(levels.fast.feeUSD).toBeNull();
+  });
+});
@@ -0,0 +1,273 @@
+import { Address, encodeAbiParameters, encodeEventTopics, getAddress, parseAbi } from 'viem';
+import { Token, Trade } from '@/types';
+import { receiptService } from '../receipts';
+import { DAI, USDC, WETH } from '@/utils/__tests__/fixtures';
+
+// Receipts come from a stubbed RPC client; keep the wallet stacks out
+const mockGetPublicClient = jest.fn();
+jest.mock('../portfolio', () => ({
+  portfolioService: { getPublicClient: (chainId: number): unknown => mockGetPublicClient(chainId) },
+}));
+jest.mock('../wrap', () => ({ wrapService: {} }));
+
+const ABI = parseAbi([
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'event Deposit(address indexed dst, uint256 wad)',
+  'event Withdrawal(address indexed src, uint256 wad)',
+  'event Swap(address indexed sender, uint256 amount)',
+]);
+
+const ACCOUNT = getAddress('0xabcdef1111111111111111111111111111111111');
+const ROUTER = '0x2222222222222222222222222222222222222222' as Address;
+const POOL = '0x3333333333333333333333333333333333333333' as Address;
+const HASH = `0x${'ab'.repeat(32)}` as const;
+
+const ETH: Token = {
+  id: 'ethereum',
+  address: '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE' as Address,
+  symbol: 'ETH',
+  name: 'Ethereum',
+  decimals: 18,
+};
+
+const GAS_USED = BigInt(150000);
+const GAS_PRICE = BigInt(20000000000); // 20 gwei
+const GAS_FEE = GAS_USED * GAS_PRICE;
+const BLOCK = BigInt(19000000);
+
+function units(amount: string, decimals: number): bigint {
+  const [whole = '0', fraction = ''] = amount.split('.');
+  return BigInt(whole + fraction.padEnd(decimals, '0'));
+}
+
+function uint(value: bigint) {
+  return encodeAbiParameters([{ type: 'uint256' }], [value]);
+}
+
+function transfer(token: Token, from: Address, to: Address, value: bigint) {
+  return {
+    address: token.address,
+    topics: encodeEventTopics({ abi: ABI, eventName: 'Transfer', args: { from, to } }),
+    data: uint(value),
+  };
+}
+
+function deposit(token: Token, dst: Address, wad: bigint) {
+  return {
+    address: token.address,
+    topics: encodeEventTopics({ abi: ABI, eventName: 'Deposit', args: { dst } }),
+    data: uint(wad),
+  };
+}
+
+function withdrawal(token: Token, src: Address, wad: bigint) {
+  return {
+    address: token.address,
+    topics: encodeEventTopics({ abi: ABI, eventName: 'Withdrawal', args: { src } }),
+    data: uint(wad),
+  };
+}
+
+function mockClient(logs: unknown[], balances: { before: bigint; after: bigint } = { before: BigInt(0), after: BigInt(0) }, status = 'success') {
+  const client = {
+    getTransactionReceipt: jest.fn().mockResolvedValue({
+      status,
+      logs,
+      gasUsed: GAS_USED,
+      effectiveGasPrice: GAS_PRICE,
+      blockNumber: BLOCK,
+    }),
+    getBalance: jest.fn(({ blockNumber }: { blockNumber: bigint }) =>
+      Promise.resolve(blockNumber === BLOCK ? balances.after : balances.before)
+    ),
+  };
+  mockGetPublicClient.mockReturnValue(client);
+  return client;
+}
+
+function makeTrade(overrides: Partial<Trade> = {}): Trade {
+  return {
+    id: 'trade_1',
+    userId: ACCOUNT,
+    type: 'swap',
+    fromToken: WETH,
+    toToken: USDC,
+    fromAmount: '1',
+    toAmount: '2000',
+    price: 2000,
+    gasUsed: '0',
+    gasFee: '0',
+    txHash: HASH,
+    status: 'confirmed',
+    timestamp: new Date('2026-01-10T12:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('getEvmSwapExecution', () => {
+  it('reads token amounts from the account\'s transfers', async () => {
+    mockClient([
+      transfer(USDC, ACCOUNT, ROUTER, units('2000', 6)),
+      transfer(USDC, ROUTER, POOL, units('2000', 6)),
+      transfer(DAI, POOL, ACCOUNT, units('1999.5', 18)),
+    ]);
+
+    const execution = await receiptService.getEvmSwapExecution(HASH, 1, ACCOUNT, USDC, DAI);
+
+    expect(execution).toEqual({
+      fromAmount: '2000',
+      toAmount: '1999.5',
+      gasUsed: '150000',
+      gasFee: '0.003',
+      blockNumber: 19000000,
+    });
+  });
+
+  it('nets split fills and refunds, and skips other events', async () => {
+    mockClient([
+      transfer(USDC, ACCOUNT, ROUTER, units('2000', 6)),
+      transfer(DAI, POOL, ACCOUNT, units('1200', 18)),
+      transfer(DAI, ROUTER, ACCOUNT, units('700', 18)),
+      transfer(USDC, ROUTER, ACCOUNT, units('100', 6)),
+      {
+        address: POOL,
+        topics: encodeEventTopics({ abi: ABI, eventName: 'Swap', args: { sender: ROUTER } }),
+        data: uint(BigInt(1)),
+      },
+    ]);
+
+    const execution = await receiptService.getEvmSwapExecution(HASH, 1, ACCOUNT, USDC, DAI);
+
+    expect(execution.fromAmount).toBe('1900');
+    expect(execution.toAmount).toBe('1900');
+  });
+
+  it('matches token and account addresses in any case', async () => {
+    const account = ACCOUNT.toLowerCase() as Address;
+    mockClient([
+      transfer({ ...USDC, address: USDC.address.toLowerCase() as Address }, account, ROUTER, units('50', 6)),
+      transfer(DAI, POOL, account, units('49', 18)),
+    ]);
+
+    const execution = await receiptService.getEvmSwapExecution(HASH, 1, ACCOUNT, USDC, DAI);
+
+    expect(execution.fromAmount).toBe('50');
+    expect(execution.toAmount).toBe('49');
+  });
+
+  it('counts native currency sent from the balance change, adding back gas', async () => {
+    const before = units('10', 18);
+    const client = mockClient(
+      [
+        deposit(WETH, ROUTER, units('1', 18)),
+        transfer(USDC, POOL, ACCOUNT, units('1995', 6)),
+      ],
+      { before, after: before - units('1', 18) - GAS_FEE }
+    );
+
+    const execution = await receiptService.getEvmSwapExecution(HASH, 1, ACCOUNT, ETH, USDC);
+
+    expect(execution.fromAmount).toBe('1');
+    expect(execution.toAmount).toBe('1995');
+    expect(client.getBalance).toHaveBeenCalledWith({ address: ACCOUNT, blockNumber: BLOCK - BigInt(1) });
+  });
+
+  it('reads WETH unwrapped to ETH through a router', async () => {
+    const before = units('2', 18);
+    mockClient(
+      [
+        transfer(WETH, ACCOUNT, ROUTER, units('1.5', 18)),
+        withdrawal(WETH, ROUTER, units('1.5', 18)),
+      ],
+      { before, after: before + units('1.5', 18) - GAS_FEE }
+    );
+
+    const execution = await receiptService.getEvmSwapExecution(HASH, 1, ACCOUNT, WETH, ETH);
+
+    expect(execution.fromAmount).toBe('1.5');
+    expect(execution.toAmount).toBe('1.5');
+  });
+
+  it('reads the account\'s own Deposit and Withdrawal events', async () => {
+    const before = units('2', 18);
+    mockClient([deposit(WETH, ACCOUNT, units('0.5', 18))], { before, after: before - units('0.5', 18) - GAS_FEE });
+    expect((await receiptService.getEvmSwapExecution(HASH, 1, ACCOUNT, ETH, WETH)).toAmount).toBe('0.5');
+
+    mockClient([withdrawal(WETH, ACCOUNT, units('0.5', 18))], { before, after: before + units('0.5', 18) - GAS_FEE });
+    expect((await receiptService.getEvmSwapExecution(HASH, 1, ACCOUNT, WETH, ETH)).fromAmount).toBe('0.5');
+  });
+
+  it('only reads balances when native currency is involved', async () => {
+    const client = mockClient([
+      transfer(USDC, ACCOUNT, ROUTER, units('10', 6)),
+      transfer(DAI, POOL, ACCOUNT, units('10', 18)),
+    ]);
+
+    await receiptService.getEvmSwapExecution(HASH, 1, ACCOUNT, USDC, DAI);
+
+    expect(client.getBalance).not.toHaveBeenCalled();
+  });
+
+  it('rejects a reverted swap or one that moved nothing', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    mockClient([transfer(USDC, ACCOUNT, ROUTER, units('10', 6))], undefined, 'reverted');
+    await expect(receiptService.getEvmSwapExecution(HASH, 1, ACCOUNT, USDC, DAI))
+      .rejects.toThrow('Unable to read executed swap amounts');
+
+    mockClient([transfer(USDC, ACCOUNT, ROUTER, units('10', 6))]);
+    await expect(receiptService.getEvmSwapExecution(HASH, 1, ACCOUNT, USDC, DAI))
+      .rejects.toThrow('Unable to read executed swap amounts');
+
+    consoleError.mockRestore();
+  });
+});
+
+describe('getTradeUpdates', () => {
+  const execution = { gasUsed: '150000', gasFee: '0.003', blockNumber: 19000000 };
+
+  it('replaces the quote with what executed and measures slippage', () => {
+    const updates = receiptService.getTradeUpdates(makeTrade(), {
+      ...execution,
+      fromAmount: '1',
+      toAmount: '1990',
+    });
+
+    expect(updates).toMatchObject({
+      fromAmount: '1',
+      toAmount: '1990',
+      price: 1990,
+      quotedToAmount: '2000',
+      quotedPrice: 2000,
+      gasFee: '0.003',
+      blockNumber: 19000000,
+    });
+    expect(updates.realizedSlippage).toBeCloseTo(0.5);
+  });
+
+  it('reports a fill better than the quote as negative slippage', () => {
+    const updates = receiptService.getTradeUpdates(makeTrade(), { ...execution, fromAmount: '1', toAmount: '2010' });
+    expect(updates.realizedSlippage).toBeCloseTo(-0.5);
+  });
+
+  it('measures an exact-out swap by the extra input it took', () => {
+    // Received exactly the 2000 USDC asked for, paying 1.004 WETH instead of 1
+    const updates = receiptService.getTradeUpdates(makeTrade(), { ...execution, fromAmount: '1.004', toAmount: '2000' });
+
+    expect(updates.price).toBeCloseTo(1992.03, 2);
+    expect(updates.realizedSlippage).toBeCloseTo(0.398, 2);
+  });
+
+  it('leaves slippage at zero without a quoted price', () => {
+    const updates = receiptService.getTradeUpdates(makeTrade({ price: 0 }), { ...execution, fromAmount: '1', toAmount: '2000' });
+    expect(updates.realizedSlippage).toBe(0);
+  });
+
+  it('keeps no quoted output for trades that had none', () => {
+    const trade = makeTrade();
+    delete trade.toAmount;
+
+    expect(receiptService.getTradeUpdates(trade, { ...execution, fromAmount: '1', toAmount: '2000' }))
+      .not.toHaveProperty('quotedToAmount');
+  });
+});
@@ -0,0 +1,211 @@
+import { AccountInfo, Connection, Keypair, PublicKey } from '@solana/web3.js';
+import {
+  ACCOUNT_SIZE,
+  AccountType,
+  ExtensionType,
+  MINT_SIZE,
+  MintLayout,
+  PermanentDelegateLayout,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  TransferFeeConfigLayout,
+  TransferHookLayout,
+} from '@solana/spl-token';
+import { Address } from 'viem';
+import { Token } from '@/types';
+import { tokenSafetyService } from '../tokenSafety';
+
+interface MintFixture {
+  mintAuthority?: PublicKey;
+  freezeAuthority?: PublicKey;
+  supply?: bigint;
+  transferFeeBps?: [number, number]; // Older, newer
+  transferHookProgram?: PublicKey;
+  permanentDelegate?: PublicKey;
+}
+
+const ISSUER = Keypair.generate().publicKey;
+
+function encode<T>(layout: { span: number; encode(value: T, buffer: Buffer): number }, value: T): Buffer {
+  const buffer = Buffer.alloc(layout.span);
+  layout.encode(value, buffer);
+  return buffer;
+}
+
+function transferFee(transferFeeBasisPoints: number) {
+  return { epoch: BigInt(0), maximumFee: BigInt(1000000), transferFeeBasisPoints };
+}
+
+// Mint account data, with Token-2022 extensions as TLV entries after the account type
+function mintData(fixture: MintFixture): Buffer {
+  const base = encode(MintLayout, {
+    mintAuthorityOption: fixture.mintAuthority ? 1 : 0,
+    mintAuthority: fixture.mintAuthority ?? PublicKey.default,
+    supply: fixture.supply ?? BigInt(1000000),
+    decimals: 6,
+    isInitialized: true,
+    freezeAuthorityOption: fixture.freezeAuthority ? 1 : 0,
+    freezeAuthority: fixture.freezeAuthority ?? PublicKey.default,
+  });
+
+  const extensions: [ExtensionType, Buffer][] = [];
+  if (fixture.transferFeeBps) {
+    const [older, newer] = fixture.transferFeeBps;
+    extensions.push([ExtensionType.TransferFeeConfig, encode(TransferFeeConfigLayout, {
+      transferFeeConfigAuthority: ISSUER,
+      withdrawWithheldAuthority: ISSUER,
+      withheldAmount: BigInt(0),
+      olderTransferFee: transferFee(older),
+      newerTransferFee: transferFee(newer),
+    })]);
+  }
+  if (fixture.transferHookProgram) {
+    extensions.push([ExtensionType.TransferHook, encode(TransferHookLayout, {
+      authority: ISSUER,
+      programId: fixture.transferHookProgram,
+    })]);
+  }
+  if (fixture.permanentDelegate) {
+    extensions.push([ExtensionType.PermanentDelegate, encode(PermanentDelegateLayout, {
+      delegate: fixture.permanentDelegate,
+    })]);
+  }
+  if (extensions.length === 0) return base;
+
+  const entries = extensions.map(([type, data]) => {
+    const header = Buffer.alloc(4);
+    header.writeUInt16LE(type, 0);
+    header.writeUInt16LE(data.length, 2);
+    return Buffer.concat([header, data]);
+  });
+  return Buffer.concat([base, Buffer.alloc(ACCOUNT_SIZE - MINT_SIZE), Buffer.from([AccountType.Mint]), ...entries]);
+}
+
+function makeToken(overrides: Partial<Token> = {}): Token {
+  return {
+    id: 'mint',
+    address: Keypair.generate().publicKey.toBase58() as Address,
+    symbol: 'MINT',
+    name: 'Mint',
+    decimals: 6,
+    ...overrides,
+  };
+}
+
+function mockConnection(mints: Map<string, AccountInfo<Buffer>>, largestAccounts: string[] = []) {
+  const connection = {
+    getMultipleAccountsInfo: jest.fn((keys: PublicKey[]) =>
+      Promise.resolve(keys.map(key => mints.get(key.toBase58()) ?? null))
+    ),
+    getTokenLargestAccounts: jest.fn().mockResolvedValue({ value: largestAccounts.map(amount => ({ amount })) }),
+  };
+  return connection as unknown as Connection;
+}
+
+async function assess(fixture: MintFixture, token: Token = makeToken(), largestAccounts?: string[]) {
+  const owner = fixture.transferFeeBps || fixture.transferHookProgram || fixture.permanentDelegate
+    ? TOKEN_2022_PROGRAM_ID
+    : TOKEN_PROGRAM_ID;
+  const account = { data: mintData(fixture), owner, lamports: 1, executable: false };
+  const connection = mockConnection(new Map([[token.address, account]]), largestAccounts);
+
+  const results = await tokenSafetyService.getTokenSafety([token], connection, { includeHolders: !!largestAccounts });
+  const safety = results.get(token.address);
+  if (!safety) throw new Error('No safety result');
+  return safety;
+}
+
+function severities(safety: { warnings: { check: string; severity: string }[] }) {
+  return Object.fromEntries(safety.warnings.map(warning => [warning.check, warning.severity]));
+}
+
+beforeEach(() => {
+  tokenSafetyService.clearCache();
+});
+
+describe('getTokenSafety', () => {
+  it('only flags a renounced mint for being unverified', async () => {
+    const safety = await assess({});
+
+    expect(severities(safety)).toEqual({ unverified: 'medium' });
+    expect(safety.riskLevel).toBe('medium');
+    expect(safety).toMatchObject({ mintAuthority: null, freezeAuthority: null, isToken2022: false });
+  });
+
+  it('rates the issuer\'s authorities by whether the token is verified', async () => {
+    const fixture = { mintAuthority: ISSUER, freezeAuthority: ISSUER };
+
+    const unverified = await assess(fixture);
+    expect(severities(unverified)).toEqual({ mint_authority: 'medium', freeze_authority: 'high', unverified: 'medium' });
+    expect(unverified.riskLevel).toBe('high');
+
+    const verified = await assess(fixture, makeToken({ isVerified: true }));
+    expect(severities(verified)).toEqual({ mint_authority: 'low', freeze_authority: 'low' });
+    expect(verified.riskLevel).toBe('low');
+    expect(verified.mintAuthority).toBe(ISSUER.toBase58());
+  });
+
+  it('rates a transfer fee by the larger of its scheduled rates', async () => {
+    const modest = await assess({ transferFeeBps: [100, 0] }, makeToken({ isVerified: true }));
+    expect(modest).toMatchObject({ isToken2022: true, transferFeeBps: 100, riskLevel: 'medium' });
+
+    const steep = await assess({ transferFeeBps: [100, 500] }, makeToken({ isVerified: true }));
+    expect(steep).toMatchObject({ transferFeeBps: 500, riskLevel: 'high' });
+    expect(steep.warnings[0]?.message).toContain('5%');
+  });
+
+  it('rates transfer hooks and permanent delegates lower on verified tokens', async () => {
+    const hook = Keypair.generate().publicKey;
+    const delegate = Keypair.generate().publicKey;
+
+    const verified = await assess({ transferHookProgram: hook, permanentDelegate: delegate }, makeToken({ isVerified: true }));
+    expect(severities(verified)).toEqual({ transfer_hook: 'medium', permanent_delegate: 'medium' });
+    expect(verified).toMatchObject({
+      transferHookProgram: hook.toBase58(),
+      permanentDelegate: delegate.toBase58(),
+      riskLevel: 'medium',
+    });
+
+    const unverified = await assess({ permanentDelegate: delegate });
+    expect(severities(unverified)).toEqual({ permanent_delegate: 'high', unverified: 'medium' });
+    expect(unverified.riskLevel).toBe('high');
+  });
+
+  it('ignores extensions left at the default address', async () => {
+    const safety = await assess(
+      { transferHookProgram: PublicKey.default, permanentDelegate: PublicKey.default },
+      makeToken({ isVerified: true })
+    );
+
+    expect(safety.warnings).toEqual([]);
+    expect(safety).toMatchObject({ isToken2022: true, transferHookProgram: null, permanentDelegate: null, riskLevel: 'low' });
+  });
+
+  it('rates holder concentration by share unless verified', async () => {
+    const supply = { supply: BigInt(1000000) };
+
+    const spread = await assess(supply, makeToken(), ['300000', '100000']);
+    expect(spread.topHoldersShare).toBe(40);
+    expect(severities(spread)).toEqual({ unverified: 'medium' });
+
+    const concentrated = await assess(supply, makeToken(), ['600000']);
+    expect(severities(concentrated)).toEqual({ holder_concentration: 'medium', unverified: 'medium' });
+
+    const cornered = await assess(supply, makeToken(), ['500000', '350000']);
+    expect(cornered.topHoldersShare).toBe(85);
+    expect(cornered.riskLevel).toBe('high');
+
+    const verified = await assess(supply, makeToken({ isVerified: true }), ['900000']);
+    expect(severities(verified)).toEqual({ holder_concentration: 'low' });
+  });
+
+  it('leaves out tokens that aren\'t mints', async () => {
+    const token = makeToken();
+    const account = { data: Buffer.alloc(0), owner: Keypair.generate().publicKey, lamports: 1, executable: false };
+    const connection = mockConnection(new Map([[token.address, account]]));
+
+    const results = await tokenSafetyService.getTokenSafety([token, makeToken()], connection);
+
+    expect(results.size).toBe(0);
+  });
+});
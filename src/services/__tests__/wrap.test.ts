@@ -0,0 +1,133 @@
+import { Address, decodeFunctionData, parseAbi } from 'viem';
+import { Token } from '@/types';
+import { WRAP_AGGREGATOR, WRAPPED_SOL_TOKEN, wrapService } from '../wrap';
+import { USDC, WETH } from '@/utils/__tests__/fixtures';
+
+// Only the chain tables are needed, not the wallet connectors behind them
+jest.mock('@/lib/wagmi', () => ({
+  GAS_LIMITS: { WRAP: 50000, UNWRAP: 40000 },
+  NATIVE_CURRENCY: { 137: { name: 'Polygon', symbol: 'MATIC', decimals: 18 } },
+  TOKEN_CONTRACTS: { 137: { WMATIC: '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270' } },
+}));
+
+const ETH: Token = {
+  id: 'ethereum',
+  address: '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE' as Address,
+  symbol: 'ETH',
+  name: 'Ethereum',
+  decimals: 18,
+};
+
+const MATIC: Token = {
+  id: 'matic-network',
+  address: '0x0000000000000000000000000000000000000000' as Address,
+  symbol: 'MATIC',
+  name: 'Polygon',
+  decimals: 18,
+};
+
+const WMATIC: Token = {
+  id: 'wmatic',
+  address: '0x0d500b1d8e8ef31e21c99d1db9a6444d3adf1270' as Address,
+  symbol: 'WMATIC',
+  name: 'Wrapped Matic',
+  decimals: 18,
+};
+
+// Jupiter lists native SOL under the wrapped mint
+const SOL: Token = {
+  id: 'solana',
+  address: WRAPPED_SOL_TOKEN.address,
+  symbol: 'SOL',
+  name: 'Solana',
+  decimals: 9,
+};
+
+const WRAPPED_NATIVE_ABI = parseAbi([
+  'function deposit() payable',
+  'function withdraw(uint256 amount)',
+]);
+
+describe('getWrapDirection', () => {
+  it('recognises wrapping and unwrapping ETH', () => {
+    expect(wrapService.getWrapDirection(ETH, WETH, 1)).toBe('wrap');
+    expect(wrapService.getWrapDirection(WETH, ETH, 1)).toBe('unwrap');
+  });
+
+  it('finds the wrapped native token from the chain tables', () => {
+    expect(wrapService.getWrapDirection(MATIC, WMATIC, 137)).toBe('wrap');
+    expect(wrapService.getWrapDirection(WMATIC, MATIC, 137)).toBe('unwrap');
+  });
+
+  it('ignores other pairs and unknown chains', () => {
+    expect(wrapService.getWrapDirection(WETH, USDC, 1)).toBeNull();
+    expect(wrapService.getWrapDirection(ETH, USDC, 1)).toBeNull();
+    expect(wrapService.getWrapDirection(MATIC, WMATIC, 999)).toBeNull();
+  });
+
+  it('tells SOL from wSOL on Solana, although they share a mint', () => {
+    expect(wrapService.getWrapDirection(SOL, WRAPPED_SOL_TOKEN)).toBe('wrap');
+    expect(wrapService.getWrapDirection(WRAPPED_SOL_TOKEN, SOL)).toBe('unwrap');
+    expect(wrapService.getWrapDirection(SOL, SOL)).toBeNull();
+  });
+});
+
+describe('getWrapQuote', () => {
+  it('quotes 1:1 with no slippage or impact', () => {
+    const quote = wrapService.getWrapQuote(ETH, WETH, '1.5', 'ExactOut', 1);
+
+    expect(quote).toMatchObject({
+      fromAmount: '1.5',
+      toAmount: '1.5',
+      price: 1,
+      priceImpact: 0,
+      slippage: 0,
+      swapMode: 'ExactOut',
+      aggregator: WRAP_AGGREGATOR,
+      gasEstimate: '50000',
+      chainId: 1,
+    });
+    expect(quote && wrapService.isWrapQuote(quote)).toBe(true);
+  });
+
+  it('uses the unwrap gas limit when unwrapping', () => {
+    expect(wrapService.getWrapQuote(WETH, ETH, '1', 'ExactIn', 1)?.gasEstimate).toBe('40000');
+  });
+
+  it('leaves gas and the chain out on Solana', () => {
+    const quote = wrapService.getWrapQuote(SOL, WRAPPED_SOL_TOKEN, '1');
+
+    expect(quote?.gasEstimate).toBe('0');
+    expect(quote).not.toHaveProperty('chainId');
+  });
+
+  it('returns null for a pair that is not a wrap', () => {
+    expect(wrapService.getWrapQuote(WETH, USDC, '1', 'ExactIn', 1)).toBeNull();
+  });
+});
+
+describe('buildEvmTransaction', () => {
+  it('deposits the amount as value when wrapping', () => {
+    const quote = wrapService.getWrapQuote(ETH, WETH, '1.5', 'ExactIn', 1);
+    const transaction = wrapService.buildEvmTransaction(quote!);
+
+    expect(transaction.to).toBe(WETH.address);
+    expect(transaction.value).toBe(BigInt('1500000000000000000'));
+    expect(decodeFunctionData({ abi: WRAPPED_NATIVE_ABI, data: transaction.data }).functionName).toBe('deposit');
+  });
+
+  it('withdraws the amount without value when unwrapping', () => {
+    const quote = wrapService.getWrapQuote(WETH, ETH, '0.25', 'ExactIn', 1);
+    const transaction = wrapService.buildEvmTransaction(quote!);
+    const call = decodeFunctionData({ abi: WRAPPED_NATIVE_ABI, data: transaction.data });
+
+    expect(transaction.value).toBe(BigInt(0));
+    expect(call.functionName).toBe('withdraw');
+    expect(call.args).toEqual([BigInt('250000000000000000')]);
+  });
+
+  it('rejects quotes that are not EVM wraps', () => {
+    const solana = wrapService.getWrapQuote(SOL, WRAPPED_SOL_TOKEN, '1');
+    expect(() => wrapService.buildEvmTransaction(solana!)).toThrow('Quote is not an EVM wrap or unwrap');
+  });
+});
@@ -0,0 +1,336 @@
+import { Address, Hash, Log, PublicClient, getAddress, maxUint256, parseAbi, parseAbiItem } from 'viem';
+import { Token, TokenApproval } from '@/types';
+import { portfolioService } from './portfolio';
+import { pricingService } from './pricing';
+import { dexService } from './dex';
+import { DEX_ROUTERS, PERMIT2_ADDRESS, TOKEN_CONTRACTS } from '@/lib/wagmi';
+import { APP_CONFIG, POPULAR_TOKENS } from '@/lib/constants';
+import { formatAmount, parseAmount, toNumber } from '@/utils/amount';
+import { resolveRouteToken } from '@/utils/route';
+import { logger } from '@/utils/logger';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const APPROVAL_EVENT = parseAbiItem('event Approval(address indexed owner, address indexed spender, uint256 value)');
+
+const ERC20_ABI = parseAbi([
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function balanceOf(address owner) view returns (uint256)',
+  'function decimals() view returns (uint8)',
+  'function symbol() view returns (string)',
+  'function name() view returns (string)',
+]);
+
+// Wallets and tokens (UNI, COMP among them) treat a uint96 max as unlimited
+const UNLIMITED_THRESHOLD = BigInt('0xffffffffffffffffffffffff');
+
+// Display names for the DEX_ROUTERS keys
+const SPENDER_LABELS: Record<string, string> = {
+  ONEINCH: '1inch Router',
+  ZEROEX: '0x Exchange Proxy',
+  PARASWAP: 'ParaSwap Router',
+  PARASWAP_PROXY: 'ParaSwap Token Proxy',
+  OPENOCEAN: 'OpenOcean Router',
+  UNISWAP_UNIVERSAL_ROUTER: 'Uniswap Universal Router',
+  UNISWAP_V2: 'Uniswap V2 Router',
+  UNISWAP_V3: 'Uniswap V3 Router',
+  SUSHISWAP: 'SushiSwap Router',
+  CURVE: 'Curve Router',
+  BALANCER: 'Balancer Vault',
+  QUICKSWAP: 'QuickSwap Router',
+  PANCAKESWAP: 'PancakeSwap Router',
+};
+
+type ApprovalLog = Log<bigint, number, false, typeof APPROVAL_EVENT, true>;
+
+// =============================================================================
+// APPROVALS SERVICE CLASS
+// =============================================================================
+
+export class ApprovalsService {
+  private static instance: ApprovalsService;
+  private cache: Map<string, { data: unknown; timestamp: number }> = new Map();
+
+  private constructor() {}
+
+  static getInstance(): ApprovalsService {
+    if (!ApprovalsService.instance) {
+      ApprovalsService.instance = new ApprovalsService();
+    }
+    return ApprovalsService.instance;
+  }
+
+  // ==========================================================================
+  // CACHE MANAGEMENT
+  // ==========================================================================
+
+  private getCachedData<T>(key: string): T | null {
+    const cached = this.cache.get(key);
+    if (cached && Date.now() - cached.timestamp < APP_CONFIG.APPROVALS.CACHE_DURATION) {
+      return cached.data as T;
+    }
+    return null;
+  }
+
+  private setCachedData<T>(key: string, data: T): void {
+    this.cache.set(key, { data, timestamp: Date.now() });
+  }
+
+  // ==========================================================================
+  // DISCOVERY
+  // ==========================================================================
+
+  /**
+   * Every allowance `owner` has granted on the chain that is still non-zero.
+   * Spenders come from the owner's Approval logs; the amounts are read from
+   * the tokens, since transfers spend allowances without logging an Approval.
+   * Riskiest first: unlimited approvals to unknown contracts, then by exposure.
+   */
+  async getApprovals(owner: Address, chainId: number): Promise<TokenApproval[]> {
+    const cacheKey = `approvals_${owner}_${chainId}`;
+    const cached = this.getCachedData<TokenApproval[]>(cacheKey);
+    if (cached) return cached;
+
+    const client = portfolioService.getPublicClient(chainId);
+    if (!client) {
+      throw new Error(`No RPC client configured for chain ${chainId}`);
+    }
+
+    try {
+      const logs = await this.getApprovalLogs(client, owner);
+
+      // Latest approval per token and spender
+      const latest = new Map<string, ApprovalLog>();
+      logs.forEach(log => {
+        const key = `${log.address.toLowerCase()}_${log.args.spender.toLowerCase()}`;
+        const previous = latest.get(key);
+        if (!previous || log.blockNumber > previous.blockNumber) {
+          latest.set(key, log);
+        }
+      });
+
+      const entries = Array.from(latest.values());
+      const tokenAddresses = Array.from(new Set(entries.map(log => getAddress(log.address))));
+
+      const [allowances, tokens, balances] = await Promise.all([
+        client.multicall({
+          contracts: entries.map(log => ({
+            address: log.address,
+            abi: ERC20_ABI,
+            functionName: 'allowance' as const,
+            args: [owner, log.args.spender] as const,
+          })),
+        }),
+        this.getTokens(client, tokenAddresses, chainId),
+        client.multicall({
+          contracts: tokenAddresses.map(address => ({
+            address,
+            abi: ERC20_ABI,
+            functionName: 'balanceOf' as const,
+            args: [owner] as const,
+          })),
+        }),
+      ]);
+
+      const balanceByToken = new Map(tokenAddresses.map((address, index) => {
+        const result = balances[index];
+        return [address, result?.status === 'success' ? result.result : BigInt(0)];
+      }));
+      const prices = await this.getPrices(Array.from(tokens.values()));
+      const knownSpenders = this.getKnownSpenders(chainId);
+
+      const approvals = entries.flatMap((log, index): TokenApproval[] => {
+        const result = allowances[index];
+        const tokenAddress = getAddress(log.address);
+        const token = tokens.get(tokenAddress);
+        if (result?.status !== 'success' || result.result === BigInt(0) || !token) {
+          return [];
+        }
+
+        const allowance = result.result;
+        const balance = balanceByToken.get(tokenAddress) ?? BigInt(0);
+        const spender = getAddress(log.args.spender);
+        const spenderLabel = knownSpenders.get(spender.toLowerCase());
+        const isUnlimited = allowance >= UNLIMITED_THRESHOLD;
+        const price = prices.get(token.symbol);
+        const exposed = allowance < balance ? allowance : balance;
+
+        return [{
+          id: `${chainId}_${tokenAddress}_${spender}`,
+          chainId,
+          token,
+          spender,
+          ...(spenderLabel && { spenderLabel }),
+          allowance: formatAmount(allowance, token.decimals),
+          isUnlimited,
+          balance: formatAmount(balance, token.decimals),
+          exposureUSD: price !== undefined ? toNumber(exposed, token.decimals) * price : null,
+          isRisky: isUnlimited && !spenderLabel,
+          lastApprovedBlock: Number(log.blockNumber),
+          lastApprovedTxHash: log.transactionHash,
+        }];
+      });
+
+      approvals.sort((a, b) =>
+        Number(b.isRisky) - Number(a.isRisky) || (b.exposureUSD ?? 0) - (a.exposureUSD ?? 0)
+      );
+
+      this.setCachedData(cacheKey, approvals);
+      return approvals;
+    } catch (error) {
+      logger.error(`Failed to load approvals for ${owner} on chain ${chainId}:`, error);
+      throw new Error('Unable to load token approvals');
+    }
+  }
+
+  /**
+   * Approval logs emitted for `owner` by any token. Most providers search all
+   * history for an indexed owner in one request; those that cap the block
+   * range are scanned over the recent lookback window in chunks instead.
+   */
+  private async getApprovalLogs(client: PublicClient, owner: Address): Promise<ApprovalLog[]> {
+    try {
+      return await client.getLogs({
+        event: APPROVAL_EVENT,
+        args: { owner },
+        fromBlock: 'earliest',
+        toBlock: 'latest',
+        strict: true,
+      });
+    } catch (error) {
+      logger.warn('Full-history Approval log search rejected, scanning recent blocks:', error);
+    }
+
+    const { LOG_LOOKBACK_BLOCKS, LOG_CHUNK_SIZE } = APP_CONFIG.APPROVALS;
+    const latestBlock = await client.getBlockNumber();
+    const firstBlock = latestBlock > BigInt(LOG_LOOKBACK_BLOCKS) ? latestBlock - BigInt(LOG_LOOKBACK_BLOCKS) : BigInt(0);
+    const logs: ApprovalLog[] = [];
+
+    for (let fromBlock = firstBlock; fromBlock <= latestBlock; fromBlock += BigInt(LOG_CHUNK_SIZE)) {
+      const toBlock = fromBlock + BigInt(LOG_CHUNK_SIZE - 1);
+      logs.push(...await client.getLogs({
+        event: APPROVAL_EVENT,
+        args: { owner },
+        fromBlock,
+        toBlock: toBlock < latestBlock ? toBlock : latestBlock,
+        strict: true,
+      }));
+    }
+
+    return logs;
+  }
+
+  // Known tokens as configured; others are read from their contracts
+  private async getTokens(client: PublicClient, addresses: Address[], chainId: number): Promise<Map<Address, Token>> {
+    const knownTokens = [
+      ...Object.values(POPULAR_TOKENS),
+      ...Object.entries(TOKEN_CONTRACTS[chainId] || {}).map(([symbol, address]) => ({
+        id: `${chainId}_${symbol}`,
+        address: address as Address,
+        symbol,
+        name: symbol,
+        decimals: 18,
+      })),
+    ];
+
+    const metadata = await client.multicall({
+      contracts: addresses.flatMap(address => [
+        { address, abi: ERC20_ABI, functionName: 'decimals' as const },
+        { address, abi: ERC20_ABI, functionName: 'symbol' as const },
+        { address, abi: ERC20_ABI, functionName: 'name' as const },
+      ]),
+    });
+
+    return new Map(addresses.map((address, index) => {
+      const [decimals, symbol, name] = metadata.slice(index * 3, index * 3 + 3);
+      const fallback = resolveRouteToken(address, knownTokens);
+
+      const token: Token = {
+        ...fallback,
+        // A configured token's symbol wins; decimals always come from the contract
+        ...(fallback.name === 'Unknown Token' && symbol?.status === 'success' && { symbol: String(symbol.result) }),
+        ...(fallback.name === 'Unknown Token' && name?.status === 'success' && { name: String(name.result) }),
+        ...(decimals?.status === 'success' && { decimals: Number(decimals.result) }),
+      };
+      return [address, token];
+    }));
+  }
+
+  private async getPrices(tokens: Token[]): Promise<Map<string, number>> {
+    const symbols = Array.from(new Set(tokens.map(token => token.symbol)));
+    const prices = new Map<string, number>();
+
+    await Promise.all(symbols.map(async (symbol) => {
+      try {
+        const priceData = await pricingService.getTokenPrice(symbol);
+        if (priceData.price > 0) {
+          prices.set(symbol, priceData.price);
+        }
+      } catch (error) {
+        logger.warn(`Failed to price ${symbol} for approval exposure:`, error);
+      }
+    }));
+
+    return prices;
+  }
+
+  private getKnownSpenders(chainId: number): Map<string, string> {
+    const spenders = new Map<string, string>([[PERMIT2_ADDRESS.toLowerCase(), 'Permit2']]);
+    Object.entries(DEX_ROUTERS[chainId] || {}).forEach(([key, address]) => {
+      spenders.set(address.toLowerCase(), SPENDER_LABELS[key] || key);
+    });
+    return spenders;
+  }
+
+  // ==========================================================================
+  // REVOKING
+  // ==========================================================================
+
+  /**
+   * Lower an allowance to `amount`, or to zero to revoke it. Resolves once
+   * the approval transaction is mined.
+   */
+  async setAllowance(approval: TokenApproval, amount: bigint = BigInt(0)): Promise<Hash> {
+    const { token, spender, chainId } = approval;
+    const current = approval.isUnlimited ? maxUint256 : parseAmount(approval.allowance, token.decimals);
+    if (amount >= current) {
+      throw new Error('A reduced allowance must be lower than the current one');
+    }
+
+    const hash = await dexService.setAllowance(token, spender, amount, current, chainId);
+    this.invalidate(chainId);
+    return hash;
+  }
+
+  /**
+   * Revoke several approvals one after another, carrying on past failures.
+   * Returns the revocation hash, or the error, for each approval id.
+   */
+  async revokeApprovals(approvals: TokenApproval[]): Promise<Record<string, { hash?: Hash; error?: string }>> {
+    const results: Record<string, { hash?: Hash; error?: string }> = {};
+
+    for (const approval of approvals) {
+      try {
+        results[approval.id] = { hash: await this.setAllowance(approval, BigInt(0)) };
+      } catch (error) {
+        results[approval.id] = { error: error instanceof Error ? error.message : 'Revoke failed' };
+      }
+    }
+
+    return results;
+  }
+
+  private invalidate(chainId: number): void {
+    Array.from(this.cache.keys())
+      .filter(key => key.endsWith(`_${chainId}`))
+      .forEach(key => this.cache.delete(key));
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+}
+
+export const approvalsService = ApprovalsService.getInstance();
@@ -0,0 +1,395 @@
+import { PublicKey, VersionedTransaction } from '@solana/web3.js';
+import axios, { AxiosInstance } from 'axios';
+import { Address, Hash, Hex } from 'viem';
+import { sendTransaction, waitForTransaction, getNetwork, switchNetwork } from 'wagmi/actions';
+import { BridgeFee, BridgeQuote, BridgeQuoteRequest, Token, SolanaTransactionSender } from '@/types';
+import { NETWORK_LABELS } from '@/lib/wagmi';
+import { parseAmount, formatAmount } from '@/utils/amount';
+import { getQuoteValidUntil } from '@/utils/quote';
+import { dexService } from './dex';
+import { jupiterService } from './jupiter';
+import { logger } from '@/utils/logger';
+
+// =============================================================================
+// LI.FI API INTERFACES
+// =============================================================================
+
+interface LiFiToken {
+  address: string;
+  chainId: number;
+  symbol: string;
+  decimals: number;
+  name: string;
+  logoURI?: string;
+  priceUSD?: string;
+}
+
+interface LiFiStep {
+  id: string;
+  type: string;
+  tool: string;
+  toolDetails: {
+    name: string;
+    logoURI?: string;
+  };
+  action: {
+    fromChainId: number;
+    toChainId: number;
+    fromToken: LiFiToken;
+    toToken: LiFiToken;
+    fromAmount: string;
+    fromAddress: string;
+    toAddress: string;
+  };
+  estimate: {
+    fromAmount: string;
+    toAmount: string;
+    toAmountMin: string;
+    approvalAddress?: string;
+    executionDuration: number;
+    feeCosts?: Array<{
+      name: string;
+      amount: string;
+      amountUSD?: string;
+      token: LiFiToken;
+      included: boolean;
+    }>;
+    gasCosts?: Array<{
+      amount: string;
+      amountUSD?: string;
+      token: LiFiToken;
+    }>;
+  };
+  transactionRequest?: {
+    to?: string;
+    data: string;
+    value?: string;
+    gasLimit?: string;
+  };
+}
+
+interface LiFiRoutesResponse {
+  routes: Array<{
+    id: string;
+    steps: LiFiStep[];
+  }>;
+}
+
+interface LiFiStatusResponse {
+  status: 'NOT_FOUND' | 'INVALID' | 'PENDING' | 'DONE' | 'FAILED';
+  substatus?: string;
+  substatusMessage?: string;
+  receiving?: {
+    txHash?: string;
+    chainId: number;
+    amount?: string;
+    token?: LiFiToken;
+  };
+}
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface BridgeSigner {
+  evmAddress?: Address;
+  solana?: {
+    publicKey: PublicKey;
+    sendTransaction: SolanaTransactionSender;
+  };
+}
+
+export interface BridgeTransferStatus {
+  status: 'pending' | 'completed' | 'refunded' | 'failed';
+  destinationTxHash?: string;
+  receivedAmount?: string;
+  message?: string;
+}
+
+// LI.FI's identifier for Solana, used wherever a chain ID is expected
+export const SOLANA_CHAIN_ID = 1151111081099710;
+
+// =============================================================================
+// BRIDGE SERVICE CLASS
+// =============================================================================
+
+export class BridgeService {
+  private static instance: BridgeService;
+  private client: AxiosInstance;
+
+  private constructor() {
+    this.client = axios.create({
+      baseURL: 'https://li.quest/v1',
+      timeout: 20000,
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+        ...(process.env.NEXT_PUBLIC_LIFI_API_KEY && {
+          'x-lifi-api-key': process.env.NEXT_PUBLIC_LIFI_API_KEY
+        })
+      }
+    });
+  }
+
+  static getInstance(): BridgeService {
+    if (!BridgeService.instance) {
+      BridgeService.instance = new BridgeService();
+    }
+    return BridgeService.instance;
+  }
+
+  // ==========================================================================
+  // QUOTES
+  // ==========================================================================
+
+  /**
+   * Cross-chain routes for a transfer, most received first. Only routes that
+   * settle with a single source-chain transaction are returned.
+   */
+  async getBridgeQuotes(request: BridgeQuoteRequest): Promise<BridgeQuote[]> {
+    if (request.fromChainId === request.toChainId) {
+      throw new Error('Source and destination chains must differ');
+    }
+
+    try {
+      const response = await this.client.post('/advanced/routes', {
+        fromChainId: request.fromChainId,
+        toChainId: request.toChainId,
+        fromTokenAddress: request.fromToken.address,
+        toTokenAddress: request.toTokenAddress,
+        fromAmount: parseAmount(request.amount, request.fromToken.decimals).toString(),
+        fromAddress: request.fromAddress,
+        toAddress: request.toAddress,
+        options: {
+          slippage: request.slippage / 100,
+          order: 'CHEAPEST',
+          allowSwitchChain: false,
+        },
+      });
+
+      const { routes }: LiFiRoutesResponse = response.data;
+
+      return routes
+        .flatMap(route => (route.steps.length === 1 && route.steps[0] ? [route.steps[0]] : []))
+        .map(step => this.normalizeQuote(step, request))
+        .sort((a, b) => {
+          const aOut = parseAmount(a.toAmount, a.toToken.decimals);
+          const bOut = parseAmount(b.toAmount, b.toToken.decimals);
+          return aOut === bOut ? 0 : aOut > bOut ? -1 : 1;
+        });
+    } catch (error) {
+      logger.error('Failed to fetch bridge quotes:', error);
+      throw new Error('Unable to fetch bridge quotes');
+    }
+  }
+
+  // ==========================================================================
+  // EXECUTION
+  // ==========================================================================
+
+  /**
+   * Send the source-chain leg of a transfer. Resolves with its transaction
+   * hash once it has confirmed; the destination leg is tracked separately.
+   */
+  async executeBridge(quote: BridgeQuote, signer: BridgeSigner): Promise<string> {
+    if (new Date(quote.validUntil).getTime() <= Date.now()) {
+      throw new Error('Bridge quote has expired; requote before sending');
+    }
+
+    const step = quote.raw as LiFiStep | undefined;
+    if (!step) {
+      throw new Error('Bridge quote is missing its route');
+    }
+
+    // Route steps are quoted without calldata; fetch it just before sending
+    const response = await this.client.post('/advanced/stepTransaction', step);
+    const { transactionRequest }: LiFiStep = response.data;
+    if (!transactionRequest) {
+      throw new Error('Bridge did not return a transaction');
+    }
+
+    if (quote.fromChainId === SOLANA_CHAIN_ID) {
+      if (!signer.solana || signer.solana.publicKey.toBase58() !== quote.fromAddress) {
+        throw new Error('Connect the Solana wallet this quote was made for');
+      }
+      return this.sendSolanaTransaction(transactionRequest.data, signer.solana.sendTransaction);
+    }
+
+    if (!signer.evmAddress || signer.evmAddress.toLowerCase() !== quote.fromAddress.toLowerCase()) {
+      throw new Error('Connect the EVM wallet this quote was made for');
+    }
+    return this.sendEvmTransaction(quote, signer.evmAddress, transactionRequest);
+  }
+
+  /**
+   * Where the destination leg of a transfer stands
+   */
+  async getTransferStatus(
+    txHash: string,
+    bridge: string,
+    fromChainId: number,
+    toChainId: number,
+    toToken: Token
+  ): Promise<BridgeTransferStatus> {
+    const response = await this.client.get('/status', {
+      params: { txHash, bridge, fromChain: fromChainId, toChain: toChainId }
+    });
+    const result: LiFiStatusResponse = response.data;
+
+    const receivedAmount = result.receiving?.amount
+      ? formatAmount(result.receiving.amount, result.receiving.token?.decimals ?? toToken.decimals)
+      : undefined;
+    const details = {
+      ...(result.receiving?.txHash && { destinationTxHash: result.receiving.txHash }),
+      ...(receivedAmount && { receivedAmount }),
+      ...(result.substatusMessage && { message: result.substatusMessage }),
+    };
+
+    if (result.status === 'DONE') {
+      return { status: result.substatus === 'REFUNDED' ? 'refunded' : 'completed', ...details };
+    }
+    if (result.status === 'FAILED' || result.status === 'INVALID') {
+      return { status: 'failed', ...details };
+    }
+    // NOT_FOUND just means the bridge hasn't indexed the source transaction yet
+    return { status: 'pending', ...details };
+  }
+
+  getChainLabel(chainId: number): string {
+    if (chainId === SOLANA_CHAIN_ID) return 'Solana';
+    return NETWORK_LABELS[chainId] || `Chain ${chainId}`;
+  }
+
+  // ==========================================================================
+  // PRIVATE METHODS
+  // ==========================================================================
+
+  private async sendEvmTransaction(
+    quote: BridgeQuote,
+    account: Address,
+    transactionRequest: NonNullable<LiFiStep['transactionRequest']>
+  ): Promise<Hash> {
+    const chainId = quote.fromChainId;
+    if (!transactionRequest.to) {
+      throw new Error('Bridge transaction has no recipient');
+    }
+
+    if (getNetwork().chain?.id !== chainId) {
+      await switchNetwork({ chainId });
+    }
+
+    if (quote.approvalAddress && !this.isNativeToken(quote.fromToken)) {
+      const amount = parseAmount(quote.fromAmount, quote.fromToken.decimals);
+      const spender = quote.approvalAddress as Address;
+      const allowance = await dexService.getAllowance(quote.fromToken, account, spender, chainId);
+      if (allowance < amount) {
+        await dexService.approveToken(quote.fromToken, spender, amount, chainId);
+      }
+    }
+
+    try {
+      const { hash } = await sendTransaction({
+        account,
+        chainId,
+        to: transactionRequest.to as Address,
+        data: transactionRequest.data as Hex,
+        value: BigInt(transactionRequest.value || 0),
+        ...(transactionRequest.gasLimit ? { gas: BigInt(transactionRequest.gasLimit) } : {}),
+      });
+
+      const receipt = await waitForTransaction({ hash, chainId });
+      if (receipt.status !== 'success') {
+        throw new Error(`Bridge transaction ${hash} reverted`);
+      }
+
+      return hash;
+    } catch (error) {
+      logger.error('Failed to send bridge transaction:', error);
+      throw new Error('Unable to send bridge transaction');
+    }
+  }
+
+  private async sendSolanaTransaction(
+    serializedTransaction: string,
+    sendTransaction: SolanaTransactionSender
+  ): Promise<string> {
+    const connection = jupiterService.getConnection();
+
+    try {
+      const transaction = VersionedTransaction.deserialize(Buffer.from(serializedTransaction, 'base64'));
+      const signature = await sendTransaction(transaction, connection);
+
+      const confirmation = await connection.confirmTransaction(signature, 'confirmed');
+      if (confirmation.value.err) {
+        throw new Error(`Bridge transaction ${signature} failed`);
+      }
+
+      return signature;
+    } catch (error) {
+      logger.error('Failed to send Solana bridge transaction:', error);
+      throw new Error('Unable to send bridge transaction');
+    }
+  }
+
+  private normalizeQuote(step: LiFiStep, request: BridgeQuoteRequest): BridgeQuote {
+    const { estimate } = step;
+    const { fromToken } = request;
+    const toToken = this.toToken(step.action.toToken, [fromToken]);
+
+    const fees: BridgeFee[] = (estimate.feeCosts || []).map(fee => {
+      const token = this.toToken(fee.token, [fromToken, toToken]);
+      return {
+        name: fee.name,
+        token,
+        amount: formatAmount(fee.amount, token.decimals),
+        amountUSD: parseFloat(fee.amountUSD || '0'),
+        included: fee.included,
+      };
+    });
+    const gasCostUSD = (estimate.gasCosts || [])
+      .reduce((sum, gas) => sum + parseFloat(gas.amountUSD || '0'), 0);
+
+    return {
+      id: `bridge_${step.tool}_${Date.now()}`,
+      bridge: step.tool,
+      fromChainId: request.fromChainId,
+      toChainId: request.toChainId,
+      fromToken,
+      toToken,
+      fromAmount: formatAmount(estimate.fromAmount, fromToken.decimals),
+      toAmount: formatAmount(estimate.toAmount, toToken.decimals),
+      toAmountMin: formatAmount(estimate.toAmountMin, toToken.decimals),
+      fromAddress: request.fromAddress,
+      toAddress: request.toAddress,
+      fees,
+      feeUSD: fees.reduce((sum, fee) => sum + fee.amountUSD, 0),
+      gasCostUSD,
+      estimatedDuration: estimate.executionDuration,
+      ...(estimate.approvalAddress && { approvalAddress: estimate.approvalAddress }),
+      validUntil: getQuoteValidUntil(),
+      raw: step,
+    };
+  }
+
+  private toToken(token: LiFiToken, knownTokens: Token[]): Token {
+    const known = knownTokens.find(t => t.address.toLowerCase() === token.address.toLowerCase());
+    if (known) return known;
+
+    return {
+      id: token.address,
+      address: token.address as Address,
+      symbol: token.symbol,
+      name: token.name,
+      decimals: token.decimals,
+      ...(token.logoURI && { logoURI: token.logoURI }),
+      ...(token.priceUSD && { price: parseFloat(token.priceUSD) }),
+    };
+  }
+
+  private isNativeToken(token: Token): boolean {
+    return token.address === '0x0000000000000000000000000000000000000000' ||
+      token.address.toLowerCase() === '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee';
+  }
+}
+
+export const bridgeService = BridgeService.getInstance();
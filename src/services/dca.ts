@@ -0,0 +1,407 @@
+import { PublicKey, VersionedTransaction } from '@solana/web3.js';
+import axios, { AxiosInstance } from 'axios';
+import { Address } from 'viem';
+import {
+  CreateDCAPlanParams,
+  DCAInterval,
+  DCAPlan,
+  SwapQuote,
+  Token,
+  Trade,
+  SolanaTransactionSender,
+  SolanaTransactionSigner,
+} from '@/types';
+import { parseAmount, formatAmount } from '@/utils/amount';
+import { dexService } from './dex';
+import { jupiterService } from './jupiter';
+import { logger } from '@/utils/logger';
+
+// =============================================================================
+// JUPITER RECURRING API INTERFACES
+// =============================================================================
+
+interface JupiterRecurringTxResponse {
+  requestId: string;
+  transaction: string;
+}
+
+interface JupiterRecurringExecuteResponse {
+  signature: string;
+  status: 'Success' | 'Failed';
+  order?: string;
+  error?: string;
+}
+
+interface JupiterRecurringFill {
+  orderKey: string;
+  inputMint: string;
+  outputMint: string;
+  rawInputAmount: string;
+  rawOutputAmount: string;
+  txId: string;
+  confirmedAt: string;
+  action: string;
+}
+
+interface JupiterRecurringOrder {
+  orderKey: string;
+  inputMint: string;
+  outputMint: string;
+  inDeposited: string;
+  inUsed: string;
+  userClosed: boolean;
+  closeTx: string;
+  trades: JupiterRecurringFill[];
+}
+
+interface JupiterRecurringOrdersResponse {
+  time: JupiterRecurringOrder[];
+}
+
+// =============================================================================
+// SIGNERS
+// =============================================================================
+
+export interface DCASigner {
+  evmAddress?: Address;
+  solana?: {
+    publicKey: PublicKey;
+    sendTransaction: SolanaTransactionSender;
+    signTransaction?: SolanaTransactionSigner;
+  };
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const HOUR = 60 * 60 * 1000;
+
+const INTERVAL_MS: Record<DCAInterval, number> = {
+  hourly: HOUR,
+  daily: 24 * HOUR,
+  weekly: 7 * 24 * HOUR,
+  biweekly: 14 * 24 * HOUR,
+  monthly: 30 * 24 * HOUR,
+};
+
+// Jupiter rejects recurring orders with fewer purchases than this
+const MIN_RECURRING_ORDERS = 2;
+
+// =============================================================================
+// DCA SERVICE CLASS
+// =============================================================================
+
+export class DCAService {
+  private static instance: DCAService;
+  private recurringClient: AxiosInstance;
+
+  private constructor() {
+    this.recurringClient = axios.create({
+      baseURL: 'https://lite-api.jup.ag/recurring/v1',
+      timeout: 15000,
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+      }
+    });
+  }
+
+  static getInstance(): DCAService {
+    if (!DCAService.instance) {
+      DCAService.instance = new DCAService();
+    }
+    return DCAService.instance;
+  }
+
+  // ==========================================================================
+  // PLAN MANAGEMENT
+  // ==========================================================================
+
+  /**
+   * Build a new plan. Jupiter plans are also created on-chain, depositing the
+   * whole budget up front.
+   */
+  async createPlan(params: CreateDCAPlanParams, signer: DCASigner): Promise<DCAPlan> {
+    if (parseAmount(params.amountPerExecution, params.fromToken.decimals) === BigInt(0)) {
+      throw new Error('Purchase amount must be greater than zero');
+    }
+
+    const owner = params.chainId !== undefined
+      ? signer.evmAddress
+      : signer.solana?.publicKey.toBase58();
+    if (!owner) {
+      throw new Error(`Connect a${params.chainId !== undefined ? 'n EVM' : ' Solana'} wallet to create this plan`);
+    }
+
+    const startAt = params.startAt && params.startAt.getTime() > Date.now() ? params.startAt : new Date();
+    const plan: DCAPlan = {
+      id: `dca_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      owner,
+      ...(params.chainId !== undefined && { chainId: params.chainId }),
+      fromToken: params.fromToken,
+      toToken: params.toToken,
+      amountPerExecution: params.amountPerExecution,
+      interval: params.interval,
+      endCondition: params.endCondition,
+      executionMode: params.executionMode,
+      status: 'active',
+      createdAt: new Date(),
+      nextExecutionAt: startAt,
+      executionCount: 0,
+      totalSpent: '0',
+      totalReceived: '0',
+      tradeIds: [],
+    };
+
+    if (plan.executionMode === 'jupiter') {
+      if (plan.chainId !== undefined || !signer.solana) {
+        throw new Error('Jupiter DCA is only available on Solana');
+      }
+      return {
+        ...plan,
+        recurringOrderKey: await this.createRecurringOrder(plan, signer.solana),
+      };
+    }
+
+    return plan;
+  }
+
+  async cancelPlan(plan: DCAPlan, signer: DCASigner): Promise<void> {
+    if (plan.executionMode !== 'jupiter' || !plan.recurringOrderKey) return;
+
+    if (!signer.solana || signer.solana.publicKey.toBase58() !== plan.owner) {
+      throw new Error('Connect the wallet that created this plan to cancel it');
+    }
+
+    try {
+      const response = await this.recurringClient.post('/cancelOrder', {
+        order: plan.recurringOrderKey,
+        user: plan.owner,
+        recurringType: 'time',
+      });
+
+      await this.signAndExecute(response.data, signer.solana);
+    } catch (error) {
+      logger.error('Failed to cancel Jupiter DCA order:', error);
+      throw new Error('Unable to cancel DCA plan');
+    }
+  }
+
+  /**
+   * Plans whose next purchase is due
+   */
+  getDuePlans(plans: DCAPlan[], now: Date = new Date()): DCAPlan[] {
+    return plans.filter(plan =>
+      plan.status === 'active' &&
+      plan.executionMode === 'wallet' &&
+      new Date(plan.nextExecutionAt).getTime() <= now.getTime()
+    );
+  }
+
+  getNextExecutionTime(plan: DCAPlan, from: Date = new Date()): Date {
+    const interval = INTERVAL_MS[plan.interval];
+    let next = new Date(plan.nextExecutionAt).getTime() + interval;
+
+    // Skip slots missed while the app was closed rather than buying them all at once
+    while (next <= from.getTime()) {
+      next += interval;
+    }
+    return new Date(next);
+  }
+
+  isPlanComplete(plan: DCAPlan): boolean {
+    const { endCondition } = plan;
+
+    if (endCondition.type === 'executions') {
+      return plan.executionCount >= endCondition.count;
+    }
+    if (endCondition.type === 'date') {
+      return new Date(plan.nextExecutionAt).getTime() > new Date(endCondition.endDate).getTime();
+    }
+    return false;
+  }
+
+  /**
+   * Apply a completed purchase to a plan's totals and schedule
+   */
+  recordExecution(plan: DCAPlan, trade: Trade): DCAPlan {
+    const { fromToken, toToken } = plan;
+    const updated: DCAPlan = {
+      ...plan,
+      executionCount: plan.executionCount + 1,
+      totalSpent: this.addAmounts(plan.totalSpent, trade.fromAmount, fromToken),
+      totalReceived: this.addAmounts(plan.totalReceived, trade.toAmount || '0', toToken),
+      tradeIds: [...plan.tradeIds, trade.id],
+      lastExecutedAt: trade.timestamp,
+      nextExecutionAt: this.getNextExecutionTime(plan),
+    };
+
+    return this.isPlanComplete(updated) ? { ...updated, status: 'completed' } : updated;
+  }
+
+  // ==========================================================================
+  // WALLET EXECUTION
+  // ==========================================================================
+
+  /**
+   * Best quote for the plan's next purchase
+   */
+  async getExecutionQuote(plan: DCAPlan, slippage: number): Promise<SwapQuote> {
+    const quotes = plan.chainId !== undefined
+      ? await dexService.getSwapQuote(plan.fromToken, plan.toToken, plan.amountPerExecution, slippage, plan.chainId)
+      : await jupiterService.getSwapQuote(plan.fromToken, plan.toToken, plan.amountPerExecution, slippage);
+
+    const [best] = quotes;
+    if (!best) {
+      throw new Error(`No route found for ${plan.fromToken.symbol} → ${plan.toToken.symbol}`);
+    }
+    return best;
+  }
+
+  // ==========================================================================
+  // JUPITER RECURRING ORDERS
+  // ==========================================================================
+
+  /**
+   * Purchases made by Jupiter's keepers that aren't in `knownTxHashes` yet,
+   * as trades. `isClosed` is set once the order account has been closed.
+   */
+  async getRecurringFills(
+    plan: DCAPlan,
+    knownTxHashes: Set<string>
+  ): Promise<{ trades: Trade[]; isClosed: boolean }> {
+    if (!plan.recurringOrderKey) return { trades: [], isClosed: false };
+
+    const [active, history] = await Promise.all(
+      (['active', 'history'] as const).map(orderStatus =>
+        this.recurringClient.get('/getRecurringOrders', {
+          params: { user: plan.owner, recurringType: 'time', orderStatus, page: 1, includeFailedTx: false },
+        }).then(response => (response.data as JupiterRecurringOrdersResponse).time || [])
+      )
+    );
+
+    const activeOrder = active?.find(order => order.orderKey === plan.recurringOrderKey);
+    const closedOrder = history?.find(order => order.orderKey === plan.recurringOrderKey);
+    const order = activeOrder || closedOrder;
+    if (!order) return { trades: [], isClosed: false };
+
+    const trades = order.trades
+      .filter(fill => !knownTxHashes.has(fill.txId))
+      .map(fill => {
+        const fromAmount = formatAmount(fill.rawInputAmount, plan.fromToken.decimals);
+        const toAmount = formatAmount(fill.rawOutputAmount, plan.toToken.decimals);
+        const trade: Trade = {
+          id: `trade_${fill.txId}`,
+          userId: plan.owner,
+          type: 'swap',
+          fromToken: plan.fromToken,
+          toToken: plan.toToken,
+          fromAmount,
+          toAmount,
+          price: parseFloat(fromAmount) > 0 ? parseFloat(toAmount) / parseFloat(fromAmount) : 0,
+          gasUsed: '0',
+          gasFee: '0', // Paid by Jupiter's keeper
+          txHash: fill.txId,
+          status: 'confirmed',
+          timestamp: new Date(fill.confirmedAt),
+        };
+        return trade;
+      });
+
+    return { trades, isClosed: !activeOrder && !!closedOrder };
+  }
+
+  private async createRecurringOrder(
+    plan: DCAPlan,
+    signer: NonNullable<DCASigner['solana']>
+  ): Promise<string> {
+    const numberOfOrders = this.getRecurringOrderCount(plan);
+    if (numberOfOrders < MIN_RECURRING_ORDERS) {
+      throw new Error(`Jupiter DCA needs at least ${MIN_RECURRING_ORDERS} purchases`);
+    }
+
+    const perOrder = parseAmount(plan.amountPerExecution, plan.fromToken.decimals);
+    const startAt = new Date(plan.nextExecutionAt).getTime();
+
+    try {
+      const response = await this.recurringClient.post('/createOrder', {
+        user: plan.owner,
+        inputMint: plan.fromToken.address,
+        outputMint: plan.toToken.address,
+        params: {
+          time: {
+            inAmount: (perOrder * BigInt(numberOfOrders)).toString(),
+            numberOfOrders,
+            interval: INTERVAL_MS[plan.interval] / 1000,
+            minPrice: null,
+            maxPrice: null,
+            startAt: startAt > Date.now() ? Math.floor(startAt / 1000) : null,
+          },
+        },
+      });
+
+      const { order } = await this.signAndExecute(response.data, signer);
+      if (!order) {
+        throw new Error('Jupiter did not return the order account');
+      }
+      return order;
+    } catch (error) {
+      logger.error('Failed to create Jupiter DCA order:', error);
+      throw new Error('Unable to create DCA plan');
+    }
+  }
+
+  /**
+   * Jupiter deposits the whole budget, so the plan needs a fixed number of purchases
+   */
+  private getRecurringOrderCount(plan: DCAPlan): number {
+    const { endCondition } = plan;
+
+    if (endCondition.type === 'executions') {
+      return endCondition.count;
+    }
+    if (endCondition.type === 'date') {
+      const span = new Date(endCondition.endDate).getTime() - new Date(plan.nextExecutionAt).getTime();
+      return Math.floor(span / INTERVAL_MS[plan.interval]) + 1;
+    }
+    throw new Error('Jupiter DCA plans need an end date or a number of purchases');
+  }
+
+  private async signAndExecute(
+    { requestId, transaction }: JupiterRecurringTxResponse,
+    signer: NonNullable<DCASigner['solana']>
+  ): Promise<JupiterRecurringExecuteResponse> {
+    if (!signer.signTransaction) {
+      throw new Error('Wallet does not support transaction signing');
+    }
+
+    const signed = await signer.signTransaction(
+      VersionedTransaction.deserialize(Buffer.from(transaction, 'base64'))
+    );
+
+    const response = await this.recurringClient.post('/execute', {
+      requestId,
+      signedTransaction: Buffer.from(signed.serialize()).toString('base64'),
+    });
+
+    const result: JupiterRecurringExecuteResponse = response.data;
+    if (result.status !== 'Success') {
+      throw new Error(result.error || `Transaction ${result.signature} failed`);
+    }
+    return result;
+  }
+
+  // ==========================================================================
+  // UTILITY METHODS
+  // ==========================================================================
+
+  private addAmounts(a: string, b: string, token: Token): string {
+    return formatAmount(
+      parseAmount(a, token.decimals) + parseAmount(b, token.decimals),
+      token.decimals
+    );
+  }
+}
+
+export const dcaService = DCAService.getInstance();
@@ -1,6 +1,35 @@
 import axios, { AxiosInstance } from 'axios';
-import { SwapQuote, Token, RouteStep, ApiResponse } from '@/types';
-import { Address } from 'viem';
+import {
+  SwapQuote,
+  SwapMode,
+  SwapTransaction,
+  ApprovalMode,
+  GasSpeed,
+  PermitType,
+  SignedPermit,
+  SimulationResult,
+  SubmissionOptions,
+  Token,
+  RouteStep,
+  ApiResponse
+} from '@/types';
+import { Address, Hash, Hex, encodeAbiParameters, encodeFunctionData, encodePacked, maxUint256 } from 'viem';
+import { erc20ABI } from 'wagmi';
+import { readContract, writeContract, waitForTransaction, getNetwork, switchNetwork } from 'wagmi/actions';
+import { portfolioService } from './portfolio';
+import { pricingService } from './pricing';
+import { permitService } from './permit';
+import { gasService } from './gas';
+import { simulationService } from './simulation';
+import { submissionService } from './submission';
+import { wrapService } from './wrap';
+import { TOKEN_CONTRACTS, NATIVE_CURRENCY, DEX_ROUTERS } from '@/lib/wagmi';
+import { POPULAR_TOKENS } from '@/lib/constants';
+import { parseAmount, formatAmount, toNumber, applySlippage, percentToBps } from '@/utils/amount';
+import { logger } from '@/utils/logger';
+import { withPriceImpact } from '@/utils/priceImpact';
+import { resolveRouteToken } from '@/utils/route';
+import { getQuoteValidUntil, isQuoteExpired, isQuoteRefreshDue } from '@/utils/quote';
 
 // =============================================================================
 // DEX AGGREGATOR INTERFACES
@@ -23,15 +52,376 @@ interface OneInchQuote {
   };
   toTokenAmount: string;
   fromTokenAmount: string;
-  protocols: Array<{
+  // Parallel routes, each a list of hops, each split across protocols
+  protocols: Array<Array<Array<{
     name: string;
     part: number;
     fromTokenAddress: string;
     toTokenAddress: string;
-  }>;
+  }>>>;
   estimatedGas: number;
 }
 
+interface ZeroExPrice {
+  price: string;
+  buyAmount: string;
+  sellAmount: string;
+  estimatedGas: string;
+  sources: Array<{
+    name: string;
+    proportion: string;
+  }>;
+}
+
+interface ParaSwapPriceResponse {
+  priceRoute: {
+    srcAmount: string;
+    destAmount: string;
+    gasCost: string;
+    bestRoute: Array<{
+      percent: number;
+      swaps: Array<{
+        srcToken: string;
+        srcDecimals: number;
+        destToken: string;
+        destDecimals: number;
+        swapExchanges: Array<{
+          exchange: string;
+          srcAmount: string;
+          destAmount: string;
+          percent: number;
+          poolAddresses?: string[];
+        }>;
+      }>;
+    }>;
+  };
+}
+
+interface OpenOceanQuoteResponse {
+  code: number;
+  data: {
+    inAmount: string;
+    outAmount: string;
+    estimatedGas: string;
+    path?: {
+      routes: Array<{
+        percentage: number;
+        subRoutes: Array<{
+          from: string;
+          to: string;
+          dexes: Array<{
+            dex: string;
+            id: string;
+            percentage: number;
+          }>;
+        }>;
+      }>;
+    };
+  };
+}
+
+interface OneInchSwapResponse {
+  tx: {
+    from: string;
+    to: string;
+    data: string;
+    value: string;
+    gas: number;
+    gasPrice: string;
+  };
+}
+
+interface ZeroExQuote extends ZeroExPrice {
+  to: string;
+  data: string;
+  value: string;
+  gas: string;
+}
+
+interface ParaSwapContractsResponse {
+  AugustusSwapper: string;
+  TokenTransferProxy: string;
+}
+
+interface ParaSwapTransactionResponse {
+  to: string;
+  data: string;
+  value: string;
+  gas?: string;
+}
+
+interface OpenOceanSwapResponse {
+  code: number;
+  data: {
+    to: string;
+    data: string;
+    value: string;
+    estimatedGas: string;
+  };
+}
+
+// =============================================================================
+// QUOTE SOURCE CONFIGURATION
+// =============================================================================
+
+// Per-source request deadlines (ms)
+const QUOTE_TIMEOUTS = {
+  '1inch': 10000,
+  '0x': 8000,
+  'ParaSwap': 8000,
+  'OpenOcean': 8000,
+  'Uniswap V3': 6000,
+} as const;
+
+type QuoteSourceName = keyof typeof QUOTE_TIMEOUTS;
+
+const NATIVE_TOKEN_ADDRESS = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE';
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000' as Address;
+
+const WRAPPED_NATIVE_SYMBOLS: Record<number, string> = {
+  1: 'WETH',
+  137: 'WMATIC',
+  56: 'WBNB',
+  42161: 'WETH',
+};
+
+const ZERO_EX_BASE_URLS: Record<number, string> = {
+  1: 'https://api.0x.org',
+  137: 'https://polygon.api.0x.org',
+  56: 'https://bsc.api.0x.org',
+  42161: 'https://arbitrum.api.0x.org',
+};
+
+// Sources tried, in order, for the spot price a quote's impact is measured
+// against; the on-chain quoter first, then the aggregators
+const SPOT_PRICE_SOURCES: QuoteSourceName[] = ['Uniswap V3', '0x', 'ParaSwap', '1inch', 'OpenOcean'];
+
+// Networks ParaSwap's v5 API prices on (its `network` parameter)
+const PARASWAP_NETWORKS = [1, 10, 56, 137, 250, 42161, 43114];
+
+const OPENOCEAN_CHAIN_CODES: Record<number, string> = {
+  1: 'eth',
+  137: 'polygon',
+  56: 'bsc',
+  42161: 'arbitrum',
+};
+
+// Uniswap V3 QuoterV2 deployments
+const UNISWAP_V3_QUOTERS: Record<number, Address> = {
+  1: '0x61fFE014bA17989E743c5F6cB21bF9697530B21e',
+  137: '0x61fFE014bA17989E743c5F6cB21bF9697530B21e',
+  42161: '0x61fFE014bA17989E743c5F6cB21bF9697530B21e',
+};
+
+const UNISWAP_V3_FEE_TIERS = [100, 500, 3000, 10000] as const;
+
+// DEX_ROUTERS entries per source: the contract the swap is sent to, and the
+// one that pulls the input token (and so needs the allowance)
+const ROUTER_KEYS: Record<QuoteSourceName, { router: string; spender: string }> = {
+  '1inch': { router: 'ONEINCH', spender: 'ONEINCH' },
+  '0x': { router: 'ZEROEX', spender: 'ZEROEX' },
+  'ParaSwap': { router: 'PARASWAP', spender: 'PARASWAP_PROXY' },
+  'OpenOcean': { router: 'OPENOCEAN', spender: 'OPENOCEAN' },
+  'Uniswap V3': { router: 'UNISWAP_V3', spender: 'UNISWAP_V3' },
+};
+
+// Sources whose routers accept an EIP-2612 permit alongside the swap. Permit2
+// approvals are only consumed by Uniswap's Universal Router.
+const EIP2612_PERMIT_SOURCES: QuoteSourceName[] = ['1inch', 'ParaSwap', 'Uniswap V3'];
+
+// Tokens that revert when a non-zero allowance is changed to another non-zero value
+const RESET_ALLOWANCE_SYMBOLS = ['USDT'];
+
+const SWAP_DEADLINE_SECONDS = 20 * 60;
+
+const UNISWAP_V3_QUOTER_ABI = [
+  {
+    inputs: [
+      {
+        components: [
+          { name: 'tokenIn', type: 'address' },
+          { name: 'tokenOut', type: 'address' },
+          { name: 'amountIn', type: 'uint256' },
+          { name: 'fee', type: 'uint24' },
+          { name: 'sqrtPriceLimitX96', type: 'uint160' },
+        ],
+        name: 'params',
+        type: 'tuple',
+      },
+    ],
+    name: 'quoteExactInputSingle',
+    outputs: [
+      { name: 'amountOut', type: 'uint256' },
+      { name: 'sqrtPriceX96After', type: 'uint160' },
+      { name: 'initializedTicksCrossed', type: 'uint32' },
+      { name: 'gasEstimate', type: 'uint256' },
+    ],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        components: [
+          { name: 'tokenIn', type: 'address' },
+          { name: 'tokenOut', type: 'address' },
+          { name: 'amount', type: 'uint256' },
+          { name: 'fee', type: 'uint24' },
+          { name: 'sqrtPriceLimitX96', type: 'uint160' },
+        ],
+        name: 'params',
+        type: 'tuple',
+      },
+    ],
+    name: 'quoteExactOutputSingle',
+    outputs: [
+      { name: 'amountIn', type: 'uint256' },
+      { name: 'sqrtPriceX96After', type: 'uint160' },
+      { name: 'initializedTicksCrossed', type: 'uint32' },
+      { name: 'gasEstimate', type: 'uint256' },
+    ],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+] as const;
+
+const EXACT_INPUT_SINGLE_PARAMS = [
+  { name: 'tokenIn', type: 'address' },
+  { name: 'tokenOut', type: 'address' },
+  { name: 'fee', type: 'uint24' },
+  { name: 'recipient', type: 'address' },
+  { name: 'deadline', type: 'uint256' },
+  { name: 'amountIn', type: 'uint256' },
+  { name: 'amountOutMinimum', type: 'uint256' },
+  { name: 'sqrtPriceLimitX96', type: 'uint160' },
+] as const;
+
+const EXACT_OUTPUT_SINGLE_PARAMS = [
+  { name: 'tokenIn', type: 'address' },
+  { name: 'tokenOut', type: 'address' },
+  { name: 'fee', type: 'uint24' },
+  { name: 'recipient', type: 'address' },
+  { name: 'deadline', type: 'uint256' },
+  { name: 'amountOut', type: 'uint256' },
+  { name: 'amountInMaximum', type: 'uint256' },
+  { name: 'sqrtPriceLimitX96', type: 'uint160' },
+] as const;
+
+// Uniswap V3 SwapRouter
+const UNISWAP_V3_ROUTER_ABI = [
+  {
+    inputs: [{ components: EXACT_INPUT_SINGLE_PARAMS, name: 'params', type: 'tuple' }],
+    name: 'exactInputSingle',
+    outputs: [{ name: 'amountOut', type: 'uint256' }],
+    stateMutability: 'payable',
+    type: 'function',
+  },
+  {
+    inputs: [{ components: EXACT_OUTPUT_SINGLE_PARAMS, name: 'params', type: 'tuple' }],
+    name: 'exactOutputSingle',
+    outputs: [{ name: 'amountIn', type: 'uint256' }],
+    stateMutability: 'payable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { name: 'amountMinimum', type: 'uint256' },
+      { name: 'recipient', type: 'address' },
+    ],
+    name: 'unwrapWETH9',
+    outputs: [],
+    stateMutability: 'payable',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'refundETH',
+    outputs: [],
+    stateMutability: 'payable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'value', type: 'uint256' },
+      { name: 'deadline', type: 'uint256' },
+      { name: 'v', type: 'uint8' },
+      { name: 'r', type: 'bytes32' },
+      { name: 's', type: 'bytes32' },
+    ],
+    name: 'selfPermit',
+    outputs: [],
+    stateMutability: 'payable',
+    type: 'function',
+  },
+  {
+    inputs: [{ name: 'data', type: 'bytes[]' }],
+    name: 'multicall',
+    outputs: [{ name: 'results', type: 'bytes[]' }],
+    stateMutability: 'payable',
+    type: 'function',
+  },
+] as const;
+
+const UNIVERSAL_ROUTER_ABI = [
+  {
+    inputs: [
+      { name: 'commands', type: 'bytes' },
+      { name: 'inputs', type: 'bytes[]' },
+      { name: 'deadline', type: 'uint256' },
+    ],
+    name: 'execute',
+    outputs: [],
+    stateMutability: 'payable',
+    type: 'function',
+  },
+] as const;
+
+// Universal Router command bytes and the recipient alias for the router itself
+const UNIVERSAL_ROUTER_COMMANDS = {
+  V3_SWAP_EXACT_IN: '00',
+  V3_SWAP_EXACT_OUT: '01',
+  PERMIT2_PERMIT: '0a',
+  UNWRAP_WETH: '0c',
+} as const;
+
+const UNIVERSAL_ROUTER_ADDRESS_THIS = '0x0000000000000000000000000000000000000002' as Address;
+
+const PERMIT2_PERMIT_PARAMS = [
+  {
+    name: 'permitSingle',
+    type: 'tuple',
+    components: [
+      {
+        name: 'details',
+        type: 'tuple',
+        components: [
+          { name: 'token', type: 'address' },
+          { name: 'amount', type: 'uint160' },
+          { name: 'expiration', type: 'uint48' },
+          { name: 'nonce', type: 'uint48' },
+        ],
+      },
+      { name: 'spender', type: 'address' },
+      { name: 'sigDeadline', type: 'uint256' },
+    ],
+  },
+  { name: 'signature', type: 'bytes' },
+] as const;
+
+const V3_SWAP_PARAMS = [
+  { name: 'recipient', type: 'address' },
+  { name: 'amount', type: 'uint256' },
+  { name: 'amountLimit', type: 'uint256' },
+  { name: 'path', type: 'bytes' },
+  { name: 'payerIsUser', type: 'bool' },
+] as const;
+
+const UNWRAP_WETH_PARAMS = [
+  { name: 'recipient', type: 'address' },
+  { name: 'amountMin', type: 'uint256' },
+] as const;
+
 // =============================================================================
 // DEX SERVICE CLASS
 // =============================================================================
@@ -39,6 +429,8 @@ interface OneInchQuote {
 export class DexService {
   private static instance: DexService;
   private oneInchClient: AxiosInstance;
+  private paraSwapClient: AxiosInstance;
+  private openOceanClient: AxiosInstance;
   private cache: Map<string, { data: any; timestamp: number }> = new Map();
   private readonly CACHE_DURATION = 30 * 1000; // 30 seconds for quotes
   private readonly SUPPORTED_CHAIN_IDS = [1, 137, 56, 42161]; // Ethereum, Polygon, BSC, Arbitrum
@@ -47,7 +439,7 @@ export class DexService {
     // 1inch API client
     this.oneInchClient = axios.create({
       baseURL: 'https://api.1inch.io/v5.0',
-      timeout: 10000,
+      timeout: QUOTE_TIMEOUTS['1inch'],
       headers: {
         'Accept': 'application/json',
         ...(process.env.NEXT_PUBLIC_1INCH_API_KEY && {
@@ -56,6 +448,20 @@ export class DexService {
       }
     });
 
+    // ParaSwap API client
+    this.paraSwapClient = axios.create({
+      baseURL: 'https://apiv5.paraswap.io',
+      timeout: QUOTE_TIMEOUTS['ParaSwap'],
+      headers: { 'Accept': 'application/json' }
+    });
+
+    // OpenOcean API client
+    this.openOceanClient = axios.create({
+      baseURL: 'https://open-api.openocean.finance/v3',
+      timeout: QUOTE_TIMEOUTS['OpenOcean'],
+      headers: { 'Accept': 'application/json' }
+    });
+
     this.setupInterceptors();
   }
 
@@ -101,39 +507,245 @@ export class DexService {
     toToken: Token,
     amount: string,
     slippage: number = 1,
-    chainId: number = 1
+    chainId: number = 1,
+    swapMode: SwapMode = 'ExactIn'
   ): Promise<SwapQuote[]> {
     if (!this.SUPPORTED_CHAIN_IDS.includes(chainId)) {
       throw new Error(`Chain ID ${chainId} not supported`);
     }
 
-    const cacheKey = `quote_${fromToken.address}_${toToken.address}_${amount}_${slippage}_${chainId}`;
+    // Native currency and its wrapped token trade 1:1 through the wrapper contract
+    const wrapQuote = wrapService.getWrapQuote(fromToken, toToken, amount, swapMode, chainId);
+    if (wrapQuote) {
+      return [wrapQuote];
+    }
+
+    const cacheKey = `quote_${fromToken.address}_${toToken.address}_${amount}_${slippage}_${chainId}_${swapMode}`;
     
     // Check cache first
     const cached = this.getCachedData<SwapQuote[]>(cacheKey);
-    if (cached) {
+    if (cached && !cached.some(isQuoteRefreshDue)) {
       return cached;
     }
 
+    // In ExactOut mode `amount` is the desired output; 1inch and OpenOcean
+    // only quote exact-input swaps so they sit those requests out
+    const sources: Array<[QuoteSourceName, Promise<SwapQuote | null>]> = swapMode === 'ExactOut'
+      ? [
+          ['0x', this.get0xQuote(fromToken, toToken, amount, slippage, chainId, swapMode)],
+          ['ParaSwap', this.getParaSwapQuote(fromToken, toToken, amount, slippage, chainId, swapMode)],
+          ['Uniswap V3', this.getUniswapV3Quote(fromToken, toToken, amount, slippage, chainId, swapMode)],
+        ]
+      : [
+          ['1inch', this.get1InchQuote(fromToken, toToken, amount, slippage, chainId)],
+          ['0x', this.get0xQuote(fromToken, toToken, amount, slippage, chainId, swapMode)],
+          ['ParaSwap', this.getParaSwapQuote(fromToken, toToken, amount, slippage, chainId, swapMode)],
+          ['OpenOcean', this.getOpenOceanQuote(fromToken, toToken, amount, slippage, chainId)],
+          ['Uniswap V3', this.getUniswapV3Quote(fromToken, toToken, amount, slippage, chainId, swapMode)],
+        ];
+
+    // Each source gets its own deadline so one slow API can't stall the rest
+    const results = await Promise.allSettled(
+      sources.map(([name, request]) => this.withTimeout(name, request))
+    );
+
     const quotes: SwapQuote[] = [];
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled' && result.value) {
+        quotes.push(result.value);
+      } else if (result.status === 'rejected') {
+        logger.warn(`${sources[index]?.[0]} quote failed:`, result.reason);
+      }
+    });
 
-    try {
-      const oneInchQuote = await this.get1InchQuote(fromToken, toToken, amount, slippage, chainId);
-      if (oneInchQuote) {
-        quotes.push(oneInchQuote);
+    // No source has a route; callers treat an empty list as "no route"
+    if (quotes.length === 0) {
+      return [];
+    }
+
+    const reference = await this.getReferencePrice(fromToken, toToken, quotes, chainId);
+    const measuredQuotes = reference !== null
+      ? quotes.map(quote => withPriceImpact(quote, reference.price, reference.isEstimated))
+      : quotes;
+
+    const rankedQuotes = await this.rankQuotes(measuredQuotes, chainId);
+    this.setCachedData(cacheKey, rankedQuotes);
+    return rankedQuotes;
+  }
+
+  // ==========================================================================
+  // PRICE IMPACT
+  // ==========================================================================
+
+  /**
+   * Mid price (toToken per fromToken) to measure quotes against: a spot
+   * quote for a sliver of the trade, falling back to oracle prices. An
+   * oracle price ignores the pair's own liquidity, so it's flagged as an
+   * estimate.
+   */
+  private async getReferencePrice(
+    fromToken: Token,
+    toToken: Token,
+    quotes: SwapQuote[],
+    chainId: number
+  ): Promise<{ price: number; isEstimated: boolean } | null> {
+    const spotPrice = await this.getSpotPrice(fromToken, toToken, quotes, chainId);
+    if (spotPrice !== null) return { price: spotPrice, isEstimated: false };
+
+    const [fromPrice, toPrice] = await Promise.all([
+      this.getUsdPrice(fromToken.symbol, fromToken.price),
+      this.getUsdPrice(toToken.symbol, toToken.price),
+    ]);
+
+    return fromPrice !== null && toPrice !== null
+      ? { price: fromPrice / toPrice, isEstimated: true }
+      : null;
+  }
+
+  private async getSpotPrice(
+    fromToken: Token,
+    toToken: Token,
+    quotes: SwapQuote[],
+    chainId: number
+  ): Promise<number | null> {
+    const tradeSize = quotes[0]?.fromAmount;
+    if (!tradeSize) return null;
+
+    // 0.1% of the trade is small enough to sit at the top of the book
+    const probeAmount = parseAmount(tradeSize, fromToken.decimals) / BigInt(1000);
+    if (probeAmount === BigInt(0)) return null;
+
+    // Only sources that quoted the pair can price it, so routes that exist
+    // off Uniswap are probed through the aggregators that found them
+    const probeSize = formatAmount(probeAmount, fromToken.decimals);
+    const sources = SPOT_PRICE_SOURCES.filter(source => quotes.some(quote => quote.aggregator === source));
+
+    for (const source of sources) {
+      try {
+        const probe = await this.withTimeout(
+          source,
+          this.getProbeQuote(source, fromToken, toToken, probeSize, chainId)
+        );
+        if (probe && probe.price > 0) return probe.price;
+      } catch (error) {
+        logger.warn(`${source} spot price probe failed:`, error);
       }
+    }
+    return null;
+  }
+
+  private getProbeQuote(
+    source: QuoteSourceName,
+    fromToken: Token,
+    toToken: Token,
+    amount: string,
+    chainId: number
+  ): Promise<SwapQuote | null> {
+    switch (source) {
+      case '1inch':
+        return this.get1InchQuote(fromToken, toToken, amount, 0, chainId);
+      case '0x':
+        return this.get0xQuote(fromToken, toToken, amount, 0, chainId, 'ExactIn');
+      case 'ParaSwap':
+        return this.getParaSwapQuote(fromToken, toToken, amount, 0, chainId, 'ExactIn');
+      case 'OpenOcean':
+        return this.getOpenOceanQuote(fromToken, toToken, amount, 0, chainId);
+      case 'Uniswap V3':
+        return this.getUniswapV3Quote(fromToken, toToken, amount, 0, chainId, 'ExactIn');
+    }
+  }
+
+  // ==========================================================================
+  // QUOTE RANKING
+  // ==========================================================================
 
-      // Sort by best price (highest output amount)
-      quotes.sort((a, b) => parseFloat(b.toAmount) - parseFloat(a.toAmount));
+  private async rankQuotes(quotes: SwapQuote[], chainId: number): Promise<SwapQuote[]> {
+    const firstQuote = quotes[0];
+    if (!firstQuote) return quotes;
 
-      this.setCachedData(cacheKey, quotes);
-      return quotes;
+    // Exact-in quotes compete on what they deliver, exact-out quotes on what
+    // they cost; either way the side that varies is the one we value
+    const isExactOut = firstQuote.swapMode === 'ExactOut';
+    const valuedToken = isExactOut ? firstQuote.fromToken : firstQuote.toToken;
+    const nativeSymbol = NATIVE_CURRENCY[chainId]?.symbol || 'ETH';
+
+    const [gasPrice, nativePrice, tokenPrice] = await Promise.all([
+      this.getGasPrice(chainId),
+      this.getUsdPrice(nativeSymbol),
+      this.getUsdPrice(valuedToken.symbol, valuedToken.price),
+    ]);
+
+    // Without a token price there's nothing to net gas against, so fall
+    // back to ranking by raw amounts
+    if (tokenPrice === null) {
+      return [...quotes].sort((a, b) => isExactOut
+        ? parseFloat(a.fromAmount) - parseFloat(b.fromAmount)
+        : parseFloat(b.toAmount) - parseFloat(a.toAmount)
+      );
+    }
+
+    const valuedQuotes = quotes.map(quote => {
+      const grossValueUSD = parseFloat(isExactOut ? quote.fromAmount : quote.toAmount) * tokenPrice;
+      const gasCostUSD = gasPrice !== null && nativePrice !== null
+        ? this.calculateGasCostUSD(quote.gasEstimate, gasPrice, nativePrice)
+        : 0;
+
+      return {
+        ...quote,
+        grossValueUSD,
+        gasCostUSD,
+        // For exact-out this is the all-in cost of the swap
+        netValueUSD: isExactOut ? grossValueUSD + gasCostUSD : grossValueUSD - gasCostUSD,
+      };
+    });
+
+    return valuedQuotes.sort((a, b) => isExactOut
+      ? a.netValueUSD - b.netValueUSD
+      : b.netValueUSD - a.netValueUSD
+    );
+  }
+
+  private calculateGasCostUSD(gasEstimate: string, gasPrice: bigint, nativePrice: number): number {
+    const gasUnits = parseAmount(gasEstimate || '0', 0, 'up');
+    return toNumber(gasUnits * gasPrice, 18) * nativePrice;
+  }
+
+  private async getUsdPrice(symbol: string, knownPrice?: number): Promise<number | null> {
+    if (knownPrice !== undefined && knownPrice > 0) {
+      return knownPrice;
+    }
+
+    try {
+      const priceData = await pricingService.getTokenPrice(symbol);
+      return priceData.price > 0 ? priceData.price : null;
     } catch (error) {
-      console.error('Failed to fetch swap quotes:', error);
-      throw new Error('Unable to fetch swap quotes');
+      logger.warn(`Failed to get ${symbol} price for quote ranking:`, error);
+      return null;
     }
   }
 
+  private withTimeout<T>(source: QuoteSourceName, request: Promise<T>): Promise<T> {
+    const timeout = QUOTE_TIMEOUTS[source];
+
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(
+        () => reject(new Error(`${source} quote timed out after ${timeout}ms`)),
+        timeout
+      );
+
+      request.then(
+        value => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        error => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      );
+    });
+  }
+
   // ==========================================================================
   // 1INCH INTEGRATION
   // ==========================================================================
@@ -148,9 +760,9 @@ export class DexService {
     try {
       const response = await this.oneInchClient.get(`/${chainId}/quote`, {
         params: {
-          fromTokenAddress: fromToken.address,
-          toTokenAddress: toToken.address,
-          amount: this.parseTokenAmount(amount, fromToken.decimals),
+          fromTokenAddress: this.toAggregatorAddress(fromToken.address),
+          toTokenAddress: this.toAggregatorAddress(toToken.address),
+          amount: parseAmount(amount, fromToken.decimals).toString(),
           fee: 0,
           gasLimit: 750000,
           connectorTokens: this.getConnectorTokens(chainId),
@@ -162,62 +774,1052 @@ export class DexService {
 
       const quote: OneInchQuote = response.data;
       
-      const routes: RouteStep[] = quote.protocols.map(protocol => ({
-        protocol: protocol.name,
-        poolAddress: protocol.fromTokenAddress as Address,
-        percentage: protocol.part,
-        tokenIn: fromToken,
-        tokenOut: toToken,
-      }));
+      const resolveToken = this.getRouteTokenResolver(fromToken, toToken);
+      const hopShare = (hop: Array<{ part: number }>) => hop.reduce((sum, protocol) => sum + protocol.part, 0);
+
+      // Parts are relative within each hop; weight each path by its first hop
+      const pathWeights = quote.protocols.map(path => (path[0] ? hopShare(path[0]) : 0));
+      const totalWeight = pathWeights.reduce((sum, weight) => sum + weight, 0) || 1;
+
+      const routes: RouteStep[] = quote.protocols.flatMap((path, pathIndex) =>
+        path.flatMap((hop, hopIndex) => {
+          const hopTotal = hopShare(hop) || 1;
+          const pathPercentage = ((pathWeights[pathIndex] ?? 0) / totalWeight) * 100;
 
-      const priceImpact = this.calculatePriceImpact(
-        parseFloat(amount),
-        parseFloat(this.formatTokenAmount(quote.toTokenAmount, toToken.decimals))
+          return hop.map(protocol => ({
+            protocol: protocol.name,
+            poolAddress: ZERO_ADDRESS, // 1inch doesn't expose pool addresses
+            percentage: (pathPercentage * protocol.part) / hopTotal,
+            tokenIn: resolveToken(protocol.fromTokenAddress),
+            tokenOut: resolveToken(protocol.toTokenAddress),
+            pathIndex,
+            hopIndex,
+          }));
+        })
       );
 
-      return {
-        id: `1inch_${Date.now()}`,
+      return this.normalizeQuote(
+        '1inch',
         fromToken,
         toToken,
-        fromAmount: amount,
-        toAmount: this.formatTokenAmount(quote.toTokenAmount, toToken.decimals),
-        price: parseFloat(quote.toTokenAmount) / parseFloat(amount),
-        priceImpact,
-        gasEstimate: quote.estimatedGas.toString(),
-        route: routes,
-        aggregator: '1inch',
+        amount,
+        formatAmount(quote.toTokenAmount, toToken.decimals),
+        quote.estimatedGas.toString(),
+        routes,
         slippage,
-        validUntil: new Date(Date.now() + 30000), // 30 seconds
-      };
+        'ExactIn',
+        chainId
+      );
+    } catch (error) {
+      logger.warn('1inch quote failed:', error);
+      return null;
+    }
+  }
+
+  // ==========================================================================
+  // 0X INTEGRATION
+  // ==========================================================================
+
+  private async get0xQuote(
+    fromToken: Token,
+    toToken: Token,
+    amount: string,
+    slippage: number,
+    chainId: number,
+    swapMode: SwapMode
+  ): Promise<SwapQuote | null> {
+    const baseURL = ZERO_EX_BASE_URLS[chainId];
+    if (!baseURL) return null;
+
+    try {
+      const response = await axios.get(`${baseURL}/swap/v1/price`, {
+        timeout: QUOTE_TIMEOUTS['0x'],
+        params: {
+          sellToken: this.toAggregatorAddress(fromToken.address),
+          buyToken: this.toAggregatorAddress(toToken.address),
+          ...(swapMode === 'ExactOut'
+            ? { buyAmount: parseAmount(amount, toToken.decimals).toString() }
+            : { sellAmount: parseAmount(amount, fromToken.decimals).toString() }),
+          slippagePercentage: slippage / 100,
+        },
+        headers: this.getZeroExHeaders()
+      });
+
+      const quote: ZeroExPrice = response.data;
+
+      const routes: RouteStep[] = quote.sources
+        .filter(source => parseFloat(source.proportion) > 0)
+        .map(source => ({
+          protocol: source.name,
+          poolAddress: ZERO_ADDRESS,
+          percentage: parseFloat(source.proportion) * 100,
+          tokenIn: fromToken,
+          tokenOut: toToken,
+          // The price endpoint only reports liquidity sources, not their hops
+          pathIndex: 0,
+          hopIndex: 0,
+        }));
+
+      return this.normalizeQuote(
+        '0x',
+        fromToken,
+        toToken,
+        formatAmount(quote.sellAmount, fromToken.decimals),
+        formatAmount(quote.buyAmount, toToken.decimals),
+        quote.estimatedGas,
+        routes,
+        slippage,
+        swapMode,
+        chainId
+      );
+    } catch (error) {
+      logger.warn('0x quote failed:', error);
+      return null;
+    }
+  }
+
+  // ==========================================================================
+  // PARASWAP INTEGRATION
+  // ==========================================================================
+
+  private async getParaSwapQuote(
+    fromToken: Token,
+    toToken: Token,
+    amount: string,
+    slippage: number,
+    chainId: number,
+    swapMode: SwapMode
+  ): Promise<SwapQuote | null> {
+    if (!PARASWAP_NETWORKS.includes(chainId)) return null;
+
+    try {
+      const priceRoute = await this.getParaSwapPriceRoute(fromToken, toToken, amount, chainId, swapMode);
+
+      const resolveToken = this.getRouteTokenResolver(fromToken, toToken);
+
+      const routes: RouteStep[] = priceRoute.bestRoute.flatMap((route, pathIndex) =>
+        route.swaps.flatMap((swap, hopIndex) => {
+          const tokenIn = resolveToken(swap.srcToken, swap.srcDecimals);
+          const tokenOut = resolveToken(swap.destToken, swap.destDecimals);
+
+          return swap.swapExchanges.map(exchange => ({
+            protocol: exchange.exchange,
+            poolAddress: (exchange.poolAddresses?.[0] || ZERO_ADDRESS) as Address,
+            percentage: (route.percent * exchange.percent) / 100,
+            tokenIn,
+            tokenOut,
+            amountIn: formatAmount(exchange.srcAmount, swap.srcDecimals),
+            amountOut: formatAmount(exchange.destAmount, swap.destDecimals),
+            pathIndex,
+            hopIndex,
+          }));
+        })
+      );
+
+      return this.normalizeQuote(
+        'ParaSwap',
+        fromToken,
+        toToken,
+        formatAmount(priceRoute.srcAmount, fromToken.decimals),
+        formatAmount(priceRoute.destAmount, toToken.decimals),
+        priceRoute.gasCost,
+        routes,
+        slippage,
+        swapMode,
+        chainId
+      );
     } catch (error) {
-      console.warn('1inch quote failed:', error);
+      logger.warn('ParaSwap quote failed:', error);
       return null;
     }
   }
 
+  private async getParaSwapPriceRoute(
+    fromToken: Token,
+    toToken: Token,
+    amount: string,
+    chainId: number,
+    swapMode: SwapMode
+  ): Promise<ParaSwapPriceResponse['priceRoute']> {
+    const isExactOut = swapMode === 'ExactOut';
+
+    const response = await this.paraSwapClient.get('/prices', {
+      params: {
+        srcToken: this.toAggregatorAddress(fromToken.address),
+        destToken: this.toAggregatorAddress(toToken.address),
+        srcDecimals: fromToken.decimals,
+        destDecimals: toToken.decimals,
+        amount: isExactOut
+          ? parseAmount(amount, toToken.decimals).toString()
+          : parseAmount(amount, fromToken.decimals).toString(),
+        side: isExactOut ? 'BUY' : 'SELL',
+        network: chainId,
+      }
+    });
+
+    const { priceRoute }: ParaSwapPriceResponse = response.data;
+    return priceRoute;
+  }
+
+  // ==========================================================================
+  // OPENOCEAN INTEGRATION
+  // ==========================================================================
+
+  private async getOpenOceanQuote(
+    fromToken: Token,
+    toToken: Token,
+    amount: string,
+    slippage: number,
+    chainId: number
+  ): Promise<SwapQuote | null> {
+    const chainCode = OPENOCEAN_CHAIN_CODES[chainId];
+    if (!chainCode) return null;
+
+    try {
+      const gasPrice = await this.getGasPriceGwei(chainId);
+
+      // OpenOcean takes the input amount in token units rather than wei
+      const response = await this.openOceanClient.get(`/${chainCode}/quote`, {
+        params: {
+          inTokenAddress: this.toAggregatorAddress(fromToken.address),
+          outTokenAddress: this.toAggregatorAddress(toToken.address),
+          amount,
+          gasPrice,
+          slippage,
+        }
+      });
+
+      const quote: OpenOceanQuoteResponse = response.data;
+      if (quote.code !== 200) {
+        throw new Error(`OpenOcean responded with code ${quote.code}`);
+      }
+
+      const resolveToken = this.getRouteTokenResolver(fromToken, toToken);
+
+      const routes: RouteStep[] = (quote.data.path?.routes || []).flatMap((route, pathIndex) =>
+        route.subRoutes.flatMap((subRoute, hopIndex) =>
+          subRoute.dexes.map(dex => ({
+            protocol: dex.dex,
+            poolAddress: ZERO_ADDRESS,
+            percentage: (route.percentage * dex.percentage) / 100,
+            tokenIn: resolveToken(subRoute.from),
+            tokenOut: resolveToken(subRoute.to),
+            pathIndex,
+            hopIndex,
+          }))
+        )
+      );
+
+      return this.normalizeQuote(
+        'OpenOcean',
+        fromToken,
+        toToken,
+        amount,
+        formatAmount(quote.data.outAmount, toToken.decimals),
+        quote.data.estimatedGas,
+        routes,
+        slippage,
+        'ExactIn',
+        chainId
+      );
+    } catch (error) {
+      logger.warn('OpenOcean quote failed:', error);
+      return null;
+    }
+  }
+
+  // ==========================================================================
+  // UNISWAP V3 QUOTER
+  // ==========================================================================
+
+  private async getUniswapV3Quote(
+    fromToken: Token,
+    toToken: Token,
+    amount: string,
+    slippage: number,
+    chainId: number,
+    swapMode: SwapMode
+  ): Promise<SwapQuote | null> {
+    const quoter = UNISWAP_V3_QUOTERS[chainId];
+    const client = portfolioService.getPublicClient(chainId);
+    const tokenIn = this.toWrappedAddress(fromToken.address, chainId);
+    const tokenOut = this.toWrappedAddress(toToken.address, chainId);
+    if (!quoter || !client || !tokenIn || !tokenOut) return null;
+
+    const isExactOut = swapMode === 'ExactOut';
+    const specifiedAmount = isExactOut
+      ? parseAmount(amount, toToken.decimals)
+      : parseAmount(amount, fromToken.decimals);
+
+    // Quote every fee tier directly against the quoter and keep the best pool
+    const tierResults = await Promise.allSettled(
+      UNISWAP_V3_FEE_TIERS.map(async fee => {
+        if (isExactOut) {
+          const { result } = await client.simulateContract({
+            address: quoter,
+            abi: UNISWAP_V3_QUOTER_ABI,
+            functionName: 'quoteExactOutputSingle',
+            args: [{ tokenIn, tokenOut, amount: specifiedAmount, fee, sqrtPriceLimitX96: BigInt(0) }],
+          });
+          const [amountIn, , , gasEstimate] = result;
+          return { fee, amountIn, amountOut: specifiedAmount, gasEstimate };
+        }
+
+        const { result } = await client.simulateContract({
+          address: quoter,
+          abi: UNISWAP_V3_QUOTER_ABI,
+          functionName: 'quoteExactInputSingle',
+          args: [{ tokenIn, tokenOut, amountIn: specifiedAmount, fee, sqrtPriceLimitX96: BigInt(0) }],
+        });
+        const [amountOut, , , gasEstimate] = result;
+        return { fee, amountIn: specifiedAmount, amountOut, gasEstimate };
+      })
+    );
+
+    let best: { fee: number; amountIn: bigint; amountOut: bigint; gasEstimate: bigint } | null = null;
+    for (const tierResult of tierResults) {
+      if (tierResult.status !== 'fulfilled') continue;
+      const candidate = tierResult.value;
+      const isBetter = !best || (isExactOut
+        ? candidate.amountIn < best.amountIn
+        : candidate.amountOut > best.amountOut);
+      if (isBetter) {
+        best = candidate;
+      }
+    }
+
+    if (!best || best.amountOut === BigInt(0) || best.amountIn === BigInt(0)) {
+      return null;
+    }
+
+    const routes: RouteStep[] = [{
+      protocol: `Uniswap V3 ${best.fee / 10000}%`,
+      poolAddress: ZERO_ADDRESS,
+      percentage: 100,
+      tokenIn: fromToken,
+      tokenOut: toToken,
+      amountIn: formatAmount(best.amountIn, fromToken.decimals),
+      amountOut: formatAmount(best.amountOut, toToken.decimals),
+      fee: best.fee,
+      pathIndex: 0,
+      hopIndex: 0,
+    }];
+
+    return this.normalizeQuote(
+      'Uniswap V3',
+      fromToken,
+      toToken,
+      formatAmount(best.amountIn, fromToken.decimals),
+      formatAmount(best.amountOut, toToken.decimals),
+      best.gasEstimate.toString(),
+      routes,
+      slippage,
+      swapMode,
+      chainId
+    );
+  }
+
+  // ==========================================================================
+  // QUOTE NORMALIZATION
+  // ==========================================================================
+
+  private normalizeQuote(
+    aggregator: string,
+    fromToken: Token,
+    toToken: Token,
+    fromAmount: string,
+    toAmount: string,
+    gasEstimate: string,
+    routes: RouteStep[],
+    slippage: number,
+    swapMode: SwapMode,
+    chainId: number
+  ): SwapQuote {
+    return {
+      id: `${aggregator.toLowerCase().replace(/\s+/g, '_')}_${Date.now()}`,
+      fromToken,
+      toToken,
+      fromAmount,
+      toAmount,
+      price: parseFloat(toAmount) / parseFloat(fromAmount),
+      priceImpact: 0, // Measured against the reference price once all quotes are in
+      gasEstimate,
+      route: routes,
+      aggregator,
+      slippage,
+      swapMode,
+      chainId,
+      validUntil: getQuoteValidUntil(),
+    };
+  }
+
+  // ==========================================================================
+  // ALLOWANCES & APPROVALS
+  // ==========================================================================
+
+  async getAllowance(token: Token, owner: Address, spender: Address, chainId: number): Promise<bigint> {
+    // Native currency is sent as value and never needs an allowance
+    if (token.address === ZERO_ADDRESS) {
+      return maxUint256;
+    }
+
+    try {
+      return await readContract({
+        address: token.address,
+        abi: erc20ABI,
+        functionName: 'allowance',
+        args: [owner, spender],
+        chainId,
+      });
+    } catch (error) {
+      logger.error(`Failed to read ${token.symbol} allowance:`, error);
+      throw new Error('Unable to check token allowance');
+    }
+  }
+
+  async approveToken(token: Token, spender: Address, amount: bigint, chainId: number): Promise<Hash> {
+    try {
+      const { hash } = await writeContract({
+        address: token.address,
+        abi: erc20ABI,
+        functionName: 'approve',
+        args: [spender, amount],
+        chainId,
+      });
+
+      const receipt = await waitForTransaction({ hash, chainId });
+      if (receipt.status !== 'success') {
+        throw new Error(`Approval transaction ${hash} reverted`);
+      }
+
+      return hash;
+    } catch (error) {
+      logger.error(`Failed to approve ${token.symbol}:`, error);
+      throw new Error(`Unable to approve ${token.symbol}`);
+    }
+  }
+
+  /**
+   * Approve the quote's router for the input token if the current allowance
+   * doesn't cover the swap. Returns the approval hash, or null if none was needed.
+   */
+  async ensureAllowance(
+    quote: SwapQuote,
+    owner: Address,
+    approvalMode: ApprovalMode = 'exact'
+  ): Promise<Hash | null> {
+    const chainId = this.getQuoteChainId(quote);
+    // Unwrapping burns from the caller's own balance
+    if (wrapService.isWrapQuote(quote)) {
+      return null;
+    }
+
+    const spender = this.getRouterAddress(quote, 'spender');
+    if (!spender) {
+      throw new Error(`No ${quote.aggregator} router configured for chain ${chainId}`);
+    }
+
+    const { fromToken } = quote;
+    const required = this.getMaximumInput(quote);
+    const allowance = await this.getAllowance(fromToken, owner, spender, chainId);
+    if (allowance >= required) {
+      return null;
+    }
+
+    return this.setAllowance(
+      fromToken,
+      spender,
+      approvalMode === 'unlimited' ? maxUint256 : required,
+      allowance,
+      chainId
+    );
+  }
+
+  /**
+   * Change an allowance to exactly `amount`. Tokens that won't move one
+   * non-zero allowance to another are reset to zero first.
+   */
+  async setAllowance(
+    token: Token,
+    spender: Address,
+    amount: bigint,
+    currentAllowance: bigint,
+    chainId: number
+  ): Promise<Hash> {
+    if (amount > BigInt(0) && currentAllowance > BigInt(0) && RESET_ALLOWANCE_SYMBOLS.includes(token.symbol)) {
+      await this.approveToken(token, spender, BigInt(0), chainId);
+    }
+
+    return this.approveToken(token, spender, amount, chainId);
+  }
+
+  /**
+   * Sign a permit instead of sending an approve transaction when the token
+   * and the quote's router support one. Returns null if an allowance is
+   * already in place or no signature route exists.
+   */
+  async getSignedApproval(
+    quote: SwapQuote,
+    owner: Address,
+    approvalMode: ApprovalMode = 'exact'
+  ): Promise<SignedPermit | null> {
+    const chainId = this.getQuoteChainId(quote);
+    const spender = this.getRouterAddress(quote, 'spender');
+    const source = quote.aggregator as QuoteSourceName;
+    if (!spender || quote.fromToken.address === ZERO_ADDRESS) return null;
+
+    const required = this.getMaximumInput(quote);
+    const allowance = await this.getAllowance(quote.fromToken, owner, spender, chainId);
+    if (allowance >= required) return null;
+
+    const spenders: Partial<Record<PermitType, Address>> = {};
+    if (EIP2612_PERMIT_SOURCES.includes(source) &&
+        (source !== 'ParaSwap' || await this.isParaSwapSpender(spender, chainId))) {
+      spenders.eip2612 = spender;
+    }
+    const universalRouter = DEX_ROUTERS[chainId]?.UNISWAP_UNIVERSAL_ROUTER;
+    if (source === 'Uniswap V3' && universalRouter) {
+      spenders.permit2 = universalRouter as Address;
+    }
+
+    return permitService.signPermit(quote.fromToken, owner, spenders, required, chainId, approvalMode);
+  }
+
+  /**
+   * Whether ParaSwap's API names `spender` as the network's TokenTransferProxy.
+   * A permit for any other address would be unusable, so without confirmation
+   * the swap falls back to an approve transaction.
+   */
+  private async isParaSwapSpender(spender: Address, chainId: number): Promise<boolean> {
+    const cacheKey = `paraswap_spender_${chainId}`;
+    let proxy = this.getCachedData<string>(cacheKey);
+
+    if (!proxy) {
+      try {
+        const response = await this.paraSwapClient.get('/adapters/contracts', {
+          params: { network: chainId },
+        });
+        proxy = (response.data as ParaSwapContractsResponse).TokenTransferProxy;
+        this.setCachedData(cacheKey, proxy);
+      } catch (error) {
+        logger.warn('ParaSwap contracts lookup failed:', error);
+        return false;
+      }
+    }
+
+    return !!proxy && proxy.toLowerCase() === spender.toLowerCase();
+  }
+
+  // ==========================================================================
+  // SWAP EXECUTION
+  // ==========================================================================
+
+  async buildSwapTransaction(
+    quote: SwapQuote,
+    account: Address,
+    permit: SignedPermit | null = null
+  ): Promise<SwapTransaction> {
+    const chainId = this.getQuoteChainId(quote);
+    if (wrapService.isWrapQuote(quote)) {
+      return wrapService.buildEvmTransaction(quote);
+    }
+
+    // A Permit2 approval names the Universal Router as its spender
+    const router = permit?.type === 'permit2' ? permit.spender : this.getRouterAddress(quote, 'router');
+    if (!router) {
+      throw new Error(`No ${quote.aggregator} router configured for chain ${chainId}`);
+    }
+
+    if (permit && permitService.isPermitExpired(permit)) {
+      throw new Error('Signed approval has expired, please sign again');
+    }
+
+    let transaction: SwapTransaction;
+    try {
+      switch (quote.aggregator as QuoteSourceName) {
+        case '1inch':
+          transaction = await this.build1InchSwap(quote, account, chainId, permit);
+          break;
+        case '0x':
+          transaction = await this.build0xSwap(quote, account, chainId);
+          break;
+        case 'ParaSwap':
+          transaction = await this.buildParaSwapSwap(quote, account, chainId, permit);
+          break;
+        case 'OpenOcean':
+          transaction = await this.buildOpenOceanSwap(quote, account, chainId);
+          break;
+        case 'Uniswap V3':
+          transaction = permit?.type === 'permit2'
+            ? this.buildUniversalRouterSwap(quote, account, chainId, router, permit)
+            : this.buildUniswapV3Swap(quote, account, chainId, router, permit);
+          break;
+        default:
+          throw new Error(`Unsupported aggregator: ${quote.aggregator}`);
+      }
+    } catch (error) {
+      logger.error(`Failed to build ${quote.aggregator} swap:`, error);
+      throw new Error('Unable to build swap transaction');
+    }
+
+    // The allowance was granted to a known router, so never sign a swap
+    // pointed anywhere else
+    if (transaction.to.toLowerCase() !== router.toLowerCase()) {
+      throw new Error(`${quote.aggregator} returned an unexpected router address`);
+    }
+
+    return transaction;
+  }
+
+  /**
+   * Dry-run the swap as it would be sent now, along with the approval it
+   * still needs. A preview doesn't ask for a permit signature, so the
+   * approval is simulated as an on-chain approve in its place.
+   */
+  async simulateSwap(
+    quote: SwapQuote,
+    account: Address,
+    approvalMode: ApprovalMode = 'exact'
+  ): Promise<SimulationResult> {
+    const chainId = this.getQuoteChainId(quote);
+    const spender = this.getRouterAddress(quote, 'spender');
+    const required = this.getMaximumInput(quote);
+
+    const allowance = spender ? await this.getAllowance(quote.fromToken, account, spender, chainId) : maxUint256;
+    const transaction = await this.buildSwapTransaction(quote, account);
+
+    return simulationService.simulateEvmTransaction({
+      chainId,
+      account,
+      transaction,
+      ...(spender && allowance < required && {
+        approval: {
+          token: quote.fromToken.address,
+          spender,
+          amount: approvalMode === 'unlimited' ? maxUint256 : required,
+        },
+      }),
+      tokens: [quote.fromToken, quote.toToken],
+    });
+  }
+
+  /**
+   * Approve (by signature where possible, otherwise on-chain), build and send
+   * the swap through the connected wallet, priced at `gasSpeed`. The swap
+   * is simulated first and never sent if it would revert. A private
+   * `submission` goes to a relay instead of the public mempool. Resolves
+   * with the swap transaction hash once submitted.
+   */
+  async executeSwap(
+    quote: SwapQuote,
+    account: Address,
+    approvalMode: ApprovalMode = 'exact',
+    gasSpeed: GasSpeed = 'standard',
+    submission: SubmissionOptions = { strategy: 'public' }
+  ): Promise<Hash> {
+    if (isQuoteExpired(quote)) {
+      throw new Error('Quote has expired; requote before swapping');
+    }
+
+    const chainId = this.getQuoteChainId(quote);
+
+    if (getNetwork().chain?.id !== chainId) {
+      await switchNetwork({ chainId });
+    }
+
+    const permit = await this.getSignedApproval(quote, account, approvalMode);
+    if (!permit) {
+      await this.ensureAllowance(quote, account, approvalMode);
+    }
+
+    const transaction = await this.buildSwapTransaction(quote, account, permit);
+
+    // Approvals are settled by now, so this is exactly what the wallet would sign
+    const simulation = await simulationService.simulateEvmTransaction({
+      chainId,
+      account,
+      transaction,
+      tokens: [quote.fromToken, quote.toToken],
+    });
+    if (!simulation.success) {
+      throw new Error(`Swap would fail: ${simulation.error || 'transaction reverted in simulation'}`);
+    }
+
+    const fees = await gasService.getTransactionFees(chainId, gasSpeed);
+
+    try {
+      return await submissionService.submitTransaction({
+        chainId,
+        account,
+        to: transaction.to,
+        data: transaction.data,
+        value: transaction.value,
+        fees,
+        ...(transaction.gas !== undefined ? { gas: transaction.gas } : {}),
+      }, submission);
+    } catch (error) {
+      logger.error(`Failed to send swap transaction (${submission.strategy}):`, error);
+      throw error;
+    }
+  }
+
+  private async build1InchSwap(
+    quote: SwapQuote,
+    account: Address,
+    chainId: number,
+    permit: SignedPermit | null
+  ): Promise<SwapTransaction> {
+    const response = await this.oneInchClient.get(`/${chainId}/swap`, {
+      params: {
+        fromTokenAddress: this.toAggregatorAddress(quote.fromToken.address),
+        toTokenAddress: this.toAggregatorAddress(quote.toToken.address),
+        amount: parseAmount(quote.fromAmount, quote.fromToken.decimals).toString(),
+        fromAddress: account,
+        slippage: quote.slippage,
+        disableEstimate: true,
+        ...(permit && { permit: permitService.encodeEip2612Permit(permit) }),
+      }
+    });
+
+    const { tx }: OneInchSwapResponse = response.data;
+    return this.toSwapTransaction(tx.to, tx.data, tx.value, tx.gas);
+  }
+
+  private async build0xSwap(quote: SwapQuote, account: Address, chainId: number): Promise<SwapTransaction> {
+    const baseURL = ZERO_EX_BASE_URLS[chainId];
+    if (!baseURL) {
+      throw new Error(`0x does not support chain ${chainId}`);
+    }
+
+    const response = await axios.get(`${baseURL}/swap/v1/quote`, {
+      timeout: QUOTE_TIMEOUTS['0x'],
+      params: {
+        sellToken: this.toAggregatorAddress(quote.fromToken.address),
+        buyToken: this.toAggregatorAddress(quote.toToken.address),
+        ...(quote.swapMode === 'ExactOut'
+          ? { buyAmount: parseAmount(quote.toAmount, quote.toToken.decimals).toString() }
+          : { sellAmount: parseAmount(quote.fromAmount, quote.fromToken.decimals).toString() }),
+        slippagePercentage: quote.slippage / 100,
+        takerAddress: account,
+      },
+      headers: this.getZeroExHeaders()
+    });
+
+    const swap: ZeroExQuote = response.data;
+    return this.toSwapTransaction(swap.to, swap.data, swap.value, swap.gas);
+  }
+
+  private async buildParaSwapSwap(
+    quote: SwapQuote,
+    account: Address,
+    chainId: number,
+    permit: SignedPermit | null
+  ): Promise<SwapTransaction> {
+    const swapMode = quote.swapMode || 'ExactIn';
+    const isExactOut = swapMode === 'ExactOut';
+
+    // The transaction builder needs the full price route, which quotes don't keep
+    const priceRoute = await this.getParaSwapPriceRoute(
+      quote.fromToken,
+      quote.toToken,
+      isExactOut ? quote.toAmount : quote.fromAmount,
+      chainId,
+      swapMode
+    );
+
+    const response = await this.paraSwapClient.post(
+      `/transactions/${chainId}`,
+      {
+        srcToken: this.toAggregatorAddress(quote.fromToken.address),
+        destToken: this.toAggregatorAddress(quote.toToken.address),
+        srcDecimals: quote.fromToken.decimals,
+        destDecimals: quote.toToken.decimals,
+        // With slippage set, ParaSwap takes only the fixed side of the trade
+        ...(isExactOut
+          ? { destAmount: priceRoute.destAmount }
+          : { srcAmount: priceRoute.srcAmount }),
+        slippage: Number(percentToBps(quote.slippage)),
+        priceRoute,
+        userAddress: account,
+        ...(permit && { permit: permitService.encodeEip2612Permit(permit) }),
+      },
+      { params: { ignoreChecks: true } }
+    );
+
+    const swap: ParaSwapTransactionResponse = response.data;
+    return this.toSwapTransaction(swap.to, swap.data, swap.value, swap.gas);
+  }
+
+  private async buildOpenOceanSwap(quote: SwapQuote, account: Address, chainId: number): Promise<SwapTransaction> {
+    const chainCode = OPENOCEAN_CHAIN_CODES[chainId];
+    if (!chainCode) {
+      throw new Error(`OpenOcean does not support chain ${chainId}`);
+    }
+
+    const gasPrice = await this.getGasPriceGwei(chainId);
+    const response = await this.openOceanClient.get(`/${chainCode}/swap_quote`, {
+      params: {
+        inTokenAddress: this.toAggregatorAddress(quote.fromToken.address),
+        outTokenAddress: this.toAggregatorAddress(quote.toToken.address),
+        amount: quote.fromAmount,
+        gasPrice,
+        slippage: quote.slippage,
+        account,
+      }
+    });
+
+    const swap: OpenOceanSwapResponse = response.data;
+    if (swap.code !== 200) {
+      throw new Error(`OpenOcean responded with code ${swap.code}`);
+    }
+
+    return this.toSwapTransaction(swap.data.to, swap.data.data, swap.data.value, swap.data.estimatedGas);
+  }
+
+  private buildUniswapV3Swap(
+    quote: SwapQuote,
+    account: Address,
+    chainId: number,
+    router: Address,
+    permit: SignedPermit | null
+  ): SwapTransaction {
+    const fee = quote.route[0]?.fee;
+    const tokenIn = this.toWrappedAddress(quote.fromToken.address, chainId);
+    const tokenOut = this.toWrappedAddress(quote.toToken.address, chainId);
+    if (fee === undefined || !tokenIn || !tokenOut) {
+      throw new Error('Uniswap V3 quote is missing its pool');
+    }
+
+    const isExactOut = quote.swapMode === 'ExactOut';
+    const isNativeIn = quote.fromToken.address === ZERO_ADDRESS;
+    const isNativeOut = quote.toToken.address === ZERO_ADDRESS;
+
+    const amountIn = parseAmount(quote.fromAmount, quote.fromToken.decimals);
+    const amountOut = parseAmount(quote.toAmount, quote.toToken.decimals);
+    const amountInMaximum = applySlippage(amountIn, quote.slippage, 'max');
+    const amountOutMinimum = applySlippage(amountOut, quote.slippage, 'min');
+    const deadline = BigInt(Math.floor(Date.now() / 1000) + SWAP_DEADLINE_SECONDS);
+
+    // Native output lands in the router as WETH and is unwrapped to the user
+    const recipient = isNativeOut ? router : account;
+
+    const swapCall = isExactOut
+      ? encodeFunctionData({
+          abi: UNISWAP_V3_ROUTER_ABI,
+          functionName: 'exactOutputSingle',
+          args: [{ tokenIn, tokenOut, fee, recipient, deadline, amountOut, amountInMaximum, sqrtPriceLimitX96: BigInt(0) }],
+        })
+      : encodeFunctionData({
+          abi: UNISWAP_V3_ROUTER_ABI,
+          functionName: 'exactInputSingle',
+          args: [{ tokenIn, tokenOut, fee, recipient, deadline, amountIn, amountOutMinimum, sqrtPriceLimitX96: BigInt(0) }],
+        });
+
+    const calls: Hex[] = [swapCall];
+    if (permit) {
+      // SwapRouter redeems the permit itself before pulling the input
+      const { v, r, s } = permitService.getSignatureParts(permit);
+      calls.unshift(encodeFunctionData({
+        abi: UNISWAP_V3_ROUTER_ABI,
+        functionName: 'selfPermit',
+        args: [permit.token, permit.amount, BigInt(permit.deadline), v, r, s],
+      }));
+    }
+    if (isNativeOut) {
+      calls.push(encodeFunctionData({
+        abi: UNISWAP_V3_ROUTER_ABI,
+        functionName: 'unwrapWETH9',
+        args: [isExactOut ? amountOut : amountOutMinimum, account],
+      }));
+    }
+    if (isNativeIn && isExactOut) {
+      // Return whatever part of the ETH sent the swap didn't need
+      calls.push(encodeFunctionData({ abi: UNISWAP_V3_ROUTER_ABI, functionName: 'refundETH' }));
+    }
+
+    return {
+      to: router,
+      data: calls.length > 1
+        ? encodeFunctionData({ abi: UNISWAP_V3_ROUTER_ABI, functionName: 'multicall', args: [calls] })
+        : swapCall,
+      value: isNativeIn ? (isExactOut ? amountInMaximum : amountIn) : BigInt(0),
+    };
+  }
+
+  /**
+   * Same single-pool swap as buildUniswapV3Swap, routed through the Universal
+   * Router so the input can be pulled with a Permit2 signature
+   */
+  private buildUniversalRouterSwap(
+    quote: SwapQuote,
+    account: Address,
+    chainId: number,
+    router: Address,
+    permit: SignedPermit
+  ): SwapTransaction {
+    const fee = quote.route[0]?.fee;
+    const tokenIn = this.toWrappedAddress(quote.fromToken.address, chainId);
+    const tokenOut = this.toWrappedAddress(quote.toToken.address, chainId);
+    if (fee === undefined || !tokenIn || !tokenOut || permit.expiration === undefined) {
+      throw new Error('Uniswap V3 quote is missing its pool');
+    }
+
+    const isExactOut = quote.swapMode === 'ExactOut';
+    const isNativeOut = quote.toToken.address === ZERO_ADDRESS;
+
+    const amountIn = parseAmount(quote.fromAmount, quote.fromToken.decimals);
+    const amountOut = parseAmount(quote.toAmount, quote.toToken.decimals);
+    const amountInMaximum = applySlippage(amountIn, quote.slippage, 'max');
+    const amountOutMinimum = applySlippage(amountOut, quote.slippage, 'min');
+    const deadline = BigInt(Math.floor(Date.now() / 1000) + SWAP_DEADLINE_SECONDS);
+    const recipient = isNativeOut ? UNIVERSAL_ROUTER_ADDRESS_THIS : account;
+
+    const commands: string[] = [UNIVERSAL_ROUTER_COMMANDS.PERMIT2_PERMIT];
+    const inputs: Hex[] = [
+      encodeAbiParameters(PERMIT2_PERMIT_PARAMS, [
+        {
+          details: {
+            token: permit.token,
+            amount: permit.amount,
+            expiration: permit.expiration,
+            nonce: Number(permit.nonce),
+          },
+          spender: permit.spender,
+          sigDeadline: BigInt(permit.deadline),
+        },
+        permit.signature,
+      ]),
+    ];
+
+    // Exact-out paths are encoded output-first
+    if (isExactOut) {
+      commands.push(UNIVERSAL_ROUTER_COMMANDS.V3_SWAP_EXACT_OUT);
+      inputs.push(encodeAbiParameters(V3_SWAP_PARAMS, [
+        recipient,
+        amountOut,
+        amountInMaximum,
+        encodePacked(['address', 'uint24', 'address'], [tokenOut, fee, tokenIn]),
+        true,
+      ]));
+    } else {
+      commands.push(UNIVERSAL_ROUTER_COMMANDS.V3_SWAP_EXACT_IN);
+      inputs.push(encodeAbiParameters(V3_SWAP_PARAMS, [
+        recipient,
+        amountIn,
+        amountOutMinimum,
+        encodePacked(['address', 'uint24', 'address'], [tokenIn, fee, tokenOut]),
+        true,
+      ]));
+    }
+
+    if (isNativeOut) {
+      commands.push(UNIVERSAL_ROUTER_COMMANDS.UNWRAP_WETH);
+      inputs.push(encodeAbiParameters(UNWRAP_WETH_PARAMS, [
+        account,
+        isExactOut ? amountOut : amountOutMinimum,
+      ]));
+    }
+
+    return {
+      to: router,
+      data: encodeFunctionData({
+        abi: UNIVERSAL_ROUTER_ABI,
+        functionName: 'execute',
+        args: [`0x${commands.join('')}`, inputs, deadline],
+      }),
+      value: BigInt(0),
+    };
+  }
+
+  private toSwapTransaction(
+    to: string,
+    data: string,
+    value: string | number,
+    gas?: string | number
+  ): SwapTransaction {
+    return {
+      to: to as Address,
+      data: data as Hex,
+      value: BigInt(value || 0),
+      ...(gas ? { gas: BigInt(gas) } : {}),
+    };
+  }
+
   // ==========================================================================
   // UTILITY METHODS
   // ==========================================================================
 
-  private parseTokenAmount(amount: string, decimals: number): string {
-    const num = parseFloat(amount);
-    return (num * Math.pow(10, decimals)).toString();
+  private getQuoteChainId(quote: SwapQuote): number {
+    if (quote.chainId === undefined) {
+      throw new Error(`${quote.aggregator} quote is not an EVM quote`);
+    }
+    return quote.chainId;
   }
 
-  private formatTokenAmount(amount: string, decimals: number): string {
-    const num = parseFloat(amount);
-    return (num / Math.pow(10, decimals)).toString();
+  private getRouterAddress(quote: SwapQuote, role: 'router' | 'spender'): Address | null {
+    const keys = ROUTER_KEYS[quote.aggregator as QuoteSourceName];
+    if (!keys || quote.chainId === undefined) return null;
+
+    const address = DEX_ROUTERS[quote.chainId]?.[keys[role]];
+    return (address as Address | undefined) || null;
   }
 
-  private calculatePriceImpact(inputAmount: number, outputAmount: number): number {
-    // Simplified price impact calculation
-    let impact = 0.3;
-    
-    if (inputAmount > 1000) impact += 0.2;
-    if (inputAmount > 10000) impact += 0.5;
-    if (inputAmount > 100000) impact += 1.0;
-    
-    return Math.min(impact, 15); // Cap at 15%
+  /** Most of the input token the router can pull for this quote */
+  private getMaximumInput(quote: SwapQuote): bigint {
+    const amountIn = parseAmount(quote.fromAmount, quote.fromToken.decimals);
+    return quote.swapMode === 'ExactOut'
+      ? applySlippage(amountIn, quote.slippage, 'max')
+      : amountIn;
+  }
+
+  private getZeroExHeaders(): Record<string, string> {
+    return {
+      'Accept': 'application/json',
+      ...(process.env.NEXT_PUBLIC_0X_API_KEY && {
+        '0x-api-key': process.env.NEXT_PUBLIC_0X_API_KEY
+      })
+    };
+  }
+
+  /**
+   * Map the token addresses aggregators report along a route back to tokens,
+   * treating their native-currency placeholder as the zero address
+   */
+  private getRouteTokenResolver(fromToken: Token, toToken: Token): (address: string, decimals?: number) => Token {
+    const knownTokens = [fromToken, toToken, ...Object.values(POPULAR_TOKENS)];
+
+    return (address, decimals) => resolveRouteToken(
+      address.toLowerCase() === NATIVE_TOKEN_ADDRESS.toLowerCase() ? ZERO_ADDRESS : address,
+      knownTokens,
+      decimals
+    );
+  }
+
+  private toAggregatorAddress(address: string): string {
+    return address === ZERO_ADDRESS ? NATIVE_TOKEN_ADDRESS : address;
+  }
+
+  private toWrappedAddress(address: Address, chainId: number): Address | null {
+    if (address !== ZERO_ADDRESS) return address;
+
+    const symbol = WRAPPED_NATIVE_SYMBOLS[chainId];
+    const wrapped = symbol ? TOKEN_CONTRACTS[chainId]?.[symbol] : undefined;
+    return (wrapped as Address | undefined) || null;
+  }
+
+  private async getGasPrice(chainId: number): Promise<bigint | null> {
+    try {
+      const estimate = await gasService.getFeeEstimate(chainId);
+      return estimate.levels.standard.expectedFeePerGas;
+    } catch (error) {
+      logger.warn(`Failed to get gas price for chain ${chainId}:`, error);
+      return null;
+    }
+  }
+
+  private async getGasPriceGwei(chainId: number): Promise<string> {
+    const gasPrice = await this.getGasPrice(chainId);
+    return gasPrice !== null ? formatAmount(gasPrice, 9) : '5';
   }
 
   private getConnectorTokens(chainId: number): string {
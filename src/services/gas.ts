@@ -0,0 +1,221 @@
+import { FeeValues } from 'viem';
+import { GasCostProjection, GasFeeEstimate, GasFeeLevel, GasSpeed } from '@/types';
+import { portfolioService } from './portfolio';
+import { pricingService } from './pricing';
+import { GAS_PRICE_LEVELS, NATIVE_CURRENCY } from '@/lib/wagmi';
+import { formatAmount, parseAmount, toNumber } from '@/utils/amount';
+import { logger } from '@/utils/logger';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const GAS_SPEEDS: GasSpeed[] = ['slow', 'standard', 'fast', 'instant'];
+
+const FEE_HISTORY_BLOCKS = 20;
+
+// Priority fee percentile of recent blocks (or slots, on Solana) each speed bids at
+export const PRIORITY_FEE_PERCENTILES: Record<GasSpeed, number> = {
+  slow: 10,
+  standard: 50,
+  fast: 75,
+  instant: 95,
+};
+
+const SPEED_MULTIPLIERS: Record<GasSpeed, number> = {
+  slow: GAS_PRICE_LEVELS.SLOW,
+  standard: GAS_PRICE_LEVELS.STANDARD,
+  fast: GAS_PRICE_LEVELS.FAST,
+  instant: GAS_PRICE_LEVELS.INSTANT,
+};
+
+// =============================================================================
+// GAS SERVICE CLASS
+// =============================================================================
+
+export class GasService {
+  private static instance: GasService;
+  private cache: Map<string, { data: unknown; timestamp: number }> = new Map();
+  private readonly CACHE_DURATION = 12 * 1000; // About one mainnet block
+
+  private constructor() {}
+
+  static getInstance(): GasService {
+    if (!GasService.instance) {
+      GasService.instance = new GasService();
+    }
+    return GasService.instance;
+  }
+
+  // ==========================================================================
+  // CACHE MANAGEMENT
+  // ==========================================================================
+
+  private getCachedData<T>(key: string): T | null {
+    const cached = this.cache.get(key);
+    if (cached && Date.now() - cached.timestamp < this.CACHE_DURATION) {
+      return cached.data as T;
+    }
+    return null;
+  }
+
+  private setCachedData<T>(key: string, data: T): void {
+    this.cache.set(key, { data, timestamp: Date.now() });
+  }
+
+  // ==========================================================================
+  // FEE ESTIMATION
+  // ==========================================================================
+
+  /**
+   * Fee levels for the next block, derived from the base fee and the
+   * priority fees paid over recent blocks. Chains that don't report a base
+   * fee are priced from the legacy gas price instead.
+   */
+  async getFeeEstimate(chainId: number): Promise<GasFeeEstimate> {
+    const cacheKey = `fees_${chainId}`;
+    const cached = this.getCachedData<GasFeeEstimate>(cacheKey);
+    if (cached) return cached;
+
+    const client = portfolioService.getPublicClient(chainId);
+    if (!client) {
+      throw new Error(`No RPC client configured for chain ${chainId}`);
+    }
+
+    const nativeSymbol = NATIVE_CURRENCY[chainId]?.symbol || 'ETH';
+
+    try {
+      const [feeHistory, nativePriceUSD] = await Promise.all([
+        client.getFeeHistory({
+          blockCount: FEE_HISTORY_BLOCKS,
+          rewardPercentiles: GAS_SPEEDS.map(speed => PRIORITY_FEE_PERCENTILES[speed]),
+          blockTag: 'latest',
+        }).catch(error => {
+          logger.warn(`Fee history unavailable for chain ${chainId}:`, error);
+          return null;
+        }),
+        this.getNativePriceUSD(nativeSymbol),
+      ]);
+
+      // The last entry is the base fee of the block after the newest one
+      const baseFeePerGas = feeHistory?.baseFeePerGas[feeHistory.baseFeePerGas.length - 1] ?? BigInt(0);
+
+      const isEip1559 = !!feeHistory?.reward && baseFeePerGas > BigInt(0);
+      const levels = isEip1559 && feeHistory?.reward
+        ? this.getEip1559Levels(baseFeePerGas, feeHistory.reward)
+        : this.getLegacyLevels(await client.getGasPrice());
+
+      const estimate: GasFeeEstimate = {
+        chainId,
+        isEip1559,
+        baseFeePerGas,
+        levels,
+        nativePriceUSD,
+        updatedAt: new Date(),
+      };
+
+      this.setCachedData(cacheKey, estimate);
+      return estimate;
+    } catch (error) {
+      logger.error(`Error estimating gas fees for chain ${chainId}:`, error);
+      throw new Error('Unable to estimate gas fees');
+    }
+  }
+
+  /**
+   * The fee fields to send a transaction with at the given speed
+   */
+  async getTransactionFees(chainId: number, speed: GasSpeed): Promise<FeeValues> {
+    const estimate = await this.getFeeEstimate(chainId);
+    const level = estimate.levels[speed];
+
+    return estimate.isEip1559
+      ? { maxFeePerGas: level.maxFeePerGas, maxPriorityFeePerGas: level.maxPriorityFeePerGas }
+      : { gasPrice: level.maxFeePerGas };
+  }
+
+  /**
+   * What `gasUnits` of gas should cost at each speed. The expected cost is
+   * what the current base fee plus tip comes to; the max is the most the
+   * transaction can be charged if the base fee climbs before it's included.
+   */
+  projectCosts(estimate: GasFeeEstimate, gasUnits: string): GasCostProjection[] {
+    const units = parseAmount(gasUnits || '0', 0, 'up');
+
+    return GAS_SPEEDS.map(speed => {
+      const level = estimate.levels[speed];
+      const expectedCost = units * level.expectedFeePerGas;
+      const maxCost = units * level.maxFeePerGas;
+
+      return {
+        speed,
+        expectedCost: formatAmount(expectedCost, 18),
+        maxCost: formatAmount(maxCost, 18),
+        expectedCostUSD: estimate.nativePriceUSD !== null ? toNumber(expectedCost, 18) * estimate.nativePriceUSD : null,
+        maxCostUSD: estimate.nativePriceUSD !== null ? toNumber(maxCost, 18) * estimate.nativePriceUSD : null,
+      };
+    });
+  }
+
+  private getEip1559Levels(baseFeePerGas: bigint, rewards: bigint[][]): Record<GasSpeed, GasFeeLevel> {
+    let floor = BigInt(0);
+
+    return GAS_SPEEDS.reduce((levels, speed, index) => {
+      // A faster speed never tips less than a slower one
+      const tip = this.median(rewards.map(block => block[index] ?? BigInt(0)));
+      const maxPriorityFeePerGas = tip > floor ? tip : floor;
+      floor = maxPriorityFeePerGas;
+
+      // The base fee can rise 12.5% a block; the multiplier sets how many
+      // base fees of headroom on top of the current one the transaction
+      // tolerates before it stalls. Only the actual base fee is charged.
+      const headroom = this.scale(baseFeePerGas, SPEED_MULTIPLIERS[speed]);
+
+      levels[speed] = {
+        speed,
+        maxFeePerGas: baseFeePerGas + headroom + maxPriorityFeePerGas,
+        maxPriorityFeePerGas,
+        expectedFeePerGas: baseFeePerGas + maxPriorityFeePerGas,
+      };
+      return levels;
+    }, {} as Record<GasSpeed, GasFeeLevel>);
+  }
+
+  private getLegacyLevels(gasPrice: bigint): Record<GasSpeed, GasFeeLevel> {
+    return GAS_SPEEDS.reduce((levels, speed) => {
+      const price = this.scale(gasPrice, SPEED_MULTIPLIERS[speed]);
+      levels[speed] = {
+        speed,
+        maxFeePerGas: price,
+        maxPriorityFeePerGas: price,
+        expectedFeePerGas: price,
+      };
+      return levels;
+    }, {} as Record<GasSpeed, GasFeeLevel>);
+  }
+
+  private median(values: bigint[]): bigint {
+    const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    return sorted[Math.floor(sorted.length / 2)] ?? BigInt(0);
+  }
+
+  private scale(value: bigint, multiplier: number): bigint {
+    return (value * BigInt(Math.round(multiplier * 100))) / BigInt(100);
+  }
+
+  private async getNativePriceUSD(symbol: string): Promise<number | null> {
+    try {
+      const priceData = await pricingService.getTokenPrice(symbol);
+      return priceData.price > 0 ? priceData.price : null;
+    } catch (error) {
+      logger.warn(`Failed to get ${symbol} price for gas costs:`, error);
+      return null;
+    }
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+}
+
+export const gasService = GasService.getInstance();
@@ -0,0 +1,190 @@
+import axios from 'axios';
+import { PublicKey, SystemProgram, TransactionInstruction, VersionedTransaction } from '@solana/web3.js';
+import { JitoBundleStatus } from '@/types';
+import { APP_CONFIG } from '@/lib/constants';
+import { logger } from '@/utils/logger';
+
+// =============================================================================
+// JITO API INTERFACES
+// =============================================================================
+
+interface JitoRpcResponse<T> {
+  jsonrpc: string;
+  id: number;
+  result?: T;
+  error?: {
+    code: number;
+    message: string;
+  };
+}
+
+interface JitoInflightBundleStatuses {
+  context: { slot: number };
+  value: Array<{
+    bundle_id: string;
+    status: 'Invalid' | 'Pending' | 'Failed' | 'Landed';
+    landed_slot: number | null;
+  }>;
+}
+
+interface JitoBundleStatuses {
+  context: { slot: number };
+  value: Array<{
+    bundle_id: string;
+    transactions: string[];
+    slot: number;
+    confirmation_status: 'processed' | 'confirmed' | 'finalized';
+    err: { Ok: null } | Record<string, unknown>;
+  } | null>;
+}
+
+export interface JitoBundleResult {
+  bundleId: string;
+  status: JitoBundleStatus;
+  signatures: string[];
+  slot?: number;
+}
+
+const INFLIGHT_STATUSES: Record<JitoInflightBundleStatuses['value'][number]['status'], JitoBundleStatus> = {
+  Invalid: 'invalid',
+  Pending: 'pending',
+  Failed: 'failed',
+  Landed: 'landed',
+};
+
+// =============================================================================
+// JITO SERVICE CLASS
+// =============================================================================
+
+export class JitoService {
+  private static instance: JitoService;
+
+  private constructor() {}
+
+  static getInstance(): JitoService {
+    if (!JitoService.instance) {
+      JitoService.instance = new JitoService();
+    }
+    return JitoService.instance;
+  }
+
+  /**
+   * Submit signed transactions as one bundle: they land together, in order,
+   * or not at all. One of them must tip a Jito tip account.
+   */
+  async sendBundle(
+    transactions: VersionedTransaction[],
+    blockEngineUrl: string = APP_CONFIG.JITO.BLOCK_ENGINE_URL
+  ): Promise<string> {
+    const encoded = transactions.map(transaction => Buffer.from(transaction.serialize()).toString('base64'));
+
+    try {
+      return await this.request<string>(blockEngineUrl, 'sendBundle', [encoded, { encoding: 'base64' }]);
+    } catch (error) {
+      logger.error('Failed to send Jito bundle:', error);
+      throw new Error('Unable to submit Jito bundle');
+    }
+  }
+
+  /**
+   * A transfer tipping one of the block engine's tip accounts, for bundles
+   * whose transactions don't carry a tip of their own
+   */
+  async getTipInstruction(
+    from: PublicKey,
+    lamports: number,
+    blockEngineUrl: string = APP_CONFIG.JITO.BLOCK_ENGINE_URL
+  ): Promise<TransactionInstruction> {
+    const accounts = await this.request<string[]>(blockEngineUrl, 'getTipAccounts', []);
+    // Spread tips across the accounts to avoid write-lock contention
+    const account = accounts[Math.floor(Math.random() * accounts.length)];
+    if (!account) {
+      throw new Error('Jito returned no tip accounts');
+    }
+
+    return SystemProgram.transfer({ fromPubkey: from, toPubkey: new PublicKey(account), lamports });
+  }
+
+  /**
+   * Status of a bundle submitted in the last five minutes
+   */
+  async getBundleStatus(
+    bundleId: string,
+    blockEngineUrl: string = APP_CONFIG.JITO.BLOCK_ENGINE_URL
+  ): Promise<JitoBundleStatus> {
+    const result = await this.request<JitoInflightBundleStatuses>(
+      blockEngineUrl,
+      'getInflightBundleStatuses',
+      [[bundleId]]
+    );
+    const status = result.value[0]?.status;
+    return status ? INFLIGHT_STATUSES[status] : 'pending';
+  }
+
+  /**
+   * Poll until the bundle lands, fails or times out. A landed bundle comes
+   * back with its transaction signatures.
+   */
+  async waitForBundle(
+    bundleId: string,
+    blockEngineUrl: string = APP_CONFIG.JITO.BLOCK_ENGINE_URL,
+    timeout: number = APP_CONFIG.JITO.BUNDLE_TIMEOUT
+  ): Promise<JitoBundleResult> {
+    const deadline = Date.now() + timeout;
+    let status: JitoBundleStatus = 'pending';
+
+    while (Date.now() < deadline) {
+      try {
+        status = await this.getBundleStatus(bundleId, blockEngineUrl);
+      } catch (error) {
+        logger.warn(`Failed to poll Jito bundle ${bundleId}:`, error);
+      }
+
+      // Landed bundles can take a moment to show up with their signatures
+      const landed = status === 'landed' ? await this.getLandedBundle(bundleId, blockEngineUrl) : null;
+      if (landed) {
+        return landed;
+      }
+      if (status !== 'pending' && status !== 'landed') {
+        return { bundleId, status, signatures: [] };
+      }
+
+      await new Promise(resolve => setTimeout(resolve, APP_CONFIG.JITO.STATUS_POLL_INTERVAL));
+    }
+
+    // A pending bundle is dropped by the block engine well before the timeout
+    return { bundleId, status: status === 'landed' ? 'landed' : 'failed', signatures: [] };
+  }
+
+  private async getLandedBundle(bundleId: string, blockEngineUrl: string): Promise<JitoBundleResult | null> {
+    const result = await this.request<JitoBundleStatuses>(blockEngineUrl, 'getBundleStatuses', [[bundleId]])
+      .catch(error => {
+        logger.warn(`Failed to fetch landed Jito bundle ${bundleId}:`, error);
+        return null;
+      });
+    const bundle = result?.value[0];
+    if (!bundle) return null;
+
+    return {
+      bundleId,
+      status: 'Ok' in bundle.err ? 'landed' : 'failed',
+      signatures: bundle.transactions,
+      slot: bundle.slot,
+    };
+  }
+
+  private async request<T>(blockEngineUrl: string, method: string, params: unknown[]): Promise<T> {
+    const response = await axios.post<JitoRpcResponse<T>>(
+      `${blockEngineUrl.replace(/\/$/, '')}/api/v1/bundles`,
+      { jsonrpc: '2.0', id: 1, method, params },
+      { timeout: 10000 }
+    );
+
+    if (response.data.error || response.data.result === undefined) {
+      throw new Error(response.data.error?.message || `Empty ${method} response`);
+    }
+    return response.data.result;
+  }
+}
+
+export const jitoService = JitoService.getInstance();
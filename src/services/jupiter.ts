@@ -1,12 +1,62 @@
-import { Connection, PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js';
-import { TOKEN_PROGRAM_ID, getAssociatedTokenAddress } from '@solana/spl-token';
+import {
+  Connection,
+  PublicKey,
+  SendOptions,
+  Transaction,
+  TransactionExpiredBlockheightExceededError,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import {
+  Mint,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  TransferFee,
+  TransferFeeAmount,
+  getAssociatedTokenAddress,
+  getEpochFee,
+  getTokenMetadata as getTokenMetadataExtension,
+  getTransferFeeConfig,
+  unpackMint,
+} from '@solana/spl-token';
 import axios, { AxiosInstance } from 'axios';
-import { SwapQuote, Token, RouteStep } from '@/types';
+import {
+  SwapQuote,
+  SwapMode,
+  Token,
+  RouteStep,
+  SimulationResult,
+  SolanaSubmissionOptions,
+  SwapExecution,
+  ErrorCode,
+  PriorityFeeEstimate,
+  SolanaTransactionSender,
+  SolanaTransactionSigner,
+} from '@/types';
+import { APP_CONFIG, ERROR_MESSAGES } from '@/lib/constants';
+import { parseAmount, formatAmount, toNumber, applySlippage } from '@/utils/amount';
+import { getPriceImpactSeverity } from '@/utils/priceImpact';
+import { getPreFeeAmount, applyTransferFees } from '@/utils/transferFee';
+import { resolveRouteToken } from '@/utils/route';
+import { getQuoteValidUntil, isQuoteExpired, isQuoteRefreshDue } from '@/utils/quote';
+import { hasDependentSwaps } from '@/utils/basket';
+import { simulationService } from './simulation';
+import { receiptService } from './receipts';
+import { priorityFeeService } from './priorityFees';
+import { tokenSafetyService } from './tokenSafety';
+import { jitoService } from './jito';
+import { wrapService, WRAPPED_SOL_TOKEN } from './wrap';
+import { logger } from '@/utils/logger';
 
 // =============================================================================
 // JUPITER API INTERFACES
 // =============================================================================
 
+export interface SolanaSwapSigner {
+  publicKey: PublicKey;
+  sendTransaction: SolanaTransactionSender;
+  signTransaction?: SolanaTransactionSigner;
+}
+
 interface JupiterQuoteResponse {
   inputMint: string;
   inAmount: string;
@@ -55,6 +105,85 @@ interface JupiterToken {
   daily_volume?: number;
 }
 
+// A token account extension as the RPC's jsonParsed encoding returns it;
+// the amounts in spl-token's layouts come back as numbers
+interface ParsedTokenAccountExtension {
+  extension: string;
+  state?: { [K in keyof TransferFeeAmount]?: number };
+}
+
+interface SolanaWalletBalances {
+  sol: number;
+  tokens: Array<{
+    account: string;
+    mint: string;
+    amount: number;
+    rawAmount: string; // `amount` loses precision past 2^53
+    decimals: number;
+    uiAmount: number;
+    isToken2022: boolean;
+    lamports: number; // Rent held by the account, returned when it's closed
+    isClosable: boolean; // The owner can close it once it's empty
+  }>;
+}
+
+// =============================================================================
+// SWAP ERRORS
+// =============================================================================
+
+// Jupiter's SlippageToleranceExceeded program error
+const JUPITER_SLIPPAGE_ERROR = 6001;
+
+const SWAP_FAILURE_MESSAGES: Partial<Record<ErrorCode, string>> = {
+  INSUFFICIENT_BALANCE: 'Not enough SOL to cover the network fee and rent for new token accounts',
+  SLIPPAGE_TOO_HIGH: 'The price moved beyond your slippage tolerance. Requote or raise your slippage',
+  TRANSACTION_EXPIRED: ERROR_MESSAGES.TRANSACTION_EXPIRED,
+};
+
+// Swaps are simulated before sending, and rebroadcast here rather than by the RPC
+const SEND_OPTIONS: SendOptions = { skipPreflight: true, maxRetries: 0 };
+
+/**
+ * A Solana swap that failed in a way the user can act on. `signature` is set
+ * once the transaction was sent.
+ */
+export class SolanaSwapError extends Error {
+  readonly code: ErrorCode;
+  readonly signature?: string;
+
+  constructor(code: ErrorCode, message: string, signature?: string) {
+    super(message);
+    this.name = 'SolanaSwapError';
+    this.code = code;
+    if (signature) {
+      this.signature = signature;
+    }
+    // Compiled to ES5, Error subclasses lose their prototype
+    Object.setPrototypeOf(this, SolanaSwapError.prototype);
+  }
+}
+
+/**
+ * Classify a transaction error from its error object and program logs
+ */
+function getSwapErrorCode(err: unknown, logs: string[] = []): ErrorCode {
+  const details = [typeof err === 'string' ? err : JSON.stringify(err ?? null), ...logs].join('\n');
+
+  if (/InsufficientFundsForRent|InsufficientFundsForFee|insufficient lamports/i.test(details)) {
+    return 'INSUFFICIENT_BALANCE';
+  }
+  const slippageError = new RegExp(
+    `"Custom":${JUPITER_SLIPPAGE_ERROR}\\b|custom program error: 0x${JUPITER_SLIPPAGE_ERROR.toString(16)}\\b|SlippageToleranceExceeded`
+  );
+  if (slippageError.test(details)) {
+    return 'SLIPPAGE_TOO_HIGH';
+  }
+  if (/BlockhashNotFound/.test(details)) {
+    return 'TRANSACTION_EXPIRED';
+  }
+  return 'TRADE_FAILED';
+}
+
 // =============================================================================
 // JUPITER SERVICE CLASS
 // =============================================================================
@@ -171,10 +300,33 @@ export class JupiterService {
       'So11111111111111111111111111111111111111112', // Wrapped SOL
     ];
 
-    return allTokens.filter(token => 
+    const popularTokens = allTokens.filter(token => 
       popularMints.includes(token.address) || 
       token.volume24h && token.volume24h > 100000 // High volume tokens
     ).slice(0, 50);
+
+    // Listed separately so SOL held as wSOL can be unwrapped
+    const tokens = [...popularTokens, WRAPPED_SOL_TOKEN];
+
+    try {
+      return await this.withTokenSafety(tokens);
+    } catch (error) {
+      logger.warn('Listing popular tokens without safety checks:', error);
+      return tokens;
+    }
+  }
+
+  /**
+   * Attach on-chain safety analysis to Solana tokens. `includeHolders` also
+   * checks holder concentration, at a request per token.
+   */
+  async withTokenSafety(tokens: Token[], options: { includeHolders?: boolean } = {}): Promise<Token[]> {
+    const safety = await tokenSafetyService.getTokenSafety(tokens, this.connection, options);
+
+    return tokens.map(token => {
+      const result = safety.get(token.address);
+      return result ? { ...token, safety: result } : token;
+    });
   }
 
   // ==========================================================================
@@ -185,18 +337,35 @@ export class JupiterService {
     fromToken: Token,
     toToken: Token,
     amount: string,
-    slippage: number = 1
+    slippage: number = 1,
+    swapMode: SwapMode = 'ExactIn'
   ): Promise<SwapQuote[]> {
-    const cacheKey = `jupiter_quote_${fromToken.address}_${toToken.address}_${amount}_${slippage}`;
+    // SOL and wSOL trade 1:1 through the token program, not through Jupiter
+    const wrapQuote = wrapService.getWrapQuote(fromToken, toToken, amount, swapMode);
+    if (wrapQuote) {
+      return [wrapQuote];
+    }
+
+    const cacheKey = `jupiter_quote_${fromToken.address}_${toToken.address}_${amount}_${slippage}_${swapMode}`;
     
     // Check cache first
     const cached = this.getCachedData<SwapQuote[]>(cacheKey);
-    if (cached) {
+    if (cached && !cached.some(isQuoteRefreshDue)) {
       return cached;
     }
 
     try {
-      const amountInSmallestUnit = this.parseTokenAmount(amount, fromToken.decimals);
+      // Token-2022 transfer fees are withheld on top of the route, so ExactOut
+      // asks the route for enough output to cover its fee
+      const [inputFee, outputFee] = await Promise.all([
+        this.getTransferFee(fromToken),
+        this.getTransferFee(toToken),
+      ]);
+
+      // In ExactOut mode `amount` is the output the user must receive
+      const amountInSmallestUnit = swapMode === 'ExactOut'
+        ? getPreFeeAmount(parseAmount(amount, toToken.decimals), outputFee).toString()
+        : parseAmount(amount, fromToken.decimals).toString();
       const slippageBps = Math.floor(slippage * 100); // Convert percentage to basis points
 
       const response = await this.client.get('/quote', {
@@ -205,7 +374,7 @@ export class JupiterService {
           outputMint: toToken.address,
           amount: amountInSmallestUnit,
           slippageBps,
-          swapMode: 'ExactIn',
+          swapMode,
           onlyDirectRoutes: false,
           asLegacyTransaction: false,
         }
@@ -213,32 +382,38 @@ export class JupiterService {
 
       const jupiterQuote: JupiterQuoteResponse = response.data;
       
-      // Convert Jupiter route to our RouteStep format
-      const routes: RouteStep[] = jupiterQuote.routePlan.map(step => ({
-        protocol: step.swapInfo.label,
-        poolAddress: step.swapInfo.ammKey as any,
-        percentage: step.percent,
-        tokenIn: fromToken,
-        tokenOut: toToken,
-      }));
-
-      const outputAmount = this.formatTokenAmount(jupiterQuote.outAmount, toToken.decimals);
-      const priceImpact = parseFloat(jupiterQuote.priceImpactPct);
+      const routes = await this.parseRoutePlan(jupiterQuote.routePlan, fromToken, toToken);
+
+      const { sent, received } = applyTransferFees(
+        { inAmount: BigInt(jupiterQuote.inAmount), outAmount: BigInt(jupiterQuote.outAmount) },
+        swapMode,
+        inputFee,
+        outputFee
+      );
+      const inputAmount = formatAmount(sent, fromToken.decimals);
+      const outputAmount = formatAmount(received, toToken.decimals);
+      // Jupiter reports impact as a fraction measured against its own mid price
+      const priceImpact = Math.max(0, parseFloat(jupiterQuote.priceImpactPct) * 100) || 0;
 
       const quote: SwapQuote = {
         id: `jupiter_${Date.now()}`,
         fromToken,
         toToken,
-        fromAmount: amount,
+        fromAmount: inputAmount,
         toAmount: outputAmount,
-        price: parseFloat(outputAmount) / parseFloat(amount),
+        price: parseFloat(outputAmount) / parseFloat(inputAmount),
         priceImpact,
+        priceImpactSeverity: getPriceImpactSeverity(priceImpact),
         gasEstimate: jupiterQuote.platformFee?.amount || '0',
         route: routes,
         aggregator: 'Jupiter',
         slippage,
-        validUntil: new Date(Date.now() + 30000), // 30 seconds
-        raw: jupiterQuote, // Store raw response for swap execution
+        swapMode,
+        validUntil: getQuoteValidUntil(),
+        // Store raw response for swap execution
+        raw: inputFee || outputFee
+          ? this.withFeeAdjustedThreshold(jupiterQuote, swapMode === 'ExactOut' ? sent : received, slippage)
+          : jupiterQuote,
       };
 
       const quotes = [quote];
@@ -250,6 +425,93 @@ export class JupiterService {
     }
   }
 
+  /**
+   * The transfer fee a Token-2022 mint charges this epoch, or null for mints
+   * without one. Quotes go ahead without it if the mint can't be read.
+   */
+  private async getTransferFee(token: Token): Promise<TransferFee | null> {
+    try {
+      const mintInfo = await this.getMintInfo(token.address);
+      const config = mintInfo?.isToken2022 ? getTransferFeeConfig(mintInfo.mint) : null;
+      if (!config) return null;
+
+      const fee = getEpochFee(config, BigInt(await this.getEpoch()));
+      return fee.transferFeeBasisPoints > 0 ? fee : null;
+    } catch (error) {
+      logger.warn(`Failed to read ${token.symbol} transfer fee:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Jupiter bounds a route by its own amounts, which leave out transfer fees.
+   * The swap is built from the raw quote, so its minimum received (ExactIn) or
+   * maximum sent (ExactOut) has to be taken from what the quote shows instead.
+   */
+  private withFeeAdjustedThreshold(
+    jupiterQuote: JupiterQuoteResponse,
+    amount: bigint,
+    slippage: number
+  ): JupiterQuoteResponse {
+    const bound = jupiterQuote.swapMode === 'ExactOut' ? 'max' : 'min';
+    return {
+      ...jupiterQuote,
+      otherAmountThreshold: applySlippage(amount, slippage, bound).toString(),
+    };
+  }
+
+  private async getEpoch(): Promise<number> {
+    const cached = this.getCachedData<number>('solana_epoch', this.TOKEN_CACHE_DURATION);
+    if (cached !== null) return cached;
+
+    const { epoch } = await this.connection.getEpochInfo();
+    this.setCachedData('solana_epoch', epoch);
+    return epoch;
+  }
+
+  /**
+   * Convert Jupiter's route plan to our RouteStep format. Each step's `percent`
+   * is its share of whatever amount of its input mint is available at that
+   * point, so shares are carried forward mint by mint.
+   */
+  private async parseRoutePlan(
+    routePlan: JupiterQuoteResponse['routePlan'],
+    fromToken: Token,
+    toToken: Token
+  ): Promise<RouteStep[]> {
+    const endpoints = [fromToken.address, toToken.address] as string[];
+    const needsLookup = routePlan.some(step =>
+      !endpoints.includes(step.swapInfo.inputMint) || !endpoints.includes(step.swapInfo.outputMint)
+    );
+    const knownTokens = [fromToken, toToken, ...(needsLookup ? await this.getAllTokens() : [])];
+
+    const shares = new Map<string, number>([[fromToken.address, 100]]);
+    const depths = new Map<string, number>([[fromToken.address, 0]]);
+
+    return routePlan.map(({ swapInfo, percent }) => {
+      const tokenIn = resolveRouteToken(swapInfo.inputMint, knownTokens, 0);
+      const tokenOut = resolveRouteToken(swapInfo.outputMint, knownTokens, 0);
+      const percentage = ((shares.get(swapInfo.inputMint) ?? 100) * percent) / 100;
+      const hopIndex = depths.get(swapInfo.inputMint) ?? 0;
+
+      shares.set(swapInfo.outputMint, (shares.get(swapInfo.outputMint) ?? 0) + percentage);
+      depths.set(swapInfo.outputMint, Math.max(depths.get(swapInfo.outputMint) ?? 0, hopIndex + 1));
+
+      return {
+        protocol: swapInfo.label,
+        poolAddress: swapInfo.ammKey as any,
+        percentage,
+        tokenIn,
+        tokenOut,
+        // Unknown mints carry no decimals, so their raw amounts can't be scaled
+        ...(tokenIn.decimals > 0 && { amountIn: formatAmount(swapInfo.inAmount, tokenIn.decimals) }),
+        ...(tokenOut.decimals > 0 && { amountOut: formatAmount(swapInfo.outAmount, tokenOut.decimals) }),
+        pathIndex: 0,
+        hopIndex,
+      };
+    });
+  }
+
   // ==========================================================================
   // SWAP EXECUTION
   // ==========================================================================
@@ -257,21 +519,32 @@ export class JupiterService {
   async executeSwap(
     quote: SwapQuote,
     userPublicKey: PublicKey,
-    priorityFee?: number
+    priorityFee?: number,
+    jitoTipLamports?: number
   ): Promise<string> {
     if (!quote.raw || quote.aggregator !== 'Jupiter') {
       throw new Error('Invalid quote for Jupiter swap execution');
     }
+    if (isQuoteExpired(quote)) {
+      throw new Error('Quote has expired; requote before swapping');
+    }
 
     try {
       const swapResponse = await this.client.post('/swap', {
         quoteResponse: quote.raw,
         userPublicKey: userPublicKey.toString(),
-        wrapAndUnwrapSol: true,
+        // Leave held wSOL as it is; otherwise swaps spend and receive native SOL
+        wrapAndUnwrapSol: !wrapService.isWrappedSol(quote.fromToken) && !wrapService.isWrappedSol(quote.toToken),
         useSharedAccounts: true,
         feeAccount: process.env.NEXT_PUBLIC_FEE_ACCOUNT || undefined,
         trackingAccount: process.env.NEXT_PUBLIC_TRACKING_ACCOUNT || undefined,
-        ...(priorityFee && { prioritizationFeeLamports: priorityFee }),
+        // Sizes the compute limit to the route, so a priority fee (a total in
+        // lamports) buys close to the unit price it was estimated at
+        dynamicComputeUnitLimit: true,
+        // A Jito tip is added as a transfer inside the swap transaction
+        ...(jitoTipLamports
+          ? { prioritizationFeeLamports: { jitoTipLamports } }
+          : priorityFee && { prioritizationFeeLamports: priorityFee }),
       });
 
       const { swapTransaction }: JupiterSwapResponse = swapResponse.data;
@@ -284,23 +557,271 @@ export class JupiterService {
     }
   }
 
+  /**
+   * Build the swap transaction for `userPublicKey` and simulate it unsigned
+   */
+  async simulateSwap(quote: SwapQuote, userPublicKey: PublicKey): Promise<SimulationResult> {
+    const transaction = await this.buildSwapTransaction(quote, userPublicKey);
+
+    return simulationService.simulateSolanaTransaction(
+      transaction,
+      userPublicKey,
+      [quote.fromToken, quote.toToken],
+      this.connection
+    );
+  }
+
+  /**
+   * Build, simulate, sign and send a swap, resolving with its signature once
+   * it is confirmed. In Jito mode the swap carries a tip and goes to the
+   * block engine as a bundle instead of through the wallet's RPC.
+   * Failures the user can act on throw a `SolanaSwapError`.
+   */
+  async sendSwap(
+    quote: SwapQuote,
+    signer: SolanaSwapSigner,
+    submission: SolanaSubmissionOptions = { mode: 'rpc' }
+  ): Promise<string> {
+    if (submission.mode === 'jito') {
+      const [signature] = await this.sendSwapBundle([quote], signer, submission);
+      if (!signature) {
+        throw new Error('Jito bundle landed without its swap transaction');
+      }
+      return signature;
+    }
+
+    const priorityFee = await this.getPriorityFee(quote, submission);
+    const transaction = await this.buildSimulatedSwap(quote, signer.publicKey, undefined, priorityFee);
+    return this.sendAndConfirm(transaction, signer);
+  }
+
+  /**
+   * Priority fee levels for a swap, from recent fees paid to write to the
+   * pools on its route
+   */
+  async getPriorityFeeEstimate(
+    quote: SwapQuote,
+    options: { computeUnits?: number; maxFeeLamports?: number } = {}
+  ): Promise<PriorityFeeEstimate> {
+    const accounts = quote.route.flatMap(step => {
+      try {
+        return [new PublicKey(step.poolAddress)];
+      } catch {
+        return [];
+      }
+    });
+
+    return priorityFeeService.getFeeEstimate(accounts, this.connection, options);
+  }
+
+  // A swap still goes out without a priority fee if it can't be estimated
+  private async getPriorityFee(quote: SwapQuote, submission: SolanaSubmissionOptions): Promise<number | undefined> {
+    if (!submission.priorityLevel) return undefined;
+
+    try {
+      const estimate = await this.getPriorityFeeEstimate(quote, {
+        ...(submission.maxPriorityFeeLamports !== undefined && { maxFeeLamports: submission.maxPriorityFeeLamports }),
+      });
+      return estimate.levels[submission.priorityLevel].lamports;
+    } catch (error) {
+      logger.warn('Sending swap without a priority fee:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Sign and send, then rebroadcast until the transaction confirms or its
+   * blockhash expires. Wallets that can only sign-and-send broadcast it once.
+   */
+  private async sendAndConfirm(transaction: VersionedTransaction, signer: SolanaSwapSigner): Promise<string> {
+    // A fresh blockhash gives the swap its full lifetime and a known expiry
+    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('confirmed');
+    transaction.message.recentBlockhash = blockhash;
+
+    let signature: string;
+    let serialized: Uint8Array | null = null;
+    try {
+      if (signer.signTransaction) {
+        serialized = (await signer.signTransaction(transaction)).serialize();
+        signature = await this.connection.sendRawTransaction(serialized, SEND_OPTIONS);
+      } else {
+        signature = await signer.sendTransaction(transaction, this.connection, SEND_OPTIONS);
+      }
+    } catch (error) {
+      logger.error('Failed to send Jupiter swap:', error);
+      throw new Error('Unable to execute swap transaction');
+    }
+
+    let isSettled = false;
+    const rebroadcast = async (raw: Uint8Array) => {
+      while (!isSettled) {
+        await new Promise(resolve => setTimeout(resolve, APP_CONFIG.SOLANA.REBROADCAST_INTERVAL));
+        if (isSettled) return;
+        try {
+          await this.connection.sendRawTransaction(raw, SEND_OPTIONS);
+        } catch (error) {
+          logger.warn(`Failed to rebroadcast swap ${signature}:`, error);
+        }
+      }
+    };
+    if (serialized) {
+      void rebroadcast(serialized);
+    }
+
+    try {
+      const { value } = await this.connection.confirmTransaction(
+        { signature, blockhash, lastValidBlockHeight },
+        'confirmed'
+      );
+      if (value.err) {
+        const failed = await this.connection.getTransaction(signature, {
+          commitment: 'confirmed',
+          maxSupportedTransactionVersion: 0,
+        }).catch(() => null);
+        const code = getSwapErrorCode(value.err, failed?.meta?.logMessages ?? []);
+        throw new SolanaSwapError(code, SWAP_FAILURE_MESSAGES[code] ?? `Swap ${signature} failed`, signature);
+      }
+      return signature;
+    } catch (error) {
+      if (error instanceof TransactionExpiredBlockheightExceededError) {
+        throw new SolanaSwapError('TRANSACTION_EXPIRED', ERROR_MESSAGES.TRANSACTION_EXPIRED, signature);
+      }
+      throw error;
+    } finally {
+      isSettled = true;
+    }
+  }
+
+  /**
+   * What a confirmed swap actually spent and received, from its transaction
+   */
+  async getSwapExecution(signature: string, owner: PublicKey, fromToken: Token, toToken: Token): Promise<SwapExecution> {
+    return receiptService.getSolanaSwapExecution(signature, owner, fromToken, toToken, this.connection);
+  }
+
+  /**
+   * Send several swaps as one Jito bundle, so they land together in order or
+   * not at all. Only the last swap carries the tip. Resolves with their
+   * signatures, in the order of `quotes`.
+   */
+  async sendSwapBundle(
+    quotes: SwapQuote[],
+    signer: SolanaSwapSigner,
+    submission: SolanaSubmissionOptions = { mode: 'jito' }
+  ): Promise<string[]> {
+    const { signTransaction } = signer;
+    if (!signTransaction) {
+      throw new Error("Your wallet can't sign without sending, which Jito bundles need");
+    }
+    if (quotes.length === 0 || quotes.length > APP_CONFIG.JITO.MAX_BUNDLE_SIZE) {
+      throw new Error(`A Jito bundle holds 1 to ${APP_CONFIG.JITO.MAX_BUNDLE_SIZE} swaps`);
+    }
+    if (hasDependentSwaps(quotes)) {
+      throw new Error('A swap in the bundle spends what an earlier one buys; send them one at a time');
+    }
+
+    const tipLamports = Math.max(
+      submission.tipLamports ?? APP_CONFIG.JITO.DEFAULT_TIP_LAMPORTS,
+      APP_CONFIG.JITO.MIN_TIP_LAMPORTS
+    );
+    const transactions = await Promise.all(quotes.map((quote, index) =>
+      this.buildSimulatedSwap(
+        quote,
+        signer.publicKey,
+        index === quotes.length - 1 ? { lamports: tipLamports, blockEngineUrl: submission.blockEngineUrl } : undefined
+      )
+    ));
+
+    // Signed one at a time: the adapter's signAllTransactions isn't exposed to signers
+    const signed: VersionedTransaction[] = [];
+    for (const transaction of transactions) {
+      signed.push(await signTransaction(transaction));
+    }
+
+    return this.sendJitoBundle(signed, submission.blockEngineUrl);
+  }
+
+  // Each swap is simulated against the current state, so a swap that only
+  // works after an earlier one in the same bundle fails here
+  private async buildSimulatedSwap(
+    quote: SwapQuote,
+    userPublicKey: PublicKey,
+    jitoTip?: { lamports: number; blockEngineUrl?: string | undefined },
+    priorityFeeLamports?: number
+  ): Promise<VersionedTransaction> {
+    const transaction = await this.buildSwapTransaction(quote, userPublicKey, jitoTip, priorityFeeLamports);
+
+    const simulation = await simulationService.simulateSolanaTransaction(
+      transaction,
+      userPublicKey,
+      [quote.fromToken, quote.toToken],
+      this.connection
+    );
+    if (!simulation.success) {
+      const code = getSwapErrorCode(simulation.error, simulation.logs);
+      throw new SolanaSwapError(
+        code,
+        SWAP_FAILURE_MESSAGES[code] ??
+          `Swap ${quote.fromToken.symbol} → ${quote.toToken.symbol} would fail: ${simulation.error || 'transaction failed in simulation'}`
+      );
+    }
+
+    return transaction;
+  }
+
+  /**
+   * The unsigned swap transaction: a direct wrap or unwrap, or Jupiter's
+   * swap. Jupiter adds a Jito tip itself; a wrap gets a tip transfer. Wraps
+   * only lock the owner's own accounts, so they go without a priority fee.
+   */
+  private async buildSwapTransaction(
+    quote: SwapQuote,
+    userPublicKey: PublicKey,
+    jitoTip?: { lamports: number; blockEngineUrl?: string | undefined },
+    priorityFeeLamports?: number
+  ): Promise<VersionedTransaction> {
+    if (wrapService.isWrapQuote(quote)) {
+      const tipInstructions = jitoTip
+        ? [await jitoService.getTipInstruction(userPublicKey, jitoTip.lamports, jitoTip.blockEngineUrl)]
+        : [];
+      return wrapService.buildSolanaTransaction(quote, userPublicKey, this.connection, tipInstructions);
+    }
+
+    const swapTransaction = await this.executeSwap(quote, userPublicKey, priorityFeeLamports, jitoTip?.lamports);
+    return VersionedTransaction.deserialize(Buffer.from(swapTransaction, 'base64'));
+  }
+
+  private async sendJitoBundle(transactions: VersionedTransaction[], blockEngineUrl?: string): Promise<string[]> {
+    const bundleId = await jitoService.sendBundle(transactions, blockEngineUrl);
+    const result = await jitoService.waitForBundle(bundleId, blockEngineUrl);
+
+    if (result.status !== 'landed') {
+      throw new Error(`Jito bundle ${bundleId} did not land (${result.status})`);
+    }
+    if (result.signatures.length !== transactions.length) {
+      throw new Error(`Jito bundle ${bundleId} landed, but its transactions couldn't be looked up`);
+    }
+    return result.signatures;
+  }
+
   // ==========================================================================
   // SOLANA WALLET INTEGRATION
   // ==========================================================================
 
-  async getSolanaTokenBalances(walletAddress: PublicKey): Promise<{
-    sol: number;
-    tokens: Array<{
-      mint: string;
-      amount: number;
-      decimals: number;
-      uiAmount: number;
-    }>;
-  }> {
-    const cacheKey = `solana_balances_${walletAddress.toString()}`;
+  /**
+   * SOL and every non-zero token balance, from accounts of both the classic
+   * token program and Token-2022. Token-2022 amounts exclude transfer fees
+   * withheld in the account, which the holder can't spend.
+   * `includeEmpty` keeps zero-balance accounts too, e.g. to close them.
+   */
+  async getSolanaTokenBalances(
+    walletAddress: PublicKey,
+    options: { includeEmpty?: boolean; skipCache?: boolean } = {}
+  ): Promise<SolanaWalletBalances> {
+    const cacheKey = `solana_balances_${walletAddress.toString()}_${!!options.includeEmpty}`;
     
     // Check cache first
-    const cached = this.getCachedData<any>(cacheKey, 60000); // 1 minute cache
+    const cached = options.skipCache ? null : this.getCachedData<SolanaWalletBalances>(cacheKey, 60000); // 1 minute cache
     if (cached) {
       return cached;
     }
@@ -308,27 +829,39 @@ export class JupiterService {
     try {
       // Get SOL balance
       const solBalance = await this.connection.getBalance(walletAddress);
-      const solBalanceFormatted = solBalance / 1e9; // Convert lamports to SOL
+      const solBalanceFormatted = toNumber(BigInt(solBalance), 9); // Convert lamports to SOL
 
-      // Get SPL token accounts
-      const tokenAccounts = await this.connection.getParsedTokenAccountsByOwner(
-        walletAddress,
-        { programId: TOKEN_PROGRAM_ID }
-      );
+      // Get SPL token accounts; each program owns its own accounts
+      const [tokenAccounts, token2022Accounts] = await Promise.all([
+        this.connection.getParsedTokenAccountsByOwner(walletAddress, { programId: TOKEN_PROGRAM_ID }),
+        this.connection.getParsedTokenAccountsByOwner(walletAddress, { programId: TOKEN_2022_PROGRAM_ID }),
+      ]);
 
-      const tokens = tokenAccounts.value
+      const tokens = [...tokenAccounts.value, ...token2022Accounts.value]
         .map(account => {
           const parsedInfo = account.account.data.parsed.info;
+          // Token-2022 accounts holding withheld transfer fees can't be
+          // closed until the fees are harvested
+          const extensions: ParsedTokenAccountExtension[] = parsedInfo.extensions || [];
+          const withheldFees = extensions
+            .find(extension => extension.extension === 'transferFeeAmount')?.state?.withheldAmount;
           return {
+            account: account.pubkey.toBase58(),
             mint: parsedInfo.mint,
-            amount: parseInt(parsedInfo.tokenAmount.amount),
+            amount: toNumber(parsedInfo.tokenAmount.amount, 0),
+            rawAmount: parsedInfo.tokenAmount.amount,
             decimals: parsedInfo.tokenAmount.decimals,
-            uiAmount: parsedInfo.tokenAmount.uiAmount || 0,
+            uiAmount: toNumber(parsedInfo.tokenAmount.amount, parsedInfo.tokenAmount.decimals),
+            isToken2022: account.account.owner.equals(TOKEN_2022_PROGRAM_ID),
+            lamports: account.account.lamports,
+            isClosable: parsedInfo.state === 'initialized' &&
+              (!parsedInfo.closeAuthority || parsedInfo.closeAuthority === walletAddress.toBase58()) &&
+              !Number(withheldFees || 0),
           };
         })
-        .filter(token => token.uiAmount > 0); // Only non-zero balances
+        .filter(token => options.includeEmpty || token.uiAmount > 0); // Only non-zero balances
 
-      const result = {
+      const result: SolanaWalletBalances = {
         sol: solBalanceFormatted,
         tokens,
       };
@@ -359,15 +892,28 @@ export class JupiterService {
         return token;
       }
 
-      // If not found, create basic token info
+      // If not found, read what we can from the mint itself; Token-2022
+      // mints can carry their name and symbol in a metadata extension
+      const mintInfo = await this.getMintInfo(mintAddress).catch(error => {
+        logger.warn(`Failed to read mint ${mintAddress}:`, error);
+        return null;
+      });
+      const metadata = mintInfo?.isToken2022
+        ? await getTokenMetadataExtension(this.connection, mintInfo.mint.address, 'confirmed', TOKEN_2022_PROGRAM_ID)
+            .catch(error => {
+              logger.warn(`Failed to read metadata of mint ${mintAddress}:`, error);
+              return null;
+            })
+        : null;
+
       const basicToken: Token = {
         id: mintAddress,
         address: mintAddress as any,
-        symbol: 'UNKNOWN',
-        name: 'Unknown Token',
-        decimals: 6, // Default for most SPL tokens
+        symbol: metadata?.symbol || 'UNKNOWN',
+        name: metadata?.name || 'Unknown Token',
+        decimals: mintInfo?.mint.decimals ?? 6, // Default for most SPL tokens
         isVerified: false,
-        tags: ['solana'],
+        tags: mintInfo?.isToken2022 ? ['solana', 'token-2022'] : ['solana'],
       };
 
       this.setCachedData(cacheKey, basicToken);
@@ -378,20 +924,33 @@ export class JupiterService {
     }
   }
 
-  // ==========================================================================
-  // UTILITY METHODS
-  // ==========================================================================
+  /**
+   * A mint account unpacked with whichever token program owns it, or null if
+   * the address isn't a mint on this cluster
+   */
+  private async getMintInfo(mintAddress: string): Promise<{ mint: Mint; isToken2022: boolean } | null> {
+    const cacheKey = `mint_${mintAddress}`;
+    const cached = this.getCachedData<{ mint: Mint; isToken2022: boolean }>(cacheKey, this.TOKEN_CACHE_DURATION);
+    if (cached) {
+      return cached;
+    }
 
-  private parseTokenAmount(amount: string, decimals: number): string {
-    const num = parseFloat(amount);
-    return Math.floor(num * Math.pow(10, decimals)).toString();
-  }
+    const address = new PublicKey(mintAddress);
+    const account = await this.connection.getAccountInfo(address);
+    const isToken2022 = !!account?.owner.equals(TOKEN_2022_PROGRAM_ID);
+    if (!account || (!isToken2022 && !account.owner.equals(TOKEN_PROGRAM_ID))) {
+      return null;
+    }
 
-  private formatTokenAmount(amount: string, decimals: number): string {
-    const num = parseFloat(amount);
-    return (num / Math.pow(10, decimals)).toString();
+    const mintInfo = { mint: unpackMint(address, account, account.owner), isToken2022 };
+    this.setCachedData(cacheKey, mintInfo);
+    return mintInfo;
   }
 
+  // ==========================================================================
+  // UTILITY METHODS
+  // ==========================================================================
+
   private getFallbackSolanaTokens(): Token[] {
     return [
       {
@@ -421,6 +980,7 @@ export class JupiterService {
         isVerified: true,
         tags: ['solana', 'stablecoin'],
       },
+      WRAPPED_SOL_TOKEN,
     ];
   }
 
@@ -467,9 +1027,16 @@ export class JupiterService {
 
 export function calculateMinimumReceivedSolana(quote: SwapQuote, userSlippage?: number): string {
   const slippage = userSlippage || quote.slippage;
-  const outputAmount = parseFloat(quote.toAmount);
-  const slippageMultiplier = 1 - (slippage / 100);
-  return (outputAmount * slippageMultiplier).toString();
+  const { decimals } = quote.toToken;
+  const outputAmount = parseAmount(quote.toAmount, decimals);
+  return formatAmount(applySlippage(outputAmount, slippage, 'min'), decimals);
+}
+
+export function calculateMaximumSentSolana(quote: SwapQuote, userSlippage?: number): string {
+  const slippage = userSlippage || quote.slippage;
+  const { decimals } = quote.fromToken;
+  const inputAmount = parseAmount(quote.fromAmount, decimals);
+  return formatAmount(applySlippage(inputAmount, slippage, 'max'), decimals);
 }
 
 export function isValidSolanaMint(address: string): boolean {
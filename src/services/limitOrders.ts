@@ -0,0 +1,630 @@
+import { Keypair, PublicKey, Signer, Transaction } from '@solana/web3.js';
+import axios, { AxiosInstance } from 'axios';
+import { Address, Hex, encodeFunctionData, hashTypedData, toHex } from 'viem';
+import { signTypedData, writeContract, waitForTransaction } from 'wagmi/actions';
+import { CreateLimitOrderParams, LimitOrder, LimitOrderStatus, SolanaTransactionSender } from '@/types';
+import { DEX_ROUTERS } from '@/lib/wagmi';
+import { parseAmount, formatAmount, convertDecimals, mulDiv } from '@/utils/amount';
+import { dexService } from './dex';
+import { jupiterService } from './jupiter';
+import { logger } from '@/utils/logger';
+
+// =============================================================================
+// API INTERFACES
+// =============================================================================
+
+interface OneInchOrderData {
+  salt: string;
+  makerAsset: string;
+  takerAsset: string;
+  maker: string;
+  receiver: string;
+  allowedSender: string;
+  makingAmount: string;
+  takingAmount: string;
+  offsets: string;
+  interactions: string;
+}
+
+interface OneInchOrderbookEntry {
+  orderHash: string;
+  signature: string;
+  data: OneInchOrderData;
+  createDateTime: string;
+  remainingMakerAmount: string;
+  orderInvalidReason: string | null;
+}
+
+interface JupiterCreateOrderResponse {
+  tx: string;
+  orderPubkey: string;
+}
+
+interface JupiterOpenOrder {
+  publicKey: string;
+  account: {
+    maker: string;
+    inputMint: string;
+    outputMint: string;
+    oriInAmount: string;
+    oriOutAmount: string;
+    inAmount: string;
+    outAmount: string;
+    expiredAt: string | null;
+  };
+}
+
+interface JupiterOrderHistoryEntry {
+  orderKey: string;
+  state: 'Completed' | 'Cancelled' | 'Expired';
+  oriInAmount: string;
+  oriOutAmount: string;
+  inAmount: string;
+  outAmount: string;
+  cancelTxid?: string | null;
+}
+
+// =============================================================================
+// SIGNERS
+// =============================================================================
+
+export interface LimitOrderSigner {
+  evmAddress?: Address;
+  solana?: {
+    publicKey: PublicKey;
+    sendTransaction: SolanaTransactionSender;
+  };
+}
+
+// =============================================================================
+// 1INCH LIMIT ORDER PROTOCOL (v3, part of AggregationRouterV5)
+// =============================================================================
+
+const LIMIT_ORDER_TYPES = {
+  Order: [
+    { name: 'salt', type: 'uint256' },
+    { name: 'makerAsset', type: 'address' },
+    { name: 'takerAsset', type: 'address' },
+    { name: 'maker', type: 'address' },
+    { name: 'receiver', type: 'address' },
+    { name: 'allowedSender', type: 'address' },
+    { name: 'makingAmount', type: 'uint256' },
+    { name: 'takingAmount', type: 'uint256' },
+    { name: 'offsets', type: 'uint256' },
+    { name: 'interactions', type: 'bytes' },
+  ],
+} as const;
+
+const LIMIT_ORDER_ABI = [
+  {
+    inputs: [{ name: 'time', type: 'uint256' }],
+    name: 'timestampBelow',
+    outputs: [{ name: '', type: 'bool' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        components: LIMIT_ORDER_TYPES.Order,
+        name: 'order',
+        type: 'tuple',
+      },
+    ],
+    name: 'cancelOrder',
+    outputs: [
+      { name: 'orderRemaining', type: 'uint256' },
+      { name: 'orderHash', type: 'bytes32' },
+    ],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+] as const;
+
+// Index of the predicate among the eight dynamic fields packed into
+// `interactions`; `offsets` holds each field's cumulative end as a uint32
+const PREDICATE_FIELD_INDEX = 4;
+const INTERACTION_FIELD_COUNT = 8;
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+// Orderbook statuses: 1 valid, 2 temporarily invalid, 3 invalid (filled, cancelled or expired)
+const ORDERBOOK_STATUSES = '[1,2,3]';
+
+// =============================================================================
+// LIMIT ORDER SERVICE CLASS
+// =============================================================================
+
+export class LimitOrderService {
+  private static instance: LimitOrderService;
+  private orderbookClient: AxiosInstance;
+  private jupiterClient: AxiosInstance;
+
+  private constructor() {
+    this.orderbookClient = axios.create({
+      baseURL: 'https://api.1inch.dev/orderbook/v3.0',
+      timeout: 10000,
+      headers: {
+        'Accept': 'application/json',
+        ...(process.env.NEXT_PUBLIC_1INCH_API_KEY && {
+          'Authorization': `Bearer ${process.env.NEXT_PUBLIC_1INCH_API_KEY}`
+        })
+      }
+    });
+
+    this.jupiterClient = axios.create({
+      baseURL: 'https://jup.ag/api/limit/v1',
+      timeout: 15000,
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+      }
+    });
+  }
+
+  static getInstance(): LimitOrderService {
+    if (!LimitOrderService.instance) {
+      LimitOrderService.instance = new LimitOrderService();
+    }
+    return LimitOrderService.instance;
+  }
+
+  // ==========================================================================
+  // ORDER MANAGEMENT
+  // ==========================================================================
+
+  async createLimitOrder(params: CreateLimitOrderParams, signer: LimitOrderSigner): Promise<LimitOrder> {
+    if (!(params.limitPrice > 0)) {
+      throw new Error('Limit price must be greater than zero');
+    }
+    if (params.expiresAt && params.expiresAt.getTime() <= Date.now()) {
+      throw new Error('Expiry must be in the future');
+    }
+
+    if (params.chainId !== undefined) {
+      if (!signer.evmAddress) {
+        throw new Error('Connect an EVM wallet to place this order');
+      }
+      return this.create1InchOrder(params, params.chainId, signer.evmAddress);
+    }
+
+    if (!signer.solana) {
+      throw new Error('Connect a Solana wallet to place this order');
+    }
+    return this.createJupiterOrder(params, signer.solana.publicKey, signer.solana.sendTransaction);
+  }
+
+  /**
+   * Cancel an order on-chain. Resolves with the cancellation transaction.
+   */
+  async cancelLimitOrder(order: LimitOrder, signer: LimitOrderSigner): Promise<string> {
+    if (order.protocol === '1inch') {
+      if (!signer.evmAddress || signer.evmAddress.toLowerCase() !== order.maker.toLowerCase()) {
+        throw new Error('Connect the wallet that placed this order to cancel it');
+      }
+      return this.cancel1InchOrder(order);
+    }
+
+    if (!signer.solana || signer.solana.publicKey.toBase58() !== order.maker) {
+      throw new Error('Connect the wallet that placed this order to cancel it');
+    }
+    return this.cancelJupiterOrder(order, signer.solana.publicKey, signer.solana.sendTransaction);
+  }
+
+  /**
+   * Fetch the latest fill state for the given orders. Returns only the
+   * orders that changed, with their updated fields applied.
+   */
+  async getOrderUpdates(orders: LimitOrder[]): Promise<LimitOrder[]> {
+    // One orderbook request per maker (and chain) rather than per order
+    const groups = new Map<string, LimitOrder[]>();
+    orders.forEach(order => {
+      const key = `${order.protocol}_${order.chainId ?? 'solana'}_${order.maker}`;
+      groups.set(key, [...(groups.get(key) || []), order]);
+    });
+
+    const results = await Promise.allSettled(
+      Array.from(groups.values()).map(group => {
+        const [first] = group;
+        return first?.protocol === '1inch'
+          ? this.get1InchOrderUpdates(group)
+          : this.getJupiterOrderUpdates(group);
+      })
+    );
+
+    const updates: LimitOrder[] = [];
+    results.forEach(result => {
+      if (result.status === 'fulfilled') {
+        updates.push(...result.value);
+      } else {
+        logger.warn('Failed to refresh limit orders:', result.reason);
+      }
+    });
+
+    return updates;
+  }
+
+  // ==========================================================================
+  // 1INCH INTEGRATION
+  // ==========================================================================
+
+  private async create1InchOrder(
+    params: CreateLimitOrderParams,
+    chainId: number,
+    maker: Address
+  ): Promise<LimitOrder> {
+    const { fromToken, toToken } = params;
+    if (fromToken.address === ZERO_ADDRESS || toToken.address === ZERO_ADDRESS) {
+      throw new Error('Limit orders trade ERC20 tokens; use the wrapped native token instead');
+    }
+
+    const router = this.get1InchRouter(chainId);
+    const makingAmount = parseAmount(params.fromAmount, fromToken.decimals);
+    const takingAmount = this.getTakingAmount(params);
+    if (makingAmount === BigInt(0) || takingAmount === BigInt(0)) {
+      throw new Error('Order amount is too small');
+    }
+
+    // The router fills the order by pulling the maker asset
+    const allowance = await dexService.getAllowance(fromToken, maker, router, chainId);
+    if (allowance < makingAmount) {
+      await dexService.approveToken(fromToken, router, makingAmount, chainId);
+    }
+
+    const predicate = params.expiresAt
+      ? encodeFunctionData({
+          abi: LIMIT_ORDER_ABI,
+          functionName: 'timestampBelow',
+          args: [BigInt(Math.floor(params.expiresAt.getTime() / 1000))],
+        })
+      : '0x';
+
+    const message = {
+      salt: this.randomSalt(),
+      makerAsset: fromToken.address,
+      takerAsset: toToken.address,
+      maker,
+      receiver: ZERO_ADDRESS as Address,
+      allowedSender: ZERO_ADDRESS as Address,
+      makingAmount,
+      takingAmount,
+      offsets: this.encodeInteractionOffsets(predicate),
+      // Amount getters are left empty, so the order fills in one go
+      interactions: predicate,
+    };
+    const domain = { name: '1inch Aggregation Router', version: '5', chainId, verifyingContract: router };
+
+    try {
+      const signature = await signTypedData({ domain, types: LIMIT_ORDER_TYPES, primaryType: 'Order', message });
+      const orderHash = hashTypedData({ domain, types: LIMIT_ORDER_TYPES, primaryType: 'Order', message });
+
+      const orderData: OneInchOrderData = {
+        salt: message.salt.toString(),
+        makerAsset: message.makerAsset,
+        takerAsset: message.takerAsset,
+        maker: message.maker,
+        receiver: message.receiver,
+        allowedSender: message.allowedSender,
+        makingAmount: makingAmount.toString(),
+        takingAmount: takingAmount.toString(),
+        offsets: message.offsets.toString(),
+        interactions: message.interactions,
+      };
+
+      await this.orderbookClient.post(`/${chainId}`, { orderHash, signature, data: orderData });
+
+      return this.toLimitOrder(params, {
+        id: orderHash,
+        protocol: '1inch',
+        chainId,
+        maker,
+        toAmount: formatAmount(takingAmount, toToken.decimals),
+        orderData: { ...orderData },
+      });
+    } catch (error) {
+      logger.error('Failed to place 1inch limit order:', error);
+      throw new Error('Unable to place limit order');
+    }
+  }
+
+  private async cancel1InchOrder(order: LimitOrder): Promise<string> {
+    const data = order.orderData;
+    if (!data || order.chainId === undefined) {
+      throw new Error('Order is missing the data needed to cancel it');
+    }
+
+    try {
+      const { hash } = await writeContract({
+        address: this.get1InchRouter(order.chainId),
+        abi: LIMIT_ORDER_ABI,
+        functionName: 'cancelOrder',
+        args: [{
+          salt: BigInt(data.salt || '0'),
+          makerAsset: data.makerAsset as Address,
+          takerAsset: data.takerAsset as Address,
+          maker: data.maker as Address,
+          receiver: data.receiver as Address,
+          allowedSender: data.allowedSender as Address,
+          makingAmount: BigInt(data.makingAmount || '0'),
+          takingAmount: BigInt(data.takingAmount || '0'),
+          offsets: BigInt(data.offsets || '0'),
+          interactions: (data.interactions || '0x') as Hex,
+        }],
+        chainId: order.chainId,
+      });
+
+      const receipt = await waitForTransaction({ hash, chainId: order.chainId });
+      if (receipt.status !== 'success') {
+        throw new Error(`Cancellation ${hash} reverted`);
+      }
+
+      return hash;
+    } catch (error) {
+      logger.error('Failed to cancel 1inch limit order:', error);
+      throw new Error('Unable to cancel limit order');
+    }
+  }
+
+  private async get1InchOrderUpdates(orders: LimitOrder[]): Promise<LimitOrder[]> {
+    const [first] = orders;
+    if (!first || first.chainId === undefined) return [];
+
+    const response = await this.orderbookClient.get(`/${first.chainId}/address/${first.maker}`, {
+      params: { page: 1, limit: 100, statuses: ORDERBOOK_STATUSES }
+    });
+    const entries: OneInchOrderbookEntry[] = response.data;
+    const entriesByHash = new Map(entries.map(entry => [entry.orderHash.toLowerCase(), entry]));
+
+    const updates: LimitOrder[] = [];
+    orders.forEach(order => {
+      const entry = entriesByHash.get(order.id.toLowerCase());
+      if (!entry) return;
+
+      const makingAmount = parseAmount(order.fromAmount, order.fromToken.decimals);
+      const takingAmount = parseAmount(order.toAmount, order.toToken.decimals);
+      const remaining = BigInt(entry.remainingMakerAmount);
+      const filledMaking = makingAmount > remaining ? makingAmount - remaining : BigInt(0);
+      const filledTaking = makingAmount > BigInt(0)
+        ? mulDiv(takingAmount, filledMaking, makingAmount)
+        : BigInt(0);
+
+      const update = this.applyFill(order, filledMaking, filledTaking, remaining === BigInt(0));
+      if (update) updates.push(update);
+    });
+
+    return updates;
+  }
+
+  private get1InchRouter(chainId: number): Address {
+    const router = DEX_ROUTERS[chainId]?.ONEINCH;
+    if (!router) {
+      throw new Error(`1inch limit orders are not supported on chain ${chainId}`);
+    }
+    return router as Address;
+  }
+
+  private encodeInteractionOffsets(predicate: string): bigint {
+    const predicateLength = BigInt((predicate.length - 2) / 2);
+
+    // Fields before the predicate are empty (end at 0); it and every field
+    // after it end where the predicate does
+    let offsets = BigInt(0);
+    for (let field = PREDICATE_FIELD_INDEX; field < INTERACTION_FIELD_COUNT; field++) {
+      offsets |= predicateLength << BigInt(field * 32);
+    }
+    return offsets;
+  }
+
+  private randomSalt(): bigint {
+    const bytes = new Uint8Array(32);
+    crypto.getRandomValues(bytes);
+    return BigInt(toHex(bytes));
+  }
+
+  // ==========================================================================
+  // JUPITER INTEGRATION
+  // ==========================================================================
+
+  private async createJupiterOrder(
+    params: CreateLimitOrderParams,
+    owner: PublicKey,
+    sendTransaction: SolanaTransactionSender
+  ): Promise<LimitOrder> {
+    const { fromToken, toToken } = params;
+    const inAmount = parseAmount(params.fromAmount, fromToken.decimals);
+    const outAmount = this.getTakingAmount(params);
+    if (inAmount === BigInt(0) || outAmount === BigInt(0)) {
+      throw new Error('Order amount is too small');
+    }
+
+    // Fresh keypair that seeds the order account address; it co-signs creation
+    const base = Keypair.generate();
+
+    try {
+      const response = await this.jupiterClient.post('/createOrder', {
+        owner: owner.toBase58(),
+        inAmount: inAmount.toString(),
+        outAmount: outAmount.toString(),
+        inputMint: fromToken.address,
+        outputMint: toToken.address,
+        expiredAt: params.expiresAt ? Math.floor(params.expiresAt.getTime() / 1000) : null,
+        base: base.publicKey.toBase58(),
+      });
+
+      const { tx, orderPubkey }: JupiterCreateOrderResponse = response.data;
+      const txHash = await this.sendJupiterTransaction(tx, sendTransaction, [base]);
+
+      return this.toLimitOrder(params, {
+        id: orderPubkey,
+        protocol: 'Jupiter',
+        maker: owner.toBase58(),
+        toAmount: formatAmount(outAmount, toToken.decimals),
+        txHash,
+      });
+    } catch (error) {
+      logger.error('Failed to place Jupiter limit order:', error);
+      throw new Error('Unable to place limit order');
+    }
+  }
+
+  private async cancelJupiterOrder(
+    order: LimitOrder,
+    owner: PublicKey,
+    sendTransaction: SolanaTransactionSender
+  ): Promise<string> {
+    try {
+      const response = await this.jupiterClient.post('/cancelOrders', {
+        owner: owner.toBase58(),
+        feePayer: owner.toBase58(),
+        orders: [order.id],
+      });
+
+      const { txs }: { txs: string[] } = response.data;
+      const [tx] = txs;
+      if (!tx) {
+        throw new Error('Jupiter returned no cancellation transaction');
+      }
+
+      return await this.sendJupiterTransaction(tx, sendTransaction);
+    } catch (error) {
+      logger.error('Failed to cancel Jupiter limit order:', error);
+      throw new Error('Unable to cancel limit order');
+    }
+  }
+
+  private async getJupiterOrderUpdates(orders: LimitOrder[]): Promise<LimitOrder[]> {
+    const [first] = orders;
+    if (!first) return [];
+
+    const [openResponse, historyResponse] = await Promise.all([
+      this.jupiterClient.get('/openOrders', { params: { wallet: first.maker } }),
+      this.jupiterClient.get('/orderHistory', { params: { wallet: first.maker } }),
+    ]);
+    const openOrders: JupiterOpenOrder[] = openResponse.data;
+    const history: JupiterOrderHistoryEntry[] = historyResponse.data;
+
+    const openByKey = new Map(openOrders.map(open => [open.publicKey, open.account]));
+    const historyByKey = new Map(history.map(entry => [entry.orderKey, entry]));
+
+    const updates: LimitOrder[] = [];
+    orders.forEach(order => {
+      const open = openByKey.get(order.id);
+      const closed = historyByKey.get(order.id);
+      let update: LimitOrder | null = null;
+
+      if (open) {
+        // inAmount/outAmount are what's left to trade
+        update = this.applyFill(
+          order,
+          BigInt(open.oriInAmount) - BigInt(open.inAmount),
+          BigInt(open.oriOutAmount) - BigInt(open.outAmount),
+          false
+        );
+      } else if (closed) {
+        update = this.applyFill(
+          order,
+          BigInt(closed.oriInAmount) - BigInt(closed.inAmount),
+          BigInt(closed.oriOutAmount) - BigInt(closed.outAmount),
+          closed.state === 'Completed'
+        );
+
+        if (closed.state !== 'Completed') {
+          const status: LimitOrderStatus = closed.state === 'Cancelled' ? 'cancelled' : 'expired';
+          if ((update || order).status !== status) {
+            update = { ...(update || order), status };
+          }
+        }
+      }
+
+      if (update) updates.push(update);
+    });
+
+    return updates;
+  }
+
+  private async sendJupiterTransaction(
+    serializedTransaction: string,
+    sendTransaction: SolanaTransactionSender,
+    signers: Signer[] = []
+  ): Promise<string> {
+    const connection = jupiterService.getConnection();
+    const transaction = Transaction.from(Buffer.from(serializedTransaction, 'base64'));
+
+    const signature = await sendTransaction(transaction, connection, { signers });
+    const confirmation = await connection.confirmTransaction(signature, 'confirmed');
+    if (confirmation.value.err) {
+      throw new Error(`Transaction ${signature} failed`);
+    }
+
+    return signature;
+  }
+
+  // ==========================================================================
+  // UTILITY METHODS
+  // ==========================================================================
+
+  /** Taker amount in base units: fromAmount x limitPrice */
+  private getTakingAmount(params: CreateLimitOrderParams): bigint {
+    const PRICE_DECIMALS = 18;
+    const makingAmount = parseAmount(params.fromAmount, params.fromToken.decimals);
+    const price = parseAmount(params.limitPrice.toString(), PRICE_DECIMALS);
+
+    return convertDecimals(
+      makingAmount * price,
+      params.fromToken.decimals + PRICE_DECIMALS,
+      params.toToken.decimals
+    );
+  }
+
+  private toLimitOrder(
+    params: CreateLimitOrderParams,
+    details: Pick<LimitOrder, 'id' | 'protocol' | 'maker' | 'toAmount'> & Partial<LimitOrder>
+  ): LimitOrder {
+    return {
+      fromToken: params.fromToken,
+      toToken: params.toToken,
+      fromAmount: params.fromAmount,
+      limitPrice: params.limitPrice,
+      filledFromAmount: '0',
+      filledToAmount: '0',
+      status: 'open',
+      createdAt: new Date(),
+      ...(params.expiresAt && { expiresAt: params.expiresAt }),
+      ...details,
+    };
+  }
+
+  /**
+   * Apply filled amounts (base units) to an order; null when nothing changed
+   */
+  private applyFill(
+    order: LimitOrder,
+    filledFrom: bigint,
+    filledTo: bigint,
+    isComplete: boolean
+  ): LimitOrder | null {
+    const filledFromAmount = formatAmount(filledFrom, order.fromToken.decimals);
+    const filledToAmount = formatAmount(filledTo, order.toToken.decimals);
+
+    let status: LimitOrderStatus = order.status;
+    if (isComplete) {
+      status = 'filled';
+    } else if (filledFrom > BigInt(0)) {
+      status = 'partially_filled';
+    } else if (order.expiresAt && new Date(order.expiresAt).getTime() <= Date.now()) {
+      status = 'expired';
+    }
+
+    if (
+      filledFromAmount === order.filledFromAmount &&
+      filledToAmount === order.filledToAmount &&
+      status === order.status
+    ) {
+      return null;
+    }
+
+    return { ...order, filledFromAmount, filledToAmount, status };
+  }
+}
+
+export const limitOrderService = LimitOrderService.getInstance();
@@ -0,0 +1,441 @@
+import {
+  Address,
+  Hex,
+  BaseError,
+  UserRejectedRequestError,
+  domainSeparator,
+  encodeAbiParameters,
+  hexToSignature,
+  keccak256,
+  maxUint160,
+  maxUint256,
+  toHex,
+} from 'viem';
+import { erc20ABI } from 'wagmi';
+import { readContract, signTypedData } from 'wagmi/actions';
+import { Token, PermitType, SignedPermit, ApprovalMode } from '@/types';
+import { PERMIT2_ADDRESS } from '@/lib/wagmi';
+import { logger } from '@/utils/logger';
+
+// =============================================================================
+// CONTRACT ABIS
+// =============================================================================
+
+const ERC20_PERMIT_ABI = [
+  {
+    inputs: [],
+    name: 'DOMAIN_SEPARATOR',
+    outputs: [{ name: '', type: 'bytes32' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'PERMIT_TYPEHASH',
+    outputs: [{ name: '', type: 'bytes32' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ name: 'owner', type: 'address' }],
+    name: 'nonces',
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'version',
+    outputs: [{ name: '', type: 'string' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const;
+
+const PERMIT2_ABI = [
+  {
+    inputs: [
+      { name: 'owner', type: 'address' },
+      { name: 'token', type: 'address' },
+      { name: 'spender', type: 'address' },
+    ],
+    name: 'allowance',
+    outputs: [
+      { name: 'amount', type: 'uint160' },
+      { name: 'expiration', type: 'uint48' },
+      { name: 'nonce', type: 'uint48' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const;
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const EIP2612_PERMIT_TYPEHASH = keccak256(
+  toHex('Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)')
+);
+
+const EIP2612_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+} as const;
+
+const PERMIT2_TYPES = {
+  PermitSingle: [
+    { name: 'details', type: 'PermitDetails' },
+    { name: 'spender', type: 'address' },
+    { name: 'sigDeadline', type: 'uint256' },
+  ],
+  PermitDetails: [
+    { name: 'token', type: 'address' },
+    { name: 'amount', type: 'uint160' },
+    { name: 'expiration', type: 'uint48' },
+    { name: 'nonce', type: 'uint48' },
+  ],
+} as const;
+
+const PERMIT_SIGNATURE_TTL = 20 * 60; // 20 minutes, matching the swap deadline
+const PERMIT2_UNLIMITED_TTL = 30 * 24 * 60 * 60; // 30 days
+const PERMIT_EXPIRY_BUFFER = 60; // Re-sign rather than submit a permit this close to its deadline
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+interface PermitDomain {
+  name: string;
+  version: string;
+  chainId: number;
+  verifyingContract: Address;
+}
+
+// =============================================================================
+// PERMIT SERVICE CLASS
+// =============================================================================
+
+export class PermitService {
+  private static instance: PermitService;
+  private cache: Map<string, { data: unknown; timestamp: number }> = new Map();
+  private signedPermits: Map<string, SignedPermit> = new Map();
+  private readonly CACHE_DURATION = 60 * 60 * 1000; // 1 hour for token permit support
+
+  private constructor() {}
+
+  static getInstance(): PermitService {
+    if (!PermitService.instance) {
+      PermitService.instance = new PermitService();
+    }
+    return PermitService.instance;
+  }
+
+  // ==========================================================================
+  // CACHE MANAGEMENT
+  // ==========================================================================
+
+  private getCachedData<T>(key: string): T | null {
+    const cached = this.cache.get(key);
+    if (cached && Date.now() - cached.timestamp < this.CACHE_DURATION) {
+      return cached.data as T;
+    }
+    return null;
+  }
+
+  private setCachedData<T>(key: string, data: T): void {
+    this.cache.set(key, { data, timestamp: Date.now() });
+  }
+
+  // ==========================================================================
+  // SUPPORT DETECTION
+  // ==========================================================================
+
+  /**
+   * Which signature approval `owner` can use for `amount` of `token`, if any.
+   * EIP-2612 is a property of the token; Permit2 needs a prior ERC20
+   * allowance to the Permit2 contract.
+   */
+  async getPermitType(
+    token: Token,
+    owner: Address,
+    amount: bigint,
+    chainId: number
+  ): Promise<PermitType | null> {
+    if (token.address === ZERO_ADDRESS) return null;
+
+    if (await this.getEip2612Domain(token, chainId)) {
+      return 'eip2612';
+    }
+
+    return (await this.hasPermit2Allowance(token, owner, amount, chainId)) ? 'permit2' : null;
+  }
+
+  private async getEip2612Domain(token: Token, chainId: number): Promise<PermitDomain | null> {
+    const cacheKey = `domain_${chainId}_${token.address.toLowerCase()}`;
+    const cached = this.getCachedData<{ domain: PermitDomain | null }>(cacheKey);
+    if (cached) {
+      return cached.domain;
+    }
+
+    let domain: PermitDomain | null = null;
+    try {
+      const [separator, name, version, typehash] = await Promise.all([
+        readContract({ address: token.address, abi: ERC20_PERMIT_ABI, functionName: 'DOMAIN_SEPARATOR', chainId }),
+        readContract({ address: token.address, abi: erc20ABI, functionName: 'name', chainId }),
+        readContract({ address: token.address, abi: ERC20_PERMIT_ABI, functionName: 'version', chainId })
+          .catch(() => '1'),
+        readContract({ address: token.address, abi: ERC20_PERMIT_ABI, functionName: 'PERMIT_TYPEHASH', chainId })
+          .catch(() => null),
+        readContract({ address: token.address, abi: ERC20_PERMIT_ABI, functionName: 'nonces', args: [ZERO_ADDRESS], chainId }),
+      ]);
+
+      const candidate: PermitDomain = { name, version, chainId, verifyingContract: token.address };
+
+      // DAI-style permits share the function name but sign a different struct,
+      // and a separator mismatch means we'd be signing for the wrong domain
+      const isStandardPermit = typehash === null || typehash === EIP2612_PERMIT_TYPEHASH;
+      if (isStandardPermit && domainSeparator({ domain: candidate }) === separator) {
+        domain = candidate;
+      }
+    } catch (error) {
+      // Token doesn't implement EIP-2612
+    }
+
+    this.setCachedData(cacheKey, { domain });
+    return domain;
+  }
+
+  private async hasPermit2Allowance(
+    token: Token,
+    owner: Address,
+    amount: bigint,
+    chainId: number
+  ): Promise<boolean> {
+    try {
+      const allowance = await readContract({
+        address: token.address,
+        abi: erc20ABI,
+        functionName: 'allowance',
+        args: [owner, PERMIT2_ADDRESS],
+        chainId,
+      });
+      return allowance >= amount;
+    } catch (error) {
+      logger.warn(`Failed to read Permit2 allowance for ${token.symbol}:`, error);
+      return false;
+    }
+  }
+
+  // ==========================================================================
+  // SIGNING
+  // ==========================================================================
+
+  /**
+   * Sign an approval for `amount` of `token` using the first permit type the
+   * token supports and the caller has a spender for. Returns null when no
+   * signature route is available so the caller can fall back to approve().
+   */
+  async signPermit(
+    token: Token,
+    owner: Address,
+    spenders: Partial<Record<PermitType, Address>>,
+    amount: bigint,
+    chainId: number,
+    approvalMode: ApprovalMode = 'exact'
+  ): Promise<SignedPermit | null> {
+    const type = await this.getPermitType(token, owner, amount, chainId);
+    const spender = type ? spenders[type] : undefined;
+    if (!type || !spender) return null;
+
+    const permitKey = `${chainId}_${type}_${token.address}_${owner}_${spender}`.toLowerCase();
+    const reusable = await this.getReusablePermit(permitKey, amount, chainId);
+    if (reusable) {
+      return reusable;
+    }
+
+    try {
+      const permit = type === 'eip2612'
+        ? await this.signEip2612Permit(token, owner, spender, amount, chainId, approvalMode)
+        : await this.signPermit2(token, owner, spender, amount, chainId, approvalMode);
+
+      this.signedPermits.set(permitKey, permit);
+      return permit;
+    } catch (error) {
+      if (error instanceof BaseError && error.walk(e => e instanceof UserRejectedRequestError)) {
+        throw new Error('Signature request rejected');
+      }
+
+      // Some wallets (and hardware signers) can't sign typed data
+      logger.warn(`Failed to sign ${type} permit for ${token.symbol}:`, error);
+      return null;
+    }
+  }
+
+  isPermitExpired(permit: SignedPermit): boolean {
+    return permit.deadline - PERMIT_EXPIRY_BUFFER <= Math.floor(Date.now() / 1000);
+  }
+
+  /**
+   * ABI-encoded permit(owner, spender, value, deadline, v, r, s) arguments,
+   * the form routers that take an EIP-2612 permit alongside a swap expect
+   */
+  encodeEip2612Permit(permit: SignedPermit): Hex {
+    const { v, r, s } = this.getSignatureParts(permit);
+
+    return encodeAbiParameters(
+      [
+        { name: 'owner', type: 'address' },
+        { name: 'spender', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' },
+        { name: 'v', type: 'uint8' },
+        { name: 'r', type: 'bytes32' },
+        { name: 's', type: 'bytes32' },
+      ],
+      [permit.owner, permit.spender, permit.amount, BigInt(permit.deadline), v, r, s]
+    );
+  }
+
+  getSignatureParts(permit: SignedPermit): { v: number; r: Hex; s: Hex } {
+    const { v, r, s } = hexToSignature(permit.signature);
+    return { v: Number(v), r, s };
+  }
+
+  private async signEip2612Permit(
+    token: Token,
+    owner: Address,
+    spender: Address,
+    amount: bigint,
+    chainId: number,
+    approvalMode: ApprovalMode
+  ): Promise<SignedPermit> {
+    const domain = await this.getEip2612Domain(token, chainId);
+    if (!domain) {
+      throw new Error(`${token.symbol} does not support EIP-2612 permits`);
+    }
+
+    const nonce = await this.getEip2612Nonce(token.address, owner, chainId);
+    const value = approvalMode === 'unlimited' ? maxUint256 : amount;
+    const deadline = Math.floor(Date.now() / 1000) + PERMIT_SIGNATURE_TTL;
+
+    const signature = await signTypedData({
+      domain,
+      types: EIP2612_TYPES,
+      primaryType: 'Permit',
+      message: { owner, spender, value, nonce, deadline: BigInt(deadline) },
+    });
+
+    return { type: 'eip2612', token: token.address, owner, spender, amount: value, nonce, deadline, signature };
+  }
+
+  private async signPermit2(
+    token: Token,
+    owner: Address,
+    spender: Address,
+    amount: bigint,
+    chainId: number,
+    approvalMode: ApprovalMode
+  ): Promise<SignedPermit> {
+    const nonce = await this.getPermit2Nonce(token.address, owner, spender, chainId);
+    const now = Math.floor(Date.now() / 1000);
+    const isUnlimited = approvalMode === 'unlimited';
+
+    const permitAmount = isUnlimited ? maxUint160 : amount;
+    // An exact approval only needs to outlive this swap
+    const expiration = now + (isUnlimited ? PERMIT2_UNLIMITED_TTL : PERMIT_SIGNATURE_TTL);
+    const deadline = now + PERMIT_SIGNATURE_TTL;
+
+    const signature = await signTypedData({
+      domain: { name: 'Permit2', chainId, verifyingContract: PERMIT2_ADDRESS },
+      types: PERMIT2_TYPES,
+      primaryType: 'PermitSingle',
+      message: {
+        details: { token: token.address, amount: permitAmount, expiration, nonce: Number(nonce) },
+        spender,
+        sigDeadline: BigInt(deadline),
+      },
+    });
+
+    return {
+      type: 'permit2',
+      token: token.address,
+      owner,
+      spender,
+      amount: permitAmount,
+      nonce,
+      deadline,
+      expiration,
+      signature,
+    };
+  }
+
+  /**
+   * A previously signed permit is only worth resubmitting if it still covers
+   * the amount, hasn't expired and hasn't been consumed (nonce unchanged)
+   */
+  private async getReusablePermit(
+    permitKey: string,
+    amount: bigint,
+    chainId: number
+  ): Promise<SignedPermit | null> {
+    const permit = this.signedPermits.get(permitKey);
+    if (!permit) return null;
+
+    if (permit.amount < amount || this.isPermitExpired(permit)) {
+      this.signedPermits.delete(permitKey);
+      return null;
+    }
+
+    try {
+      const currentNonce = permit.type === 'eip2612'
+        ? await this.getEip2612Nonce(permit.token, permit.owner, chainId)
+        : await this.getPermit2Nonce(permit.token, permit.owner, permit.spender, chainId);
+
+      if (currentNonce === permit.nonce) {
+        return permit;
+      }
+    } catch (error) {
+      logger.warn('Failed to check permit nonce:', error);
+    }
+
+    this.signedPermits.delete(permitKey);
+    return null;
+  }
+
+  private async getEip2612Nonce(token: Address, owner: Address, chainId: number): Promise<bigint> {
+    return readContract({
+      address: token,
+      abi: ERC20_PERMIT_ABI,
+      functionName: 'nonces',
+      args: [owner],
+      chainId,
+    });
+  }
+
+  private async getPermit2Nonce(
+    token: Address,
+    owner: Address,
+    spender: Address,
+    chainId: number
+  ): Promise<bigint> {
+    const [, , nonce] = await readContract({
+      address: PERMIT2_ADDRESS,
+      abi: PERMIT2_ABI,
+      functionName: 'allowance',
+      args: [owner, token, spender],
+      chainId,
+    });
+    return BigInt(nonce);
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+    this.signedPermits.clear();
+  }
+}
+
+export const permitService = PermitService.getInstance();
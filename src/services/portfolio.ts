@@ -1,5 +1,5 @@
-import { PublicClient, Address, formatUnits } from 'viem';
-import { mainnet } from 'viem/chains';
+import { PublicClient, Address } from 'viem';
+import { mainnet, polygon, arbitrum } from 'viem/chains';
 import { createPublicClient, http } from 'viem';
 import { 
   Portfolio, 
@@ -11,6 +11,7 @@ import {
 } from '@/types';
 import { pricingService } from './pricing';
 import { POPULAR_TOKENS } from '@/lib/constants';
+import { formatAmount, toNumber } from '@/utils/amount';
 
 // =============================================================================
 // ERC20 ABI
@@ -75,8 +76,21 @@ export class PortfolioService {
       transport: http(this.getRpcUrl(1))
     }));
 
-    // Add more chains as needed
-    // Polygon, Arbitrum, etc.
+    // Polygon
+    this.clients.set(137, createPublicClient({
+      chain: polygon,
+      transport: http(this.getRpcUrl(137))
+    }));
+
+    // Arbitrum
+    this.clients.set(42161, createPublicClient({
+      chain: arbitrum,
+      transport: http(this.getRpcUrl(42161))
+    }));
+  }
+
+  getPublicClient(chainId: number): PublicClient | undefined {
+    return this.clients.get(chainId);
   }
 
   private getRpcUrl(chainId: number): string {
@@ -146,14 +160,14 @@ export class PortfolioService {
       const nativeToken = this.getNativeToken(chainId);
       
       if (nativeToken) {
-        const formattedBalance = formatUnits(nativeBalance, nativeToken.decimals);
+        const formattedBalance = formatAmount(nativeBalance, nativeToken.decimals);
         const priceData = await this.getTokenPrice(nativeToken.symbol);
         
         balances.push({
           token: nativeToken,
           balance: nativeBalance.toString(),
           balanceFormatted: formattedBalance,
-          balanceUSD: parseFloat(formattedBalance) * (priceData?.price || 0),
+          balanceUSD: toNumber(nativeBalance, nativeToken.decimals) * (priceData?.price || 0),
           price: priceData?.price,
           priceChange24h: priceData?.priceChange24h,
         });
@@ -171,18 +185,17 @@ export class PortfolioService {
                 args: [address],
               });
 
-              const formattedBalance = formatUnits(balance as bigint, token.decimals);
-              const balanceNum = parseFloat(formattedBalance);
+              const rawBalance = balance as bigint;
 
               // Only include tokens with non-zero balance
-              if (balanceNum > 0) {
+              if (rawBalance > BigInt(0)) {
                 const priceData = await this.getTokenPrice(token.symbol);
                 
                 return {
                   token,
-                  balance: (balance as bigint).toString(),
-                  balanceFormatted: formattedBalance,
-                  balanceUSD: balanceNum * (priceData?.price || 0),
+                  balance: rawBalance.toString(),
+                  balanceFormatted: formatAmount(rawBalance, token.decimals),
+                  balanceUSD: toNumber(rawBalance, token.decimals) * (priceData?.price || 0),
                   price: priceData?.price,
                   priceChange24h: priceData?.priceChange24h,
                 };
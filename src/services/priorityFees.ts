@@ -0,0 +1,146 @@
+import { Connection, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import { GasSpeed, PriorityFeeEstimate, PriorityFeeLevel } from '@/types';
+import { GAS_SPEEDS, PRIORITY_FEE_PERCENTILES } from './gas';
+import { pricingService } from './pricing';
+import { APP_CONFIG } from '@/lib/constants';
+import { formatAmount } from '@/utils/amount';
+import { logger } from '@/utils/logger';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+// getRecentPrioritizationFees accepts at most this many accounts
+const MAX_FEE_ACCOUNTS = 128;
+
+const MICRO_LAMPORTS_PER_LAMPORT = 1000000;
+
+// =============================================================================
+// PRIORITY FEE SERVICE CLASS
+// =============================================================================
+
+export class PriorityFeeService {
+  private static instance: PriorityFeeService;
+  private cache: Map<string, { data: unknown; timestamp: number }> = new Map();
+  private readonly CACHE_DURATION = APP_CONFIG.SOLANA.PRIORITY_FEE_CACHE_DURATION;
+
+  private constructor() {}
+
+  static getInstance(): PriorityFeeService {
+    if (!PriorityFeeService.instance) {
+      PriorityFeeService.instance = new PriorityFeeService();
+    }
+    return PriorityFeeService.instance;
+  }
+
+  // ==========================================================================
+  // CACHE MANAGEMENT
+  // ==========================================================================
+
+  private getCachedData<T>(key: string): T | null {
+    const cached = this.cache.get(key);
+    if (cached && Date.now() - cached.timestamp < this.CACHE_DURATION) {
+      return cached.data as T;
+    }
+    return null;
+  }
+
+  private setCachedData<T>(key: string, data: T): void {
+    this.cache.set(key, { data, timestamp: Date.now() });
+  }
+
+  // ==========================================================================
+  // FEE ESTIMATION
+  // ==========================================================================
+
+  /**
+   * Priority fee levels for a transaction writing to `accounts`, from the
+   * compute unit prices recent slots needed to land transactions locking
+   * them. Each level is the total for `computeUnits`, capped at
+   * `maxFeeLamports`.
+   */
+  async getFeeEstimate(
+    accounts: PublicKey[],
+    connection: Connection,
+    options: { computeUnits?: number; maxFeeLamports?: number } = {}
+  ): Promise<PriorityFeeEstimate> {
+    const computeUnits = options.computeUnits || APP_CONFIG.SOLANA.SWAP_COMPUTE_UNITS;
+    const maxFeeLamports = options.maxFeeLamports ?? APP_CONFIG.SOLANA.DEFAULT_MAX_PRIORITY_FEE_LAMPORTS;
+    const lockedWritableAccounts = accounts.slice(0, MAX_FEE_ACCOUNTS);
+
+    try {
+      const [prices, solPriceUSD] = await Promise.all([
+        this.getRecentPrices(lockedWritableAccounts, connection),
+        this.getSolPriceUSD(),
+      ]);
+
+      let floor = 0;
+      const levels = GAS_SPEEDS.reduce((result, speed) => {
+        // A faster speed never bids less than a slower one
+        const price = Math.max(this.percentile(prices, PRIORITY_FEE_PERCENTILES[speed]), floor);
+        floor = price;
+        result[speed] = this.getLevel(speed, price, computeUnits, maxFeeLamports, solPriceUSD);
+        return result;
+      }, {} as Record<GasSpeed, PriorityFeeLevel>);
+
+      return { computeUnits, levels, solPriceUSD, updatedAt: new Date() };
+    } catch (error) {
+      logger.error('Error estimating Solana priority fees:', error);
+      throw new Error('Unable to estimate priority fees');
+    }
+  }
+
+  // Micro-lamports per compute unit paid in each recent slot, in slot order
+  private async getRecentPrices(accounts: PublicKey[], connection: Connection): Promise<number[]> {
+    const cacheKey = `prices_${accounts.map(account => account.toBase58()).sort().join(',')}`;
+    const cached = this.getCachedData<number[]>(cacheKey);
+    if (cached) return cached;
+
+    const fees = await connection.getRecentPrioritizationFees({ lockedWritableAccounts: accounts });
+    const prices = fees.map(fee => fee.prioritizationFee);
+
+    this.setCachedData(cacheKey, prices);
+    return prices;
+  }
+
+  private getLevel(
+    speed: GasSpeed,
+    microLamportsPerComputeUnit: number,
+    computeUnits: number,
+    maxFeeLamports: number,
+    solPriceUSD: number | null
+  ): PriorityFeeLevel {
+    const uncapped = Math.ceil((microLamportsPerComputeUnit * computeUnits) / MICRO_LAMPORTS_PER_LAMPORT);
+    const lamports = Math.min(uncapped, maxFeeLamports);
+
+    return {
+      speed,
+      microLamportsPerComputeUnit,
+      lamports,
+      fee: formatAmount(BigInt(lamports), 9),
+      feeUSD: solPriceUSD !== null ? (lamports / LAMPORTS_PER_SOL) * solPriceUSD : null,
+      isCapped: uncapped > maxFeeLamports,
+    };
+  }
+
+  private percentile(values: number[], percentile: number): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.min(sorted.length - 1, Math.floor((sorted.length * percentile) / 100))] ?? 0;
+  }
+
+  private async getSolPriceUSD(): Promise<number | null> {
+    try {
+      const priceData = await pricingService.getTokenPrice('SOL');
+      return priceData.price > 0 ? priceData.price : null;
+    } catch (error) {
+      logger.warn('Failed to get SOL price for priority fees:', error);
+      return null;
+    }
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+}
+
+export const priorityFeeService = PriorityFeeService.getInstance();
@@ -0,0 +1,253 @@
+import { Address, Hash, Log, decodeEventLog, parseAbi } from 'viem';
+import { Connection, PublicKey, TokenBalance } from '@solana/web3.js';
+import { SwapExecution, Token, Trade } from '@/types';
+import { portfolioService } from './portfolio';
+import { wrapService } from './wrap';
+import { formatAmount } from '@/utils/amount';
+import { logger } from '@/utils/logger';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+// Wrapped native tokens mint and burn with Deposit/Withdrawal, not Transfer
+const TOKEN_EVENTS_ABI = parseAbi([
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'event Deposit(address indexed dst, uint256 wad)',
+  'event Withdrawal(address indexed src, uint256 wad)',
+]);
+
+const NATIVE_TOKEN_ADDRESSES = [
+  '0x0000000000000000000000000000000000000000',
+  '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee',
+];
+
+const SOL_MINT: string = 'So11111111111111111111111111111111111111112';
+
+// =============================================================================
+// RECEIPT SERVICE CLASS
+// =============================================================================
+
+/**
+ * Reads what a confirmed swap actually moved in and out of the trader's
+ * account, so trade history records executed amounts rather than the quote.
+ */
+export class ReceiptService {
+  private static instance: ReceiptService;
+
+  private constructor() {}
+
+  static getInstance(): ReceiptService {
+    if (!ReceiptService.instance) {
+      ReceiptService.instance = new ReceiptService();
+    }
+    return ReceiptService.instance;
+  }
+
+  // ==========================================================================
+  // EVM RECEIPTS
+  // ==========================================================================
+
+  /**
+   * Net token movements come from the receipt's Transfer logs. The native
+   * currency moves as call value and internal transfers, which leave no logs,
+   * so it's read from the account's balance either side of the block; that
+   * assumes the account sent nothing else in the same block.
+   */
+  async getEvmSwapExecution(
+    hash: Hash,
+    chainId: number,
+    account: Address,
+    fromToken: Token,
+    toToken: Token
+  ): Promise<SwapExecution> {
+    const client = portfolioService.getPublicClient(chainId);
+    if (!client) {
+      throw new Error(`No RPC client configured for chain ${chainId}`);
+    }
+
+    try {
+      const receipt = await client.getTransactionReceipt({ hash });
+      if (receipt.status !== 'success') {
+        throw new Error(`Swap ${hash} reverted`);
+      }
+
+      const gasFee = receipt.gasUsed * receipt.effectiveGasPrice;
+      const tokenDeltas = this.getTokenDeltas(receipt.logs, account);
+
+      let nativeDelta = BigInt(0);
+      if (this.isNative(fromToken) || this.isNative(toToken)) {
+        const [before, after] = await Promise.all([
+          client.getBalance({ address: account, blockNumber: receipt.blockNumber - BigInt(1) }),
+          client.getBalance({ address: account, blockNumber: receipt.blockNumber }),
+        ]);
+        nativeDelta = after - before + gasFee;
+      }
+
+      const getDelta = (token: Token) => this.isNative(token)
+        ? nativeDelta
+        : tokenDeltas.get(token.address.toLowerCase()) ?? BigInt(0);
+
+      return this.getExecution(
+        fromToken,
+        toToken,
+        -getDelta(fromToken),
+        getDelta(toToken),
+        {
+          gasUsed: receipt.gasUsed.toString(),
+          gasFee: formatAmount(gasFee, 18),
+          blockNumber: Number(receipt.blockNumber),
+        }
+      );
+    } catch (error) {
+      logger.error(`Error reading swap receipt ${hash}:`, error);
+      throw new Error('Unable to read executed swap amounts');
+    }
+  }
+
+  // Net amount of each token into (positive) or out of the account
+  private getTokenDeltas(logs: Log[], account: Address): Map<string, bigint> {
+    const owner = account.toLowerCase();
+    const deltas = new Map<string, bigint>();
+    const add = (token: Address, amount: bigint) => {
+      const key = token.toLowerCase();
+      deltas.set(key, (deltas.get(key) ?? BigInt(0)) + amount);
+    };
+
+    logs.forEach(log => {
+      let event;
+      try {
+        event = decodeEventLog({ abi: TOKEN_EVENTS_ABI, data: log.data, topics: log.topics });
+      } catch {
+        return; // Not a fungible token event
+      }
+
+      switch (event.eventName) {
+        case 'Transfer':
+          if (event.args.from.toLowerCase() === owner) add(log.address, -event.args.value);
+          if (event.args.to.toLowerCase() === owner) add(log.address, event.args.value);
+          break;
+        case 'Deposit':
+          if (event.args.dst.toLowerCase() === owner) add(log.address, event.args.wad);
+          break;
+        case 'Withdrawal':
+          if (event.args.src.toLowerCase() === owner) add(log.address, -event.args.wad);
+          break;
+      }
+    });
+
+    return deltas;
+  }
+
+  private isNative(token: Token): boolean {
+    return NATIVE_TOKEN_ADDRESSES.includes(token.address.toLowerCase());
+  }
+
+  // ==========================================================================
+  // SOLANA TRANSACTIONS
+  // ==========================================================================
+
+  /**
+   * SPL amounts come from the transaction's pre and post token balances of
+   * accounts the owner holds. SOL (including SOL Jupiter wrapped and unwrapped
+   * within the swap) comes from the owner's lamports, net of the network fee,
+   * so it also counts any account rent or Jito tip the transaction paid.
+   */
+  async getSolanaSwapExecution(
+    signature: string,
+    owner: PublicKey,
+    fromToken: Token,
+    toToken: Token,
+    connection: Connection
+  ): Promise<SwapExecution> {
+    try {
+      const transaction = await connection.getParsedTransaction(signature, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0,
+      });
+      const meta = transaction?.meta;
+      if (!transaction || !meta) {
+        throw new Error(`Swap ${signature} not found`);
+      }
+      if (meta.err) {
+        throw new Error(`Swap ${signature} failed`);
+      }
+
+      const ownerAddress = owner.toBase58();
+      const fee = BigInt(meta.fee);
+      const ownerIndex = transaction.transaction.message.accountKeys.findIndex(key => key.pubkey.equals(owner));
+      const lamportsDelta = ownerIndex < 0
+        ? BigInt(0)
+        : BigInt(meta.postBalances[ownerIndex] ?? 0) - BigInt(meta.preBalances[ownerIndex] ?? 0) +
+          (ownerIndex === 0 ? fee : BigInt(0));
+
+      const getTokenTotal = (balances: TokenBalance[] | null | undefined, mint: string) => (balances || [])
+        .filter(balance => balance.owner === ownerAddress && balance.mint === mint)
+        .reduce((total, balance) => total + BigInt(balance.uiTokenAmount.amount), BigInt(0));
+      const getDelta = (token: Token) => token.address === SOL_MINT && !wrapService.isWrappedSol(token)
+        ? lamportsDelta
+        : getTokenTotal(meta.postTokenBalances, token.address) - getTokenTotal(meta.preTokenBalances, token.address);
+
+      return this.getExecution(
+        fromToken,
+        toToken,
+        -getDelta(fromToken),
+        getDelta(toToken),
+        {
+          gasUsed: String(meta.computeUnitsConsumed ?? 0),
+          gasFee: formatAmount(fee, 9),
+          blockNumber: transaction.slot,
+        }
+      );
+    } catch (error) {
+      logger.error(`Error reading swap transaction ${signature}:`, error);
+      throw new Error('Unable to read executed swap amounts');
+    }
+  }
+
+  // ==========================================================================
+  // TRADE UPDATES
+  // ==========================================================================
+
+  /**
+   * Updates that replace a trade's quoted amounts, price and gas with the
+   * executed ones, keeping the quote alongside to measure slippage against
+   */
+  getTradeUpdates(trade: Trade, execution: SwapExecution): Partial<Trade> {
+    const fromAmount = parseFloat(execution.fromAmount);
+    const price = fromAmount > 0 ? parseFloat(execution.toAmount) / fromAmount : 0;
+
+    return {
+      fromAmount: execution.fromAmount,
+      toAmount: execution.toAmount,
+      price,
+      gasUsed: execution.gasUsed,
+      gasFee: execution.gasFee,
+      blockNumber: execution.blockNumber,
+      ...(trade.toAmount !== undefined && { quotedToAmount: trade.toAmount }),
+      quotedPrice: trade.price,
+      realizedSlippage: trade.price > 0 ? (1 - price / trade.price) * 100 : 0,
+    };
+  }
+
+  // A swap that shows nothing spent or received was misread, not executed
+  private getExecution(
+    fromToken: Token,
+    toToken: Token,
+    amountIn: bigint,
+    amountOut: bigint,
+    gas: Pick<SwapExecution, 'gasUsed' | 'gasFee' | 'blockNumber'>
+  ): SwapExecution {
+    if (amountIn <= BigInt(0) || amountOut <= BigInt(0)) {
+      throw new Error(`No ${fromToken.symbol} → ${toToken.symbol} movement found for the account`);
+    }
+
+    return {
+      fromAmount: formatAmount(amountIn, fromToken.decimals),
+      toAmount: formatAmount(amountOut, toToken.decimals),
+      ...gas,
+    };
+  }
+}
+
+export const receiptService = ReceiptService.getInstance();
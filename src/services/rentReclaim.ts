@@ -0,0 +1,298 @@
+import {
+  AccountInfo,
+  Connection,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import {
+  AccountLayout,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  createCloseAccountInstruction,
+} from '@solana/spl-token';
+import { Address } from 'viem';
+import {
+  ReclaimableTokenAccount,
+  RentReclaimResult,
+  RentReclaimSummary,
+  SolanaSubmissionOptions,
+  Token,
+} from '@/types';
+import { APP_CONFIG } from '@/lib/constants';
+import { formatAmount } from '@/utils/amount';
+import { jupiterService, SolanaSwapSigner } from './jupiter';
+import { logger } from '@/utils/logger';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const SOL_MINT: string = 'So11111111111111111111111111111111111111112';
+
+// getMultipleAccountsInfo accepts at most this many accounts
+const MAX_ACCOUNTS_PER_REQUEST = 100;
+
+// =============================================================================
+// RENT RECLAIM SERVICE CLASS
+// =============================================================================
+
+/**
+ * Every Solana token account holds rent the owner gets back by closing it.
+ * Only empty accounts can be closed, so dust is swapped to SOL first.
+ */
+export class RentReclaimService {
+  private static instance: RentReclaimService;
+
+  private constructor() {}
+
+  static getInstance(): RentReclaimService {
+    if (!RentReclaimService.instance) {
+      RentReclaimService.instance = new RentReclaimService();
+    }
+    return RentReclaimService.instance;
+  }
+
+  // ==========================================================================
+  // RECLAIMABLE ACCOUNTS
+  // ==========================================================================
+
+  /**
+   * The owner's token accounts that can be closed. With `includeDust`,
+   * accounts whose balance Jupiter would swap for at most `dustThresholdSol`
+   * are listed as dust; balances it can't route are left out.
+   */
+  async getReclaimableAccounts(
+    owner: PublicKey,
+    options: { includeDust?: boolean; dustThresholdSol?: number } = {}
+  ): Promise<RentReclaimSummary> {
+    const threshold = options.dustThresholdSol ?? APP_CONFIG.RENT_RECLAIM.DUST_THRESHOLD_SOL;
+
+    try {
+      // Fresh, so accounts closed a moment ago aren't listed again
+      const { tokens: balances } = await jupiterService.getSolanaTokenBalances(owner, {
+        includeEmpty: true,
+        skipCache: true,
+      });
+      const sol = await this.getSolToken();
+
+      const emptyAccounts: ReclaimableTokenAccount[] = [];
+      const dustAccounts: ReclaimableTokenAccount[] = [];
+
+      // One at a time: a wallet can hold dozens of dust balances to quote
+      for (const balance of balances) {
+        const isEmpty = balance.rawAmount === '0';
+        // Closing a funded wSOL account unwraps it rather than reclaiming rent
+        if (!balance.isClosable || (!isEmpty && (!options.includeDust || balance.mint === SOL_MINT))) {
+          continue;
+        }
+
+        const account: ReclaimableTokenAccount = {
+          address: balance.account,
+          token: await this.getToken(balance.mint, balance.decimals),
+          amount: balance.rawAmount,
+          uiAmount: balance.uiAmount,
+          rentLamports: balance.lamports,
+          isToken2022: balance.isToken2022,
+        };
+
+        if (isEmpty) {
+          emptyAccounts.push(account);
+          continue;
+        }
+
+        const dustValueSol = await this.getDustValue(account, sol, threshold);
+        if (dustValueSol !== null) {
+          dustAccounts.push({ ...account, dustValueSol });
+        }
+      }
+
+      const reclaimableLamports = [...emptyAccounts, ...dustAccounts]
+        .reduce((total, account) => total + account.rentLamports, 0);
+      const dustValueSol = dustAccounts
+        .reduce((total, account) => total + parseFloat(account.dustValueSol ?? '0'), 0);
+
+      return {
+        emptyAccounts,
+        dustAccounts,
+        reclaimableLamports,
+        reclaimableSol: formatAmount(BigInt(reclaimableLamports), 9),
+        dustValueSol: dustValueSol.toString(),
+      };
+    } catch (error) {
+      logger.error('Error listing reclaimable token accounts:', error);
+      throw new Error('Unable to list reclaimable token accounts');
+    }
+  }
+
+  // SOL the balance swaps for, or null if it's worth more than dust or has no route
+  private async getDustValue(account: ReclaimableTokenAccount, sol: Token, threshold: number): Promise<string | null> {
+    try {
+      const [quote] = await jupiterService.getSwapQuote(
+        account.token,
+        sol,
+        formatAmount(BigInt(account.amount), account.token.decimals),
+        APP_CONFIG.RENT_RECLAIM.DUST_SLIPPAGE
+      );
+      return quote && parseFloat(quote.toAmount) <= threshold ? quote.toAmount : null;
+    } catch (error) {
+      logger.warn(`Failed to quote ${account.token.symbol} dust:`, error);
+      return null;
+    }
+  }
+
+  // ==========================================================================
+  // CLOSING
+  // ==========================================================================
+
+  /**
+   * Swap dust to SOL (with `swapDust`), then close the accounts in batched
+   * transactions, rent going back to the owner. Accounts that are still
+   * funded when it's time to close them are skipped, not burned.
+   */
+  async reclaimRent(
+    accounts: ReclaimableTokenAccount[],
+    signer: SolanaSwapSigner,
+    options: { swapDust?: boolean; submission?: SolanaSubmissionOptions } = {}
+  ): Promise<RentReclaimResult> {
+    const connection = jupiterService.getConnection();
+    const result: RentReclaimResult = { closedAccounts: [], failedAccounts: [], signatures: [], reclaimedLamports: 0 };
+
+    try {
+      const sol = await this.getSolToken();
+      const swapped: ReclaimableTokenAccount[] = [];
+
+      for (const account of accounts) {
+        if (account.amount === '0' || !options.swapDust) continue;
+
+        try {
+          const [quote] = await jupiterService.getSwapQuote(
+            account.token,
+            sol,
+            formatAmount(BigInt(account.amount), account.token.decimals),
+            APP_CONFIG.RENT_RECLAIM.DUST_SLIPPAGE
+          );
+          if (!quote) {
+            throw new Error(`No route for ${account.token.symbol}`);
+          }
+          result.signatures.push(await jupiterService.sendSwap(quote, signer, options.submission));
+          swapped.push(account);
+        } catch (error) {
+          logger.warn(`Failed to swap ${account.token.symbol} dust:`, error);
+          result.failedAccounts.push(account.address);
+        }
+      }
+
+      // Re-read the accounts: a swap can leave a remainder, and an account
+      // may have been funded or closed since it was listed
+      const candidates = [...accounts.filter(account => account.amount === '0'), ...swapped];
+      const infos = await this.getAccounts(candidates.map(account => new PublicKey(account.address)), connection);
+      const closable = candidates
+        .map((account, index) => ({ account, info: infos[index] }))
+        .filter(({ account, info }) => {
+          if (!info) return false; // Already closed
+          if (AccountLayout.decode(info.data).amount !== BigInt(0)) {
+            result.failedAccounts.push(account.address);
+            return false;
+          }
+          return true;
+        });
+
+      const batchSize = APP_CONFIG.RENT_RECLAIM.CLOSE_ACCOUNTS_PER_TRANSACTION;
+      for (let i = 0; i < closable.length; i += batchSize) {
+        const batch = closable.slice(i, i + batchSize);
+        const addresses = batch.map(({ account }) => account.address);
+
+        try {
+          const signature = await this.sendAndConfirm(
+            batch.map(({ account }) => createCloseAccountInstruction(
+              new PublicKey(account.address),
+              signer.publicKey,
+              signer.publicKey,
+              [],
+              account.isToken2022 ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID
+            )),
+            signer,
+            connection
+          );
+          result.signatures.push(signature);
+          result.closedAccounts.push(...addresses);
+          result.reclaimedLamports += batch.reduce((total, { info }) => total + (info?.lamports ?? 0), 0);
+        } catch (error) {
+          logger.warn('Failed to close token accounts:', error);
+          result.failedAccounts.push(...addresses);
+        }
+      }
+
+      return result;
+    } catch (error) {
+      logger.error('Error reclaiming token account rent:', error);
+      throw new Error('Unable to reclaim token account rent');
+    }
+  }
+
+  private async getAccounts(addresses: PublicKey[], connection: Connection): Promise<(AccountInfo<Buffer> | null)[]> {
+    const batches: PublicKey[][] = [];
+    for (let i = 0; i < addresses.length; i += MAX_ACCOUNTS_PER_REQUEST) {
+      batches.push(addresses.slice(i, i + MAX_ACCOUNTS_PER_REQUEST));
+    }
+
+    const results = await Promise.all(batches.map(batch => connection.getMultipleAccountsInfo(batch)));
+    return results.flat();
+  }
+
+  private async sendAndConfirm(
+    instructions: TransactionInstruction[],
+    signer: SolanaSwapSigner,
+    connection: Connection
+  ): Promise<string> {
+    const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+    const transaction = new VersionedTransaction(new TransactionMessage({
+      payerKey: signer.publicKey,
+      recentBlockhash: blockhash,
+      instructions,
+    }).compileToV0Message());
+
+    const signature = signer.signTransaction
+      ? await connection.sendRawTransaction((await signer.signTransaction(transaction)).serialize())
+      : await signer.sendTransaction(transaction, connection);
+
+    const { value } = await connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+    if (value.err) {
+      throw new Error(`Close transaction ${signature} failed`);
+    }
+    return signature;
+  }
+
+  // ==========================================================================
+  // TOKENS
+  // ==========================================================================
+
+  private async getToken(mint: string, decimals: number): Promise<Token> {
+    const token = await jupiterService.getTokenMetadata(mint);
+    return token || {
+      id: mint,
+      address: mint as Address,
+      symbol: 'UNKNOWN',
+      name: 'Unknown Token',
+      decimals,
+      isVerified: false,
+      tags: ['solana'],
+    };
+  }
+
+  private async getSolToken(): Promise<Token> {
+    const sol = await jupiterService.getTokenMetadata(SOL_MINT);
+    return sol || {
+      id: 'solana',
+      address: SOL_MINT as Address,
+      symbol: 'SOL',
+      name: 'Solana',
+      decimals: 9,
+      isVerified: true,
+    };
+  }
+}
+
+export const rentReclaimService = RentReclaimService.getInstance();
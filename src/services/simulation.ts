@@ -0,0 +1,382 @@
+import { Address, BaseError, Hex, decodeErrorResult, encodeFunctionData, hexToBigInt, parseAbi, toHex } from 'viem';
+import { erc20ABI } from 'wagmi';
+import { Connection, PublicKey, VersionedTransaction } from '@solana/web3.js';
+import { AccountLayout, TOKEN_PROGRAM_ID, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { BalanceChange, SimulationResult, SwapTransaction, Token } from '@/types';
+import { portfolioService } from './portfolio';
+import { NATIVE_CURRENCY } from '@/lib/wagmi';
+import { formatAmount } from '@/utils/amount';
+import { resolveRouteToken } from '@/utils/route';
+import { logger } from '@/utils/logger';
+
+// =============================================================================
+// SIMULATION INTERFACES
+// =============================================================================
+
+interface SimulatedLog {
+  address: Address;
+  topics: Hex[];
+  data: Hex;
+}
+
+interface SimulatedCall {
+  status: Hex; // 0x1 on success
+  returnData: Hex;
+  gasUsed: Hex;
+  logs: SimulatedLog[];
+  error?: {
+    code: number;
+    message: string;
+    data?: Hex;
+  };
+}
+
+type SimulateV1Response = Array<{ calls: SimulatedCall[] }>;
+
+// viem doesn't type eth_simulateV1 yet
+type RawRequest = (args: { method: string; params: unknown[] }) => Promise<unknown>;
+
+export interface EvmSimulationRequest {
+  chainId: number;
+  account: Address;
+  transaction: SwapTransaction;
+  // An approval the transaction relies on that hasn't been sent yet
+  approval?: { token: Address; spender: Address; amount: bigint };
+  tokens: Token[]; // Used to label balance changes
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+// With traceTransfers on, eth_simulateV1 reports native transfers as
+// ERC20 Transfer logs emitted by this address
+const NATIVE_TRANSFER_ADDRESS = '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+const SOL_MINT: string = 'So11111111111111111111111111111111111111112';
+
+const REVERT_ABI = parseAbi(['error Error(string reason)', 'error Panic(uint256 code)']);
+
+// =============================================================================
+// SIMULATION SERVICE CLASS
+// =============================================================================
+
+export class SimulationService {
+  private static instance: SimulationService;
+
+  private constructor() {}
+
+  static getInstance(): SimulationService {
+    if (!SimulationService.instance) {
+      SimulationService.instance = new SimulationService();
+    }
+    return SimulationService.instance;
+  }
+
+  // ==========================================================================
+  // EVM SIMULATION
+  // ==========================================================================
+
+  /**
+   * Run the transaction (after its pending approval, if any) against the
+   * latest block with eth_simulateV1, tracing every transfer in and out of
+   * the account. Nodes without eth_simulateV1 fall back to eth_call, which
+   * only tells us whether the transaction reverts.
+   */
+  async simulateEvmTransaction(request: EvmSimulationRequest): Promise<SimulationResult> {
+    const { chainId, account, transaction, approval } = request;
+    const client = portfolioService.getPublicClient(chainId);
+    if (!client) {
+      throw new Error(`No RPC client configured for chain ${chainId}`);
+    }
+
+    const calls = [
+      ...(approval ? [{
+        from: account,
+        to: approval.token,
+        data: encodeFunctionData({ abi: erc20ABI, functionName: 'approve', args: [approval.spender, approval.amount] }),
+      }] : []),
+      {
+        from: account,
+        to: transaction.to,
+        data: transaction.data,
+        value: toHex(transaction.value),
+        ...(transaction.gas !== undefined && { gas: toHex(transaction.gas) }),
+      },
+    ];
+
+    let response: SimulateV1Response;
+    try {
+      response = await (client.request as unknown as RawRequest)({
+        method: 'eth_simulateV1',
+        params: [{ blockStateCalls: [{ calls }], traceTransfers: true, validation: false }, 'latest'],
+      }) as SimulateV1Response;
+    } catch (error) {
+      logger.warn(`eth_simulateV1 unavailable on chain ${chainId}, falling back to eth_call:`, error);
+      return this.callEvmTransaction(request);
+    }
+
+    const results = response[0]?.calls || [];
+    const swapResult = results[results.length - 1];
+    const failedIndex = results.findIndex(call => call.status !== '0x1');
+    const failed = results[failedIndex];
+    const logs = results.flatMap(call => call.logs);
+    const tokens = await this.resolveTransferTokens(logs, request.tokens, chainId);
+
+    return {
+      success: !!swapResult && !failed,
+      balanceChanges: this.getTransferDeltas(logs, account, tokens),
+      logs: logs.map(log => this.describeLog(log, tokens)),
+      ...(failed && {
+        error: `${approval && failedIndex === 0 ? 'Approval failed: ' : ''}${this.getRevertReason(failed)}`,
+      }),
+      ...(swapResult && { gasUsed: hexToBigInt(swapResult.gasUsed).toString() }),
+      simulatedAt: new Date(),
+    };
+  }
+
+  private async callEvmTransaction(request: EvmSimulationRequest): Promise<SimulationResult> {
+    const { chainId, account, transaction, approval } = request;
+    const client = portfolioService.getPublicClient(chainId);
+
+    // eth_call can't apply the approval first, so the swap would revert on
+    // the missing allowance. Execution simulates again once it's in place.
+    if (!client || approval) {
+      return {
+        success: true,
+        balanceChanges: [],
+        logs: ['The swap will be simulated once the approval is in place'],
+        isPartial: true,
+        simulatedAt: new Date(),
+      };
+    }
+
+    try {
+      await client.call({
+        account,
+        to: transaction.to,
+        data: transaction.data,
+        value: transaction.value,
+        ...(transaction.gas !== undefined && { gas: transaction.gas }),
+      });
+      return { success: true, balanceChanges: [], logs: [], isPartial: true, simulatedAt: new Date() };
+    } catch (error) {
+      return {
+        success: false,
+        balanceChanges: [],
+        logs: [],
+        error: error instanceof BaseError ? error.shortMessage : 'Transaction reverted',
+        isPartial: true,
+        simulatedAt: new Date(),
+      };
+    }
+  }
+
+  private getTransferDeltas(logs: SimulatedLog[], account: Address, tokens: Map<string, Token>): BalanceChange[] {
+    const owner = account.toLowerCase();
+    const deltas = new Map<string, bigint>();
+
+    logs.filter(log => this.isTransferLog(log)).forEach(log => {
+      const key = this.getLogTokenKey(log);
+      const amount = hexToBigInt(log.data);
+      const from = this.topicToAddress(log.topics[1]);
+      const to = this.topicToAddress(log.topics[2]);
+      const delta = deltas.get(key) ?? BigInt(0);
+
+      if (from === owner) deltas.set(key, delta - amount);
+      if (to === owner) deltas.set(key, (deltas.get(key) ?? BigInt(0)) + amount);
+    });
+
+    return Array.from(deltas.entries())
+      .filter(([, delta]) => delta !== BigInt(0))
+      .flatMap(([key, delta]) => {
+        const token = tokens.get(key);
+        return token ? [{ token, amount: formatAmount(delta, token.decimals) }] : [];
+      });
+  }
+
+  /**
+   * The token behind every transfer in the logs, keyed by lowercase
+   * address. Tokens we don't know are looked up for their decimals.
+   */
+  private async resolveTransferTokens(
+    logs: SimulatedLog[],
+    knownTokens: Token[],
+    chainId: number
+  ): Promise<Map<string, Token>> {
+    const client = portfolioService.getPublicClient(chainId);
+    const keys = Array.from(new Set(logs.filter(log => this.isTransferLog(log)).map(log => this.getLogTokenKey(log))));
+
+    const entries = await Promise.all(keys.map(async (key): Promise<[string, Token]> => {
+      if (key === ZERO_ADDRESS) {
+        return [key, this.getNativeToken(knownTokens, chainId)];
+      }
+
+      const known = knownTokens.find(token => token.address.toLowerCase() === key);
+      if (known || !client) {
+        return [key, known || resolveRouteToken(key, knownTokens)];
+      }
+
+      const decimals = await client.readContract({
+        address: key as Address,
+        abi: erc20ABI,
+        functionName: 'decimals',
+      }).catch(() => 18);
+      return [key, resolveRouteToken(key, knownTokens, decimals)];
+    }));
+
+    return new Map(entries);
+  }
+
+  private getNativeToken(knownTokens: Token[], chainId: number): Token {
+    const native = NATIVE_CURRENCY[chainId] || { name: 'Ethereum', symbol: 'ETH', decimals: 18 };
+    return knownTokens.find(token => token.address === ZERO_ADDRESS) || {
+      id: native.symbol.toLowerCase(),
+      address: ZERO_ADDRESS,
+      symbol: native.symbol,
+      name: native.name,
+      decimals: native.decimals,
+      isVerified: true,
+    };
+  }
+
+  private describeLog(log: SimulatedLog, tokens: Map<string, Token>): string {
+    const token = this.isTransferLog(log) ? tokens.get(this.getLogTokenKey(log)) : undefined;
+    if (!token) {
+      return `${this.shortenAddress(log.address)} emitted ${log.topics[0]?.slice(0, 10) || 'an anonymous event'}`;
+    }
+
+    const amount = formatAmount(hexToBigInt(log.data), token.decimals);
+    const from = this.shortenAddress(this.topicToAddress(log.topics[1]));
+    const to = this.shortenAddress(this.topicToAddress(log.topics[2]));
+    return `Transfer ${amount} ${token.symbol} from ${from} to ${to}`;
+  }
+
+  private getRevertReason(call: SimulatedCall): string {
+    const data = call.error?.data || call.returnData;
+    if (data && data !== '0x') {
+      try {
+        const decoded = decodeErrorResult({ abi: REVERT_ABI, data });
+        return decoded.errorName === 'Error'
+          ? decoded.args[0]
+          : `Panic code ${decoded.args[0].toString()}`;
+      } catch {
+        // A custom error we have no ABI for
+      }
+    }
+    return call.error?.message || 'Transaction reverted';
+  }
+
+  // ERC721 transfers share the signature but index the token id as well
+  private isTransferLog(log: SimulatedLog): boolean {
+    return log.topics[0] === TRANSFER_TOPIC && log.topics.length === 3;
+  }
+
+  private getLogTokenKey(log: SimulatedLog): string {
+    const address = log.address.toLowerCase();
+    return address === NATIVE_TRANSFER_ADDRESS ? ZERO_ADDRESS : address;
+  }
+
+  private topicToAddress(topic: Hex | undefined): string {
+    return topic ? `0x${topic.slice(-40)}`.toLowerCase() : ZERO_ADDRESS;
+  }
+
+  private shortenAddress(address: string): string {
+    return `${address.slice(0, 6)}…${address.slice(-4)}`;
+  }
+
+  // ==========================================================================
+  // SOLANA SIMULATION
+  // ==========================================================================
+
+  /**
+   * Simulate a transaction without a signature and compare the owner's SOL
+   * and token account balances before and after
+   */
+  async simulateSolanaTransaction(
+    transaction: VersionedTransaction,
+    owner: PublicKey,
+    tokens: Token[],
+    connection: Connection
+  ): Promise<SimulationResult> {
+    try {
+      const splTokens = tokens.filter(
+        (token, index) => token.address !== SOL_MINT && tokens.findIndex(other => other.address === token.address) === index
+      );
+      // Token-2022 accounts are derived with that program's id, which the
+      // mint's owner tells us
+      const mints = splTokens.map(token => new PublicKey(token.address));
+      const mintAccounts = mints.length > 0 ? await connection.getMultipleAccountsInfo(mints) : [];
+      const tokenAccounts = mints.map((mint, index) =>
+        getAssociatedTokenAddressSync(mint, owner, true, mintAccounts[index]?.owner ?? TOKEN_PROGRAM_ID)
+      );
+      const addresses = [owner, ...tokenAccounts];
+
+      const preAccounts = await connection.getMultipleAccountsInfo(addresses);
+      const { value } = await connection.simulateTransaction(transaction, {
+        sigVerify: false,
+        replaceRecentBlockhash: true,
+        commitment: 'processed',
+        accounts: { encoding: 'base64', addresses: addresses.map(address => address.toBase58()) },
+      });
+
+      const postAccounts = value.accounts || [];
+      const logs = value.logs || [];
+      const balanceChanges: BalanceChange[] = [];
+
+      // wrapAndUnwrapSol settles wrapped SOL in the owner's lamports
+      const lamportsDelta = BigInt(postAccounts[0]?.lamports ?? preAccounts[0]?.lamports ?? 0) -
+        BigInt(preAccounts[0]?.lamports ?? 0);
+      if (lamportsDelta !== BigInt(0)) {
+        const sol = this.getSolToken(tokens);
+        balanceChanges.push({ token: sol, amount: formatAmount(lamportsDelta, sol.decimals) });
+      }
+
+      splTokens.forEach((token, index) => {
+        const pre = preAccounts[index + 1];
+        const post = postAccounts[index + 1];
+        const preAmount = pre ? AccountLayout.decode(pre.data).amount : BigInt(0);
+        const postAmount = post ? AccountLayout.decode(Buffer.from(post.data[0] ?? '', 'base64')).amount : preAmount;
+        const delta = postAmount - preAmount;
+
+        if (delta !== BigInt(0)) {
+          balanceChanges.push({ token, amount: formatAmount(delta, token.decimals) });
+        }
+      });
+
+      return {
+        success: !value.err,
+        balanceChanges,
+        logs,
+        ...(value.err && { error: this.getProgramError(value.err, logs) }),
+        ...(value.unitsConsumed !== undefined && { gasUsed: value.unitsConsumed.toString() }),
+        simulatedAt: new Date(),
+      };
+    } catch (error) {
+      logger.error('Error simulating Solana transaction:', error);
+      throw new Error('Unable to simulate transaction');
+    }
+  }
+
+  private getSolToken(tokens: Token[]): Token {
+    return tokens.find(token => token.address === SOL_MINT) || {
+      id: 'solana',
+      address: SOL_MINT as Address,
+      symbol: 'SOL',
+      name: 'Solana',
+      decimals: 9,
+      isVerified: true,
+    };
+  }
+
+  // Program logs carry a readable reason; the error object rarely does
+  private getProgramError(err: unknown, logs: string[]): string {
+    const reason = [...logs].reverse().find(log => /error|failed/i.test(log));
+    return reason || (typeof err === 'string' ? err : JSON.stringify(err));
+  }
+}
+
+export const simulationService = SimulationService.getInstance();
@@ -0,0 +1,147 @@
+import axios from 'axios';
+import { Address, FeeValues, Hash, Hex, keccak256 } from 'viem';
+import { sendTransaction, getWalletClient } from 'wagmi/actions';
+import { SubmissionOptions } from '@/types';
+import { portfolioService } from './portfolio';
+import { getPrivateRelayUrl } from '@/lib/wagmi';
+import { APP_CONFIG } from '@/lib/constants';
+import { logger } from '@/utils/logger';
+
+// =============================================================================
+// SUBMISSION INTERFACES
+// =============================================================================
+
+export interface SubmissionRequest {
+  chainId: number;
+  account: Address;
+  to: Address;
+  data: Hex;
+  value: bigint;
+  gas?: bigint;
+  fees: FeeValues;
+}
+
+interface JsonRpcResponse<T> {
+  result?: T;
+  error?: {
+    code: number;
+    message: string;
+  };
+}
+
+// =============================================================================
+// SUBMISSION SERVICE CLASS
+// =============================================================================
+
+export class SubmissionService {
+  private static instance: SubmissionService;
+
+  private constructor() {}
+
+  static getInstance(): SubmissionService {
+    if (!SubmissionService.instance) {
+      SubmissionService.instance = new SubmissionService();
+    }
+    return SubmissionService.instance;
+  }
+
+  /**
+   * Send a transaction with the given strategy. Resolves with its hash once
+   * it has been accepted for inclusion.
+   */
+  async submitTransaction(
+    request: SubmissionRequest,
+    options: SubmissionOptions = { strategy: 'public' }
+  ): Promise<Hash> {
+    switch (options.strategy) {
+      case 'public':
+        return this.submitPublic(request);
+      case 'private':
+        return this.submitPrivate(request, options.relayUrl);
+      default:
+        throw new Error(`Unsupported submission strategy: ${options.strategy}`);
+    }
+  }
+
+  private async submitPublic(request: SubmissionRequest): Promise<Hash> {
+    try {
+      const { hash } = await sendTransaction({
+        account: request.account,
+        chainId: request.chainId,
+        to: request.to,
+        data: request.data,
+        value: request.value,
+        ...request.fees,
+        ...(request.gas !== undefined ? { gas: request.gas } : {}),
+      });
+      return hash;
+    } catch (error) {
+      logger.error('Wallet failed to send transaction:', error);
+      throw new Error('Unable to execute swap transaction');
+    }
+  }
+
+  /**
+   * Have the wallet sign without broadcasting, then hand the raw transaction
+   * to the relay. The relay only sees a complete transaction, so the nonce
+   * and gas limit are filled in here rather than by the wallet.
+   */
+  private async submitPrivate(request: SubmissionRequest, customRelayUrl?: string): Promise<Hash> {
+    const { chainId, account, to, data, value } = request;
+    const relayUrl = getPrivateRelayUrl(chainId, customRelayUrl);
+    if (!relayUrl) {
+      throw new Error(`No private relay is configured for chain ${chainId}`);
+    }
+
+    const client = portfolioService.getPublicClient(chainId);
+    const walletClient = await getWalletClient({ chainId });
+    if (!client || !walletClient) {
+      throw new Error('Wallet not connected');
+    }
+
+    const [nonce, gas] = await Promise.all([
+      client.getTransactionCount({ address: account, blockTag: 'pending' }),
+      request.gas ?? client.estimateGas({ account, to, data, value }).then(estimate =>
+        (estimate * BigInt(Math.round(APP_CONFIG.TRADING.GAS_LIMIT_BUFFER * 100))) / BigInt(100)
+      ),
+    ]);
+
+    let serialized: Hex;
+    try {
+      serialized = await walletClient.signTransaction({
+        account,
+        chain: walletClient.chain,
+        to,
+        data,
+        value,
+        gas,
+        nonce,
+        ...request.fees,
+      });
+    } catch (error) {
+      // Wallets that only sign-and-send (MetaMask among them) reject
+      // eth_signTransaction; they need the relay added as their RPC instead
+      logger.error('Wallet could not sign for private submission:', error);
+      throw new Error('Your wallet can only broadcast publicly. Add the private relay as its network RPC, or turn off private submission.');
+    }
+
+    try {
+      const response = await axios.post<JsonRpcResponse<Hash>>(relayUrl, {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'eth_sendRawTransaction',
+        params: [serialized],
+      });
+
+      if (response.data.error) {
+        throw new Error(response.data.error.message);
+      }
+      return response.data.result || keccak256(serialized);
+    } catch (error) {
+      logger.error('Private relay rejected the transaction:', error);
+      throw new Error('Unable to submit transaction to the private relay');
+    }
+  }
+}
+
+export const submissionService = SubmissionService.getInstance();
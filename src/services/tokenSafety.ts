@@ -0,0 +1,241 @@
+import { AccountInfo, Connection, PublicKey } from '@solana/web3.js';
+import {
+  Mint,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  getPermanentDelegate,
+  getTransferFeeConfig,
+  getTransferHook,
+  unpackMint,
+} from '@solana/spl-token';
+import { Token, TokenRiskLevel, TokenSafety, TokenSafetyWarning } from '@/types';
+import { APP_CONFIG } from '@/lib/constants';
+import { logger } from '@/utils/logger';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+// getMultipleAccountsInfo accepts at most this many accounts
+const MAX_ACCOUNTS_PER_REQUEST = 100;
+
+const RISK_ORDER: TokenRiskLevel[] = ['low', 'medium', 'high'];
+
+// =============================================================================
+// TOKEN SAFETY SERVICE CLASS
+// =============================================================================
+
+/**
+ * Reads what a Solana mint lets its issuer do to holders: mint more, freeze
+ * accounts, tax or gate transfers, move anyone's tokens. Verified tokens
+ * (stablecoins in particular) keep some of these powers by design, so on
+ * them the same findings are flagged less severely.
+ */
+export class TokenSafetyService {
+  private static instance: TokenSafetyService;
+  private cache: Map<string, { data: unknown; timestamp: number }> = new Map();
+  private readonly CACHE_DURATION = APP_CONFIG.TOKEN_SAFETY.CACHE_DURATION;
+
+  private constructor() {}
+
+  static getInstance(): TokenSafetyService {
+    if (!TokenSafetyService.instance) {
+      TokenSafetyService.instance = new TokenSafetyService();
+    }
+    return TokenSafetyService.instance;
+  }
+
+  // ==========================================================================
+  // CACHE MANAGEMENT
+  // ==========================================================================
+
+  private getCachedData<T>(key: string): T | null {
+    const cached = this.cache.get(key);
+    if (cached && Date.now() - cached.timestamp < this.CACHE_DURATION) {
+      return cached.data as T;
+    }
+    return null;
+  }
+
+  private setCachedData<T>(key: string, data: T): void {
+    this.cache.set(key, { data, timestamp: Date.now() });
+  }
+
+  // ==========================================================================
+  // SAFETY ANALYSIS
+  // ==========================================================================
+
+  /**
+   * Safety analysis by mint address, from the mint accounts fetched in
+   * batches. Holder concentration costs a request per mint, so it's only
+   * checked with `includeHolders`. Tokens that aren't mints on this cluster
+   * are left out.
+   */
+  async getTokenSafety(
+    tokens: Token[],
+    connection: Connection,
+    options: { includeHolders?: boolean } = {}
+  ): Promise<Map<string, TokenSafety>> {
+    const results = new Map<string, TokenSafety>();
+    const unchecked = tokens.filter(token => {
+      const cached = this.getCachedData<TokenSafety>(`safety_${token.address}`);
+      if (cached && (!options.includeHolders || cached.topHoldersShare !== null)) {
+        results.set(token.address, cached);
+        return false;
+      }
+      return true;
+    });
+    if (unchecked.length === 0) return results;
+
+    try {
+      const mints = unchecked.map(token => new PublicKey(token.address));
+      const accounts = await this.getMintAccounts(mints, connection);
+
+      await Promise.all(unchecked.map(async (token, index) => {
+        const address = mints[index];
+        const account = accounts[index];
+        if (!address || !account) return;
+
+        const isToken2022 = account.owner.equals(TOKEN_2022_PROGRAM_ID);
+        if (!isToken2022 && !account.owner.equals(TOKEN_PROGRAM_ID)) return;
+
+        const mint = unpackMint(address, account, account.owner);
+        const topHoldersShare = options.includeHolders
+          ? await this.getTopHoldersShare(mint, connection).catch(error => {
+              logger.warn(`Failed to check holders of ${token.symbol}:`, error);
+              return null;
+            })
+          : null;
+
+        const safety = this.assessMint(token, mint, isToken2022, topHoldersShare);
+        this.setCachedData(`safety_${token.address}`, safety);
+        results.set(token.address, safety);
+      }));
+
+      return results;
+    } catch (error) {
+      logger.error('Error checking token safety:', error);
+      throw new Error('Unable to check token safety');
+    }
+  }
+
+  private async getMintAccounts(mints: PublicKey[], connection: Connection): Promise<(AccountInfo<Buffer> | null)[]> {
+    const batches: PublicKey[][] = [];
+    for (let i = 0; i < mints.length; i += MAX_ACCOUNTS_PER_REQUEST) {
+      batches.push(mints.slice(i, i + MAX_ACCOUNTS_PER_REQUEST));
+    }
+
+    const results = await Promise.all(batches.map(batch => connection.getMultipleAccountsInfo(batch)));
+    return results.flat();
+  }
+
+  // Percent of supply held by the largest token accounts
+  private async getTopHoldersShare(mint: Mint, connection: Connection): Promise<number | null> {
+    if (mint.supply === BigInt(0)) return null;
+
+    const { value } = await connection.getTokenLargestAccounts(mint.address);
+    const held = value
+      .slice(0, APP_CONFIG.TOKEN_SAFETY.TOP_HOLDERS)
+      .reduce((total, account) => total + BigInt(account.amount), BigInt(0));
+
+    return Number((held * BigInt(10000)) / mint.supply) / 100;
+  }
+
+  private assessMint(token: Token, mint: Mint, isToken2022: boolean, topHoldersShare: number | null): TokenSafety {
+    const { TOP_HOLDERS, CONCENTRATION_WARNING, CONCENTRATION_HIGH, HIGH_TRANSFER_FEE_BPS } = APP_CONFIG.TOKEN_SAFETY;
+    const isVerified = !!token.isVerified;
+    const warnings: TokenSafetyWarning[] = [];
+
+    if (mint.mintAuthority) {
+      warnings.push({
+        check: 'mint_authority',
+        severity: isVerified ? 'low' : 'medium',
+        message: 'The issuer can mint more supply',
+      });
+    }
+    if (mint.freezeAuthority) {
+      warnings.push({
+        check: 'freeze_authority',
+        severity: isVerified ? 'low' : 'high',
+        message: "The issuer can freeze your tokens so they can't be sold",
+      });
+    }
+
+    // Token-2022 extensions
+    const transferFee = isToken2022 ? getTransferFeeConfig(mint) : null;
+    const transferFeeBps = transferFee
+      ? Math.max(transferFee.olderTransferFee.transferFeeBasisPoints, transferFee.newerTransferFee.transferFeeBasisPoints)
+      : 0;
+    if (transferFeeBps > 0) {
+      warnings.push({
+        check: 'transfer_fee',
+        severity: transferFeeBps >= HIGH_TRANSFER_FEE_BPS ? 'high' : 'medium',
+        message: `Every transfer pays a ${transferFeeBps / 100}% fee to the issuer`,
+      });
+    }
+
+    const transferHook = isToken2022 ? getTransferHook(mint) : null;
+    const hookProgram = transferHook && !transferHook.programId.equals(PublicKey.default)
+      ? transferHook.programId.toBase58()
+      : null;
+    if (hookProgram) {
+      warnings.push({
+        check: 'transfer_hook',
+        severity: isVerified ? 'medium' : 'high',
+        message: 'Transfers run a program chosen by the issuer, which can block them',
+      });
+    }
+
+    const delegate = isToken2022 ? getPermanentDelegate(mint) : null;
+    const permanentDelegate = delegate && !delegate.delegate.equals(PublicKey.default)
+      ? delegate.delegate.toBase58()
+      : null;
+    if (permanentDelegate) {
+      warnings.push({
+        check: 'permanent_delegate',
+        severity: isVerified ? 'medium' : 'high',
+        message: "A permanent delegate can move or burn any holder's tokens",
+      });
+    }
+
+    if (topHoldersShare !== null && topHoldersShare >= CONCENTRATION_WARNING) {
+      warnings.push({
+        check: 'holder_concentration',
+        severity: isVerified ? 'low' : topHoldersShare >= CONCENTRATION_HIGH ? 'high' : 'medium',
+        message: `The ${TOP_HOLDERS} largest accounts hold ${topHoldersShare.toFixed(1)}% of supply`,
+      });
+    }
+
+    if (!isVerified) {
+      warnings.push({
+        check: 'unverified',
+        severity: 'medium',
+        message: "Not on Jupiter's verified token list",
+      });
+    }
+
+    const riskLevel = warnings.reduce<TokenRiskLevel>((level, warning) =>
+      RISK_ORDER.indexOf(warning.severity) > RISK_ORDER.indexOf(level) ? warning.severity : level, 'low'
+    );
+
+    return {
+      mintAuthority: mint.mintAuthority?.toBase58() ?? null,
+      freezeAuthority: mint.freezeAuthority?.toBase58() ?? null,
+      isToken2022,
+      transferFeeBps,
+      transferHookProgram: hookProgram,
+      permanentDelegate,
+      topHoldersShare,
+      isVerified,
+      warnings,
+      riskLevel,
+      checkedAt: new Date(),
+    };
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+}
+
+export const tokenSafetyService = TokenSafetyService.getInstance();
@@ -0,0 +1,252 @@
+import { Address, encodeFunctionData, parseAbi } from 'viem';
+import {
+  Connection,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import {
+  ACCOUNT_SIZE,
+  NATIVE_MINT,
+  TOKEN_PROGRAM_ID,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createCloseAccountInstruction,
+  createInitializeAccount3Instruction,
+  createSyncNativeInstruction,
+  createTransferInstruction,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import { SwapMode, SwapQuote, SwapTransaction, Token } from '@/types';
+import { GAS_LIMITS, NATIVE_CURRENCY, TOKEN_CONTRACTS } from '@/lib/wagmi';
+import { POPULAR_TOKENS } from '@/lib/constants';
+import { parseAmount } from '@/utils/amount';
+import { getQuoteValidUntil } from '@/utils/quote';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const WRAP_AGGREGATOR = 'Wrap';
+
+const WRAPPED_NATIVE_ABI = parseAbi([
+  'function deposit() payable',
+  'function withdraw(uint256 amount)',
+]);
+
+const NATIVE_TOKEN_ADDRESSES = [
+  '0x0000000000000000000000000000000000000000',
+  '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee',
+];
+
+// Jupiter lists the wrapped SOL mint as SOL and wraps it in and out of every
+// swap; this entry stands for SOL held as an SPL token
+export const WRAPPED_SOL_TOKEN: Token = {
+  id: 'wrapped-solana',
+  address: NATIVE_MINT.toBase58() as Address,
+  symbol: 'wSOL',
+  name: 'Wrapped SOL',
+  decimals: 9,
+  isVerified: true,
+  tags: ['solana', 'wrapped'],
+};
+
+// =============================================================================
+// WRAP SERVICE CLASS
+// =============================================================================
+
+/**
+ * Wrapping and unwrapping the native currency is a 1:1 call to the wrapped
+ * token's contract (or the SPL token program on Solana), so it's quoted and
+ * sent directly rather than routed through an aggregator.
+ */
+export class WrapService {
+  private static instance: WrapService;
+
+  private constructor() {}
+
+  static getInstance(): WrapService {
+    if (!WrapService.instance) {
+      WrapService.instance = new WrapService();
+    }
+    return WrapService.instance;
+  }
+
+  // ==========================================================================
+  // PAIR DETECTION
+  // ==========================================================================
+
+  /**
+   * The wrapped native token contract for an EVM chain (WETH, WMATIC, WBNB)
+   */
+  getWrappedNativeAddress(chainId: number): Address | null {
+    if (chainId === 1) {
+      return POPULAR_TOKENS.WETH?.address ?? null;
+    }
+
+    const symbol = NATIVE_CURRENCY[chainId]?.symbol;
+    const address = symbol ? TOKEN_CONTRACTS[chainId]?.[`W${symbol}`] : undefined;
+    return (address as Address | undefined) ?? null;
+  }
+
+  isWrappedSol(token: Token): boolean {
+    return token.id === WRAPPED_SOL_TOKEN.id && token.address === WRAPPED_SOL_TOKEN.address;
+  }
+
+  /**
+   * Whether swapping `fromToken` for `toToken` is a wrap or unwrap, and which.
+   * `chainId` is omitted for Solana.
+   */
+  getWrapDirection(fromToken: Token, toToken: Token, chainId?: number): 'wrap' | 'unwrap' | null {
+    if (chainId === undefined) {
+      const isSol = (token: Token) => token.address === WRAPPED_SOL_TOKEN.address && !this.isWrappedSol(token);
+      if (isSol(fromToken) && this.isWrappedSol(toToken)) return 'wrap';
+      if (this.isWrappedSol(fromToken) && isSol(toToken)) return 'unwrap';
+      return null;
+    }
+
+    const wrapped = this.getWrappedNativeAddress(chainId)?.toLowerCase();
+    if (!wrapped) return null;
+
+    const isNative = (token: Token) => NATIVE_TOKEN_ADDRESSES.includes(token.address.toLowerCase());
+    const isWrapped = (token: Token) => token.address.toLowerCase() === wrapped;
+    if (isNative(fromToken) && isWrapped(toToken)) return 'wrap';
+    if (isWrapped(fromToken) && isNative(toToken)) return 'unwrap';
+    return null;
+  }
+
+  isWrapQuote(quote: SwapQuote): boolean {
+    return quote.aggregator === WRAP_AGGREGATOR;
+  }
+
+  // ==========================================================================
+  // QUOTING
+  // ==========================================================================
+
+  /**
+   * A 1:1 quote with no slippage or price impact, or null if the pair isn't
+   * a wrap or unwrap. ExactIn and ExactOut amounts are the same.
+   */
+  getWrapQuote(
+    fromToken: Token,
+    toToken: Token,
+    amount: string,
+    swapMode: SwapMode = 'ExactIn',
+    chainId?: number
+  ): SwapQuote | null {
+    const direction = this.getWrapDirection(fromToken, toToken, chainId);
+    if (!direction) return null;
+
+    return {
+      id: `wrap_${Date.now()}`,
+      fromToken,
+      toToken,
+      fromAmount: amount,
+      toAmount: amount,
+      price: 1,
+      priceImpact: 0,
+      priceImpactSeverity: 'low',
+      gasEstimate: chainId === undefined
+        ? '0'
+        : String(direction === 'wrap' ? GAS_LIMITS.WRAP : GAS_LIMITS.UNWRAP),
+      route: [],
+      aggregator: WRAP_AGGREGATOR,
+      slippage: 0,
+      swapMode,
+      ...(chainId !== undefined && { chainId }),
+      validUntil: getQuoteValidUntil(),
+    };
+  }
+
+  // ==========================================================================
+  // TRANSACTION BUILDING
+  // ==========================================================================
+
+  /**
+   * `deposit` sends the native currency in as value; `withdraw` burns the
+   * wrapped token straight from the caller, so neither needs an approval
+   */
+  buildEvmTransaction(quote: SwapQuote): SwapTransaction {
+    const direction = this.getWrapDirection(quote.fromToken, quote.toToken, quote.chainId);
+    const wrapped = quote.chainId !== undefined ? this.getWrappedNativeAddress(quote.chainId) : null;
+    if (!direction || !wrapped) {
+      throw new Error('Quote is not an EVM wrap or unwrap');
+    }
+
+    const amount = parseAmount(quote.fromAmount, quote.fromToken.decimals);
+
+    return direction === 'wrap'
+      ? {
+          to: wrapped,
+          data: encodeFunctionData({ abi: WRAPPED_NATIVE_ABI, functionName: 'deposit' }),
+          value: amount,
+        }
+      : {
+          to: wrapped,
+          data: encodeFunctionData({ abi: WRAPPED_NATIVE_ABI, functionName: 'withdraw', args: [amount] }),
+          value: BigInt(0),
+        };
+  }
+
+  /**
+   * Wrapping funds the owner's wSOL account and syncs its balance. Closing
+   * that account would unwrap all of it, so unwrapping moves the amount into
+   * a temporary account derived from the owner and closes that instead;
+   * the temporary account's rent comes back on close.
+   * `instructions` are appended, e.g. a Jito tip.
+   */
+  async buildSolanaTransaction(
+    quote: SwapQuote,
+    owner: PublicKey,
+    connection: Connection,
+    instructions: TransactionInstruction[] = []
+  ): Promise<VersionedTransaction> {
+    const direction = this.getWrapDirection(quote.fromToken, quote.toToken);
+    if (!direction) {
+      throw new Error('Quote is not a SOL wrap or unwrap');
+    }
+
+    const amount = parseAmount(quote.fromAmount, quote.fromToken.decimals);
+    const wrappedAccount = getAssociatedTokenAddressSync(NATIVE_MINT, owner);
+    const wrapInstructions: TransactionInstruction[] = [];
+
+    if (direction === 'wrap') {
+      wrapInstructions.push(
+        createAssociatedTokenAccountIdempotentInstruction(owner, wrappedAccount, owner, NATIVE_MINT),
+        SystemProgram.transfer({ fromPubkey: owner, toPubkey: wrappedAccount, lamports: amount }),
+        createSyncNativeInstruction(wrappedAccount)
+      );
+    } else {
+      const seed = `unwrap${Date.now()}`;
+      const temporaryAccount = await PublicKey.createWithSeed(owner, seed, TOKEN_PROGRAM_ID);
+      const rent = await connection.getMinimumBalanceForRentExemption(ACCOUNT_SIZE);
+
+      wrapInstructions.push(
+        SystemProgram.createAccountWithSeed({
+          fromPubkey: owner,
+          newAccountPubkey: temporaryAccount,
+          basePubkey: owner,
+          seed,
+          lamports: rent,
+          space: ACCOUNT_SIZE,
+          programId: TOKEN_PROGRAM_ID,
+        }),
+        createInitializeAccount3Instruction(temporaryAccount, NATIVE_MINT, owner),
+        createTransferInstruction(wrappedAccount, temporaryAccount, owner, amount),
+        createCloseAccountInstruction(temporaryAccount, owner, owner)
+      );
+    }
+
+    const { blockhash } = await connection.getLatestBlockhash('confirmed');
+    const message = new TransactionMessage({
+      payerKey: owner,
+      recentBlockhash: blockhash,
+      instructions: [...wrapInstructions, ...instructions],
+    }).compileToV0Message();
+
+    return new VersionedTransaction(message);
+  }
+}
+
+export const wrapService = WrapService.getInstance();
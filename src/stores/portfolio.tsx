@@ -3,9 +3,13 @@
 import React, { createContext, useContext, ReactNode, useEffect } from 'react';
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
-import { Portfolio, PortfolioPosition, Token, TokenBalance, PerformanceDataPoint } from '@/types';
+import { Address, Hash } from 'viem';
+import { Portfolio, PortfolioPosition, Token, TokenBalance, PerformanceDataPoint, TokenApproval } from '@/types';
+import { approvalsService } from '@/services/approvals';
 import { useWallet } from '@/hooks/useWallet';
 import { formatCurrency } from '@/utils/format';
+import { APP_CONFIG } from '@/lib/constants';
+import { logger } from '@/utils/logger';
 
 // =============================================================================
 // TYPES
@@ -22,6 +26,11 @@ export interface PortfolioState {
   isLoading: boolean;
   lastUpdated: Date | null;
   error: string | null;
+  
+  // Allowances granted by the connected address
+  approvals: TokenApproval[];
+  isLoadingApprovals: boolean;
+  approvalsError: string | null;
 }
 
 export interface PortfolioActions {
@@ -34,6 +43,9 @@ export interface PortfolioActions {
   setError: (error: string | null) => void;
   refreshPortfolio: () => Promise<void>;
   clearPortfolio: () => void;
+  loadApprovals: (owner: Address, chainId: number, options?: { force?: boolean }) => Promise<TokenApproval[]>;
+  setApprovalAllowance: (approvalId: string, amount: bigint) => Promise<Hash>;
+  revokeApprovals: (approvalIds: string[]) => Promise<Record<string, { hash?: Hash; error?: string }>>;
 }
 
 export type PortfolioStore = PortfolioState & PortfolioActions;
@@ -53,6 +65,9 @@ const initialState: PortfolioState = {
   isLoading: false,
   lastUpdated: null,
   error: null,
+  approvals: [],
+  isLoadingApprovals: false,
+  approvalsError: null,
 };
 
 // =============================================================================
@@ -180,6 +195,50 @@ const usePortfolioStore = create<PortfolioStore>()(
       },
       
       clearPortfolio: () => set(initialState),
+      
+      loadApprovals: async (owner, chainId, options = {}) => {
+        set({ isLoadingApprovals: true, approvalsError: null });
+        
+        try {
+          if (options.force) {
+            approvalsService.clearCache();
+          }
+          const approvals = await approvalsService.getApprovals(owner, chainId);
+          set({ approvals, isLoadingApprovals: false });
+          return approvals;
+        } catch (error) {
+          set({
+            approvalsError: error instanceof Error ? error.message : 'Failed to load approvals',
+            isLoadingApprovals: false,
+          });
+          throw error;
+        }
+      },
+      
+      setApprovalAllowance: async (approvalId, amount) => {
+        const approval = get().approvals.find(a => a.id === approvalId);
+        if (!approval) {
+          throw new Error('Approval not found');
+        }
+        
+        const hash = await approvalsService.setAllowance(approval, amount);
+        set((state) => ({
+          approvals: amount === BigInt(0)
+            ? state.approvals.filter(a => a.id !== approvalId)
+            : state.approvals,
+        }));
+        return hash;
+      },
+      
+      revokeApprovals: async (approvalIds) => {
+        const approvals = get().approvals.filter(a => approvalIds.includes(a.id));
+        const results = await approvalsService.revokeApprovals(approvals);
+        
+        set((state) => ({
+          approvals: state.approvals.filter(a => !results[a.id]?.hash),
+        }));
+        return results;
+      },
     }),
     {
       name: 'defi-portfolio-state',
@@ -300,6 +359,57 @@ export function useTokenBalances() {
   };
 }
 
+/**
+ * Allowances `owner` has granted on the chain, refreshed on the polling
+ * interval. Reducing an allowance reloads the list to show its new amount.
+ */
+export function useApprovals(owner?: Address, chainId?: number) {
+  const {
+    approvals,
+    isLoadingApprovals,
+    approvalsError,
+    loadApprovals,
+    setApprovalAllowance,
+    revokeApprovals,
+  } = usePortfolio();
+  
+  React.useEffect(() => {
+    if (!owner || chainId === undefined) return;
+    
+    const load = () => loadApprovals(owner, chainId).catch(error => {
+      logger.error('Failed to load approvals:', error);
+    });
+    
+    void load();
+    const interval = setInterval(() => void load(), APP_CONFIG.UI.POLLING_INTERVAL);
+    return () => clearInterval(interval);
+  }, [owner, chainId, loadApprovals]);
+  
+  const reduceAllowance = React.useCallback(async (approvalId: string, amount: bigint) => {
+    const hash = await setApprovalAllowance(approvalId, amount);
+    if (owner && chainId !== undefined && amount > BigInt(0)) {
+      await loadApprovals(owner, chainId, { force: true });
+    }
+    return hash;
+  }, [setApprovalAllowance, loadApprovals, owner, chainId]);
+  
+  const riskyApprovals = React.useMemo(() =>
+    approvals.filter(approval => approval.isRisky), [approvals]
+  );
+  
+  return {
+    approvals,
+    riskyApprovals,
+    totalExposureUSD: approvals.reduce((sum, approval) => sum + (approval.exposureUSD ?? 0), 0),
+    isLoading: isLoadingApprovals,
+    error: approvalsError,
+    refresh: () => owner && chainId !== undefined ? loadApprovals(owner, chainId, { force: true }) : Promise.resolve([]),
+    revoke: (approvalId: string) => setApprovalAllowance(approvalId, BigInt(0)),
+    reduceAllowance,
+    revokeApprovals,
+  };
+}
+
 // =============================================================================
 // PORTFOLIO ANALYTICS
 // =============================================================================
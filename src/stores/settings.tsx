@@ -4,6 +4,7 @@ import React, { createContext, useContext, ReactNode } from 'react';
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import { APP_CONFIG } from '@/lib/constants';
+import { ApprovalMode, GasSpeed, SubmissionStrategy, SolanaSubmissionMode } from '@/types';
 
 // =============================================================================
 // TYPES
@@ -22,8 +23,16 @@ export interface AppSettings {
   // Trading Settings
   defaultSlippage: number;
   autoSlippage: boolean;
-  gasPrice: 'slow' | 'standard' | 'fast' | 'instant';
+  gasPrice: GasSpeed;
   expertMode: boolean;
+  maxPriceImpact: number; // Confirmations above this % are blocked unless expertMode
+  approvalMode: ApprovalMode;
+  submissionStrategy: SubmissionStrategy; // Default for EVM swaps, overridable per trade
+  privateRelayUrl?: string; // Custom relay for private submission
+  solanaSubmissionMode: SolanaSubmissionMode;
+  jitoTipLamports: number;
+  jitoBlockEngineUrl?: string;
+  maxPriorityFeeLamports: number; // Cap on the Solana priority fee bid at `gasPrice`
   
   // Privacy Settings
   analytics: boolean;
@@ -74,6 +83,12 @@ const defaultSettings: AppSettings = {
   autoSlippage: true,
   gasPrice: 'standard',
   expertMode: false,
+  maxPriceImpact: APP_CONFIG.TRADING.MAX_PRICE_IMPACT,
+  approvalMode: 'exact',
+  submissionStrategy: 'public',
+  solanaSubmissionMode: 'rpc',
+  jitoTipLamports: APP_CONFIG.JITO.DEFAULT_TIP_LAMPORTS,
+  maxPriorityFeeLamports: APP_CONFIG.SOLANA.DEFAULT_MAX_PRIORITY_FEE_LAMPORTS,
   
   // Privacy Settings
   analytics: true,
@@ -202,6 +217,14 @@ export function useTradingSettings() {
     autoSlippage, 
     gasPrice, 
     expertMode,
+    maxPriceImpact,
+    approvalMode,
+    submissionStrategy,
+    privateRelayUrl,
+    solanaSubmissionMode,
+    jitoTipLamports,
+    jitoBlockEngineUrl,
+    maxPriorityFeeLamports,
     updateSettings 
   } = useSettings();
   
@@ -210,7 +233,19 @@ export function useTradingSettings() {
     autoSlippage,
     gasPrice,
     expertMode,
-    updateTradingSettings: (settings: Partial<Pick<AppSettings, 'defaultSlippage' | 'autoSlippage' | 'gasPrice' | 'expertMode'>>) => {
+    maxPriceImpact,
+    approvalMode,
+    submissionStrategy,
+    privateRelayUrl,
+    solanaSubmissionMode,
+    jitoTipLamports,
+    jitoBlockEngineUrl,
+    maxPriorityFeeLamports,
+    updateTradingSettings: (settings: Partial<Pick<AppSettings,
+      'defaultSlippage' | 'autoSlippage' | 'gasPrice' | 'expertMode' | 'maxPriceImpact' | 'approvalMode' |
+      'submissionStrategy' | 'privateRelayUrl' | 'solanaSubmissionMode' | 'jitoTipLamports' | 'jitoBlockEngineUrl' |
+      'maxPriorityFeeLamports'
+    >>) => {
       updateSettings(settings);
     },
   };
@@ -284,12 +319,22 @@ export function validateSettings(settings: Partial<AppSettings>): string[] {
     }
   }
   
+  if (settings.maxPriceImpact !== undefined) {
+    if (settings.maxPriceImpact < 1 || settings.maxPriceImpact > 50) {
+      errors.push('Max price impact must be between 1% and 50%');
+    }
+  }
+  
   if (settings.refreshInterval !== undefined) {
     if (settings.refreshInterval < 10000 || settings.refreshInterval > 300000) {
       errors.push('Refresh interval must be between 10 seconds and 5 minutes');
     }
   }
   
+  if (settings.maxPriorityFeeLamports !== undefined && settings.maxPriorityFeeLamports < 0) {
+    errors.push('Max priority fee cannot be negative');
+  }
+  
   if (settings.maxGasPrice !== undefined) {
     if (settings.maxGasPrice < 1 || settings.maxGasPrice > 1000) {
       errors.push('Max gas price must be between 1 and 1000 Gwei');
@@ -3,24 +3,100 @@
 import React, { createContext, useContext, ReactNode } from 'react';
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
-import { SwapQuote, Trade, Token, SwapFormData } from '@/types';
-import { APP_CONFIG } from '@/lib/constants';
+import { getAccount, waitForTransaction } from 'wagmi/actions';
+import { PublicKey } from '@solana/web3.js';
+import { Address, Hash } from 'viem';
+import {
+  SwapQuote,
+  SwapMode,
+  Trade,
+  Token,
+  SwapFormData,
+  ApprovalMode,
+  GasSpeed,
+  GasFeeEstimate,
+  PriorityFeeEstimate,
+  SubmissionOptions,
+  SolanaSubmissionOptions,
+  LimitOrder,
+  CreateLimitOrderParams,
+  DCAPlan,
+  CreateDCAPlanParams,
+  QuoteRequest,
+  QuoteDiff,
+  BridgeQuote,
+  BridgeQuoteRequest,
+  SimulationResult,
+  Basket,
+  BasketLeg,
+  RentReclaimSummary,
+} from '@/types';
+import { APP_CONFIG, ERROR_MESSAGES } from '@/lib/constants';
+import { dexService } from '@/services/dex';
+import { jupiterService, SolanaSwapSigner } from '@/services/jupiter';
+import { limitOrderService, LimitOrderSigner } from '@/services/limitOrders';
+import { dcaService, DCASigner } from '@/services/dca';
+import { bridgeService, BridgeSigner } from '@/services/bridge';
+import { gasService, GAS_SPEEDS } from '@/services/gas';
+import { receiptService } from '@/services/receipts';
+import { rentReclaimService } from '@/services/rentReclaim';
+import { useNotifications } from './notifications';
+import { parseAmount, formatAmount, applySlippage } from '@/utils/amount';
+import { logger } from '@/utils/logger';
+import { getIntermediateTokens } from '@/utils/route';
+import { isPriceImpactBlocked } from '@/utils/priceImpact';
+import { getBasketSummary, getSettledBasketStatus, hasDependentSwaps } from '@/utils/basket';
+import {
+  getQuoteRequest,
+  getQuoteTimeRemaining,
+  diffQuotes,
+  isQuoteExpired as hasQuoteExpired,
+  isQuoteRefreshDue,
+  isSameQuoteRequest,
+} from '@/utils/quote';
 
 // =============================================================================
 // TYPES
 // =============================================================================
 
+// Limits a requoted swap must still meet before it's sent
+export interface QuoteConfirmationOptions {
+  maxPriceImpact?: number;
+  expertMode?: boolean;
+}
+
 export interface TradingState {
   // Current swap
   currentQuote: SwapQuote | null;
+  quoteRequest: QuoteRequest | null;
+  requoteDiff: QuoteDiff | null; // Set when confirming an expired quote forced a requote
   swapForm: SwapFormData;
   isLoadingQuote: boolean;
   quoteError: string | null;
   
+  // Dry run of the quote about to be confirmed
+  simulation: { quoteId: string; result: SimulationResult } | null;
+  isSimulating: boolean;
+  
   // Trade history
   trades: Trade[];
   pendingTrades: Trade[];
   
+  // Limit orders
+  limitOrders: LimitOrder[];
+  
+  // Recurring buys, with the quote for any purchase awaiting confirmation
+  dcaPlans: DCAPlan[];
+  dcaQuotes: Record<string, SwapQuote>;
+  
+  // Cross-chain transfers
+  bridgeQuotes: BridgeQuote[];
+  isLoadingBridgeQuotes: boolean;
+  
+  // Swaps reviewed and executed together
+  basket: Basket | null;
+  isQuotingBasket: boolean;
+  
   // Recently used tokens
   recentTokens: Token[];
   
@@ -44,6 +120,47 @@ export interface TradingActions {
   // Trade management
   addTrade: (trade: Trade) => void;
   updateTrade: (tradeId: string, updates: Partial<Trade>) => void;
+  recordSwapExecution: (tradeId: string, chainId?: number) => Promise<Trade | null>;
+  
+  // Limit order management
+  createLimitOrder: (params: CreateLimitOrderParams, signer: LimitOrderSigner) => Promise<LimitOrder>;
+  cancelLimitOrder: (orderId: string, signer: LimitOrderSigner) => Promise<string>;
+  updateLimitOrder: (orderId: string, updates: Partial<LimitOrder>) => void;
+  syncLimitOrders: () => Promise<LimitOrder[]>;
+  
+  // DCA management
+  createDCAPlan: (params: CreateDCAPlanParams, signer: DCASigner) => Promise<DCAPlan>;
+  updateDCAPlan: (planId: string, updates: Partial<DCAPlan>) => void;
+  pauseDCAPlan: (planId: string) => void;
+  resumeDCAPlan: (planId: string) => void;
+  cancelDCAPlan: (planId: string, signer: DCASigner) => Promise<void>;
+  prepareDCAExecution: (planId: string) => Promise<SwapQuote>;
+  executeDCAPlan: (planId: string, signer: DCASigner, options?: {
+    approvalMode?: ApprovalMode;
+    solanaSubmission?: SolanaSubmissionOptions;
+  }) => Promise<string>;
+  skipDCAExecution: (planId: string) => void;
+  syncDCAPlans: () => Promise<Trade[]>;
+  clearDCAQuote: (planId: string) => void;
+  
+  // Bridge management
+  fetchBridgeQuotes: (request: BridgeQuoteRequest) => Promise<BridgeQuote[]>;
+  executeBridge: (quote: BridgeQuote, signer: BridgeSigner) => Promise<Trade>;
+  trackBridgeTransfers: () => Promise<Trade[]>;
+  
+  // Basket management
+  addBasketLeg: (request: QuoteRequest) => void;
+  removeBasketLeg: (legId: string) => void;
+  clearBasket: () => void;
+  quoteBasket: () => Promise<Basket>;
+  executeBasket: (options?: QuoteConfirmationOptions & {
+    approvalMode?: ApprovalMode;
+    gasSpeed?: GasSpeed;
+    submission?: SubmissionOptions;
+    solanaSigner?: SolanaSwapSigner;
+    solanaSubmission?: SolanaSubmissionOptions;
+    continueOnFailure?: boolean; // Otherwise the legs after a failed one are skipped
+  }) => Promise<Basket>;
   
   // Token management
   addRecentToken: (token: Token) => void;
@@ -54,9 +171,25 @@ export interface TradingActions {
   toggleAutoSlippage: () => void;
   toggleExpertMode: () => void;
   
-  // Actions
+  // Quote lifecycle
+  requestQuote: (request: QuoteRequest) => Promise<SwapQuote | null>;
   refreshQuote: () => Promise<void>;
-  executeTrade: (quote: SwapQuote) => Promise<string>;
+  confirmQuote: (quote: SwapQuote, options?: QuoteConfirmationOptions) => Promise<SwapQuote>;
+  clearRequoteDiff: () => void;
+  
+  // Simulation
+  simulateTrade: (quote: SwapQuote, account: string, options?: { approvalMode?: ApprovalMode }) => Promise<SimulationResult>;
+  clearSimulation: () => void;
+  
+  // Actions
+  executeTrade: (quote: SwapQuote, options?: QuoteConfirmationOptions & {
+    approvalMode?: ApprovalMode;
+    gasSpeed?: GasSpeed;
+    submission?: SubmissionOptions;
+  }) => Promise<string>;
+  executeSolanaTrade: (quote: SwapQuote, signer: SolanaSwapSigner, options?: QuoteConfirmationOptions & {
+    submission?: SolanaSubmissionOptions;
+  }) => Promise<string>;
   clearError: () => void;
 }
 
@@ -68,17 +201,30 @@ export type TradingStore = TradingState & TradingActions;
 
 const initialState: TradingState = {
   currentQuote: null,
+  quoteRequest: null,
+  requoteDiff: null,
   swapForm: {
     fromToken: undefined,
     toToken: undefined,
     fromAmount: '',
+    toAmount: '',
+    swapMode: 'ExactIn',
     slippage: APP_CONFIG.TRADING.DEFAULT_SLIPPAGE,
     autoSlippage: true,
   },
   isLoadingQuote: false,
   quoteError: null,
+  simulation: null,
+  isSimulating: false,
   trades: [],
   pendingTrades: [],
+  limitOrders: [],
+  dcaPlans: [],
+  dcaQuotes: {},
+  bridgeQuotes: [],
+  isLoadingBridgeQuotes: false,
+  basket: null,
+  isQuotingBasket: false,
   recentTokens: [],
   slippage: APP_CONFIG.TRADING.DEFAULT_SLIPPAGE,
   autoSlippage: true,
@@ -87,6 +233,45 @@ const initialState: TradingState = {
   error: null,
 };
 
+// Quotes for a request from the aggregators on its chain, best first
+function fetchQuotes(request: QuoteRequest): Promise<SwapQuote[]> {
+  const { fromToken, toToken, amount, slippage, swapMode, chainId } = request;
+  
+  return chainId !== undefined
+    ? dexService.getSwapQuote(fromToken, toToken, amount, slippage, chainId, swapMode)
+    : jupiterService.getSwapQuote(fromToken, toToken, amount, slippage, swapMode);
+}
+
+function withBasketLeg(basket: Basket, legId: string, updates: Partial<BasketLeg>): Basket {
+  return {
+    ...basket,
+    legs: basket.legs.map(leg => leg.id === legId ? { ...leg, ...updates } : leg),
+  };
+}
+
+// History entry for a basket leg that failed before any transaction landed
+function getFailedLegTrade(leg: BasketLeg, basketId: string, userId: string, error: string): Trade {
+  const { request, quote } = leg;
+  
+  return {
+    id: `trade_${Date.now()}_${leg.id}`,
+    userId,
+    type: 'swap',
+    fromToken: request.fromToken,
+    toToken: request.toToken,
+    fromAmount: quote?.fromAmount ?? request.amount,
+    ...(quote && { toAmount: quote.toAmount }),
+    price: quote?.price ?? 0,
+    gasUsed: '0',
+    gasFee: '0',
+    txHash: '',
+    status: 'failed',
+    timestamp: new Date(),
+    basketId,
+    error,
+  };
+}
+
 // =============================================================================
 // STORE CREATION
 // =============================================================================
@@ -136,6 +321,614 @@ const useTradingStore = create<TradingStore>()(
         }));
       },
       
+      recordSwapExecution: async (tradeId, chainId) => {
+        const trade = get().trades.find(t => t.id === tradeId);
+        // Already recorded trades keep the quote they were first compared to
+        if (!trade || trade.type !== 'swap' || !trade.toToken || !trade.txHash || trade.quotedPrice !== undefined) {
+          return null;
+        }
+        
+        // Without a chain id the swap is a Jupiter swap
+        const execution = chainId === undefined
+          ? await jupiterService.getSwapExecution(trade.txHash, new PublicKey(trade.userId), trade.fromToken, trade.toToken)
+          : await receiptService.getEvmSwapExecution(
+              trade.txHash as Hash,
+              chainId,
+              trade.userId as Address,
+              trade.fromToken,
+              trade.toToken
+            );
+        
+        const updates = receiptService.getTradeUpdates(trade, execution);
+        get().updateTrade(tradeId, updates);
+        return { ...trade, ...updates };
+      },
+      
+      // Limit order management
+      createLimitOrder: async (params, signer) => {
+        set({ isLoading: true, error: null });
+        
+        try {
+          const order = await limitOrderService.createLimitOrder(params, signer);
+          
+          set((state) => ({
+            limitOrders: [order, ...state.limitOrders].slice(0, 100),
+            isLoading: false,
+          }));
+          
+          return order;
+        } catch (error) {
+          set({
+            error: error instanceof Error ? error.message : 'Failed to place limit order',
+            isLoading: false,
+          });
+          throw error;
+        }
+      },
+      
+      cancelLimitOrder: async (orderId, signer) => {
+        const order = get().limitOrders.find(o => o.id === orderId);
+        if (!order) {
+          throw new Error('Limit order not found');
+        }
+        
+        set({ isLoading: true, error: null });
+        
+        try {
+          const txHash = await limitOrderService.cancelLimitOrder(order, signer);
+          get().updateLimitOrder(orderId, { status: 'cancelled' });
+          set({ isLoading: false });
+          return txHash;
+        } catch (error) {
+          set({
+            error: error instanceof Error ? error.message : 'Failed to cancel limit order',
+            isLoading: false,
+          });
+          throw error;
+        }
+      },
+      
+      updateLimitOrder: (orderId, updates) => {
+        set((state) => ({
+          limitOrders: state.limitOrders.map(order =>
+            order.id === orderId ? { ...order, ...updates } : order
+          ),
+        }));
+      },
+      
+      syncLimitOrders: async () => {
+        const openOrders = get().limitOrders.filter(
+          order => order.status === 'open' || order.status === 'partially_filled'
+        );
+        if (openOrders.length === 0) return [];
+        
+        const updates = await limitOrderService.getOrderUpdates(openOrders);
+        updates.forEach(update => get().updateLimitOrder(update.id, update));
+        
+        // Orders whose filled amount grew since the last sync
+        return updates.filter(update => {
+          const previous = openOrders.find(order => order.id === update.id);
+          return !!previous && update.filledFromAmount !== previous.filledFromAmount;
+        });
+      },
+      
+      // DCA management
+      createDCAPlan: async (params, signer) => {
+        set({ isLoading: true, error: null });
+        
+        try {
+          const plan = await dcaService.createPlan(params, signer);
+          set((state) => ({
+            dcaPlans: [plan, ...state.dcaPlans],
+            isLoading: false,
+          }));
+          return plan;
+        } catch (error) {
+          set({
+            error: error instanceof Error ? error.message : 'Failed to create DCA plan',
+            isLoading: false,
+          });
+          throw error;
+        }
+      },
+      
+      updateDCAPlan: (planId, updates) => {
+        set((state) => ({
+          dcaPlans: state.dcaPlans.map(plan =>
+            plan.id === planId ? { ...plan, ...updates } : plan
+          ),
+        }));
+      },
+      
+      pauseDCAPlan: (planId) => {
+        get().updateDCAPlan(planId, { status: 'paused' });
+        get().clearDCAQuote(planId);
+      },
+      
+      resumeDCAPlan: (planId) => {
+        get().updateDCAPlan(planId, { status: 'active' });
+      },
+      
+      cancelDCAPlan: async (planId, signer) => {
+        const plan = get().dcaPlans.find(p => p.id === planId);
+        if (!plan) {
+          throw new Error('DCA plan not found');
+        }
+        
+        await dcaService.cancelPlan(plan, signer);
+        get().updateDCAPlan(planId, { status: 'cancelled' });
+        get().clearDCAQuote(planId);
+      },
+      
+      prepareDCAExecution: async (planId) => {
+        const plan = get().dcaPlans.find(p => p.id === planId);
+        if (!plan) {
+          throw new Error('DCA plan not found');
+        }
+        
+        const quote = await dcaService.getExecutionQuote(plan, get().slippage);
+        set((state) => ({
+          dcaQuotes: { ...state.dcaQuotes, [planId]: quote },
+        }));
+        return quote;
+      },
+      
+      executeDCAPlan: async (planId, signer, options = {}) => {
+        const plan = get().dcaPlans.find(p => p.id === planId);
+        if (!plan || plan.status !== 'active') {
+          throw new Error('DCA plan is not active');
+        }
+        
+        const cachedQuote = get().dcaQuotes[planId];
+        const quote = cachedQuote && !isQuoteExpired(cachedQuote)
+          ? cachedQuote
+          : await get().prepareDCAExecution(planId);
+        
+        let trade: Trade | undefined;
+        
+        if (plan.chainId !== undefined) {
+          const txHash = await get().executeTrade(quote, options);
+          trade = get().trades.find(t => t.txHash === txHash);
+        } else {
+          if (!signer.solana) {
+            throw new Error(ERROR_MESSAGES.WALLET_NOT_CONNECTED);
+          }
+          
+          // Same path as a one-off swap, so purchases can go out as Jito bundles
+          const txHash = await get().executeSolanaTrade(quote, signer.solana, {
+            ...(options.solanaSubmission && { submission: options.solanaSubmission }),
+          });
+          trade = get().trades.find(t => t.txHash === txHash);
+        }
+        
+        if (!trade) {
+          throw new Error('Executed trade was not recorded');
+        }
+        
+        const updated = dcaService.recordExecution(plan, trade);
+        get().updateDCAPlan(planId, updated);
+        get().clearDCAQuote(planId);
+        
+        return trade.txHash;
+      },
+      
+      skipDCAExecution: (planId) => {
+        const plan = get().dcaPlans.find(p => p.id === planId);
+        if (!plan) return;
+        
+        const skipped = { ...plan, nextExecutionAt: dcaService.getNextExecutionTime(plan) };
+        get().updateDCAPlan(planId, {
+          nextExecutionAt: skipped.nextExecutionAt,
+          ...(dcaService.isPlanComplete(skipped) && { status: 'completed' as const }),
+        });
+        get().clearDCAQuote(planId);
+      },
+      
+      syncDCAPlans: async () => {
+        const plans = get().dcaPlans.filter(
+          plan => plan.executionMode === 'jupiter' && plan.status === 'active'
+        );
+        const knownTxHashes = new Set(get().trades.map(trade => trade.txHash));
+        const newTrades: Trade[] = [];
+        
+        await Promise.all(plans.map(async (plan) => {
+          try {
+            const { trades, isClosed } = await dcaService.getRecurringFills(plan, knownTxHashes);
+            
+            // Oldest first so the plan's schedule advances in order
+            let updated = plan;
+            trades
+              .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+              .forEach(trade => {
+                get().addTrade(trade);
+                updated = dcaService.recordExecution(updated, trade);
+              });
+            
+            if (isClosed && updated.status === 'active') {
+              updated = { ...updated, status: dcaService.isPlanComplete(updated) ? 'completed' : 'cancelled' };
+            }
+            if (updated !== plan) {
+              get().updateDCAPlan(plan.id, updated);
+            }
+            newTrades.push(...trades);
+          } catch (error) {
+            logger.warn(`Failed to sync DCA plan ${plan.id}:`, error);
+          }
+        }));
+        
+        return newTrades;
+      },
+      
+      // Bridge management
+      fetchBridgeQuotes: async (request) => {
+        set({ isLoadingBridgeQuotes: true, error: null });
+        
+        try {
+          const quotes = await bridgeService.getBridgeQuotes(request);
+          set({ bridgeQuotes: quotes, isLoadingBridgeQuotes: false });
+          return quotes;
+        } catch (error) {
+          set({
+            bridgeQuotes: [],
+            error: error instanceof Error ? error.message : 'Failed to get bridge quotes',
+            isLoadingBridgeQuotes: false,
+          });
+          throw error;
+        }
+      },
+      
+      executeBridge: async (quote, signer) => {
+        set({ isLoading: true, error: null });
+        
+        try {
+          const txHash = await bridgeService.executeBridge(quote, signer);
+          
+          // The source leg has confirmed; the destination leg is tracked until funds arrive
+          const trade: Trade = {
+            id: `trade_${Date.now()}`,
+            userId: quote.fromAddress,
+            type: 'bridge',
+            fromToken: quote.fromToken,
+            toToken: quote.toToken,
+            fromAmount: quote.fromAmount,
+            toAmount: quote.toAmount,
+            price: parseFloat(quote.toAmount) / parseFloat(quote.fromAmount),
+            gasUsed: '0',
+            gasFee: '0',
+            txHash,
+            status: 'pending',
+            timestamp: new Date(),
+            bridge: quote.bridge,
+            stages: [
+              {
+                label: `Sent on ${bridgeService.getChainLabel(quote.fromChainId)}`,
+                chainId: quote.fromChainId,
+                status: 'confirmed',
+                txHash,
+                completedAt: new Date(),
+              },
+              {
+                label: `Receive on ${bridgeService.getChainLabel(quote.toChainId)}`,
+                chainId: quote.toChainId,
+                status: 'pending',
+              },
+            ],
+          };
+          
+          get().addTrade(trade);
+          set({ isLoading: false, bridgeQuotes: [] });
+          return trade;
+        } catch (error) {
+          set({
+            error: error instanceof Error ? error.message : 'Bridge transfer failed',
+            isLoading: false,
+          });
+          throw error;
+        }
+      },
+      
+      trackBridgeTransfers: async () => {
+        const transfers = get().trades.filter(
+          trade => trade.type === 'bridge' && trade.status === 'pending' && trade.bridge && trade.toToken
+        );
+        const settled: Trade[] = [];
+        
+        await Promise.all(transfers.map(async (trade) => {
+          const [source, destination] = trade.stages || [];
+          if (!source || !destination || !trade.bridge || !trade.toToken) return;
+          
+          try {
+            const result = await bridgeService.getTransferStatus(
+              trade.txHash,
+              trade.bridge,
+              source.chainId,
+              destination.chainId,
+              trade.toToken
+            );
+            if (result.status === 'pending') return;
+            
+            const isCompleted = result.status === 'completed';
+            const updates: Partial<Trade> = {
+              status: isCompleted ? 'confirmed' : 'failed',
+              ...(isCompleted && result.receivedAmount && { toAmount: result.receivedAmount }),
+              stages: [
+                source,
+                {
+                  ...destination,
+                  ...(result.status === 'refunded' && {
+                    label: `Refunded on ${bridgeService.getChainLabel(source.chainId)}`,
+                  }),
+                  status: isCompleted ? 'confirmed' : 'failed',
+                  ...(result.destinationTxHash && { txHash: result.destinationTxHash }),
+                  completedAt: new Date(),
+                },
+              ],
+            };
+            
+            get().updateTrade(trade.id, updates);
+            settled.push({ ...trade, ...updates });
+          } catch (error) {
+            logger.warn(`Failed to check bridge transfer ${trade.txHash}:`, error);
+          }
+        }));
+        
+        return settled;
+      },
+      
+      // Basket management
+      addBasketLeg: (request) => {
+        const { basket } = get();
+        if (basket?.status === 'executing') {
+          throw new Error('Wait for the basket to finish executing');
+        }
+        
+        // A basket that has already run is replaced by a new one
+        const current = basket && (basket.status === 'draft' || basket.status === 'quoted') ? basket : null;
+        if (current && current.chainId !== request.chainId) {
+          throw new Error('Every swap in a basket must trade on the same chain');
+        }
+        if (current && current.legs.length >= APP_CONFIG.TRADING.MAX_BASKET_LEGS) {
+          throw new Error(`A basket holds at most ${APP_CONFIG.TRADING.MAX_BASKET_LEGS} swaps`);
+        }
+        
+        const leg: BasketLeg = {
+          id: `leg_${Date.now()}`,
+          request,
+          status: 'draft',
+        };
+        
+        set({
+          basket: current
+            ? { ...current, legs: [...current.legs, leg], status: 'draft' }
+            : {
+                id: `basket_${Date.now()}`,
+                ...(request.chainId !== undefined && { chainId: request.chainId }),
+                legs: [leg],
+                status: 'draft',
+                createdAt: new Date(),
+              },
+        });
+      },
+      
+      removeBasketLeg: (legId) => {
+        const { basket } = get();
+        if (!basket || basket.status === 'executing') return;
+        
+        const legs = basket.legs.filter(leg => leg.id !== legId);
+        set({
+          basket: legs.length === 0
+            ? null
+            : {
+                ...basket,
+                legs,
+                status: legs.every(leg => leg.status === 'quoted') ? 'quoted' : 'draft',
+              },
+        });
+      },
+      
+      clearBasket: () => {
+        if (get().basket?.status === 'executing') return;
+        set({ basket: null });
+      },
+      
+      quoteBasket: async () => {
+        const basket = get().basket;
+        if (!basket || basket.legs.length === 0) {
+          throw new Error('Add a swap to the basket first');
+        }
+        
+        set({ isQuotingBasket: true, error: null });
+        
+        const quoted = await Promise.all(basket.legs.map(async (leg): Promise<BasketLeg> => {
+          const rest = { id: leg.id, request: leg.request };
+          try {
+            const [quote] = await fetchQuotes(leg.request);
+            return quote
+              ? { ...rest, quote, status: 'quoted' }
+              : { ...rest, status: 'draft', error: ERROR_MESSAGES.NO_ROUTE_FOUND };
+          } catch (error) {
+            return { ...rest, status: 'draft', error: error instanceof Error ? error.message : 'Failed to get quote' };
+          }
+        }));
+        
+        // Keep legs added or removed while the quotes were in flight
+        const current = get().basket;
+        if (!current || current.id !== basket.id || current.status === 'executing') {
+          set({ isQuotingBasket: false });
+          return current || basket;
+        }
+        
+        const legs = current.legs.map(leg => quoted.find(q => q.id === leg.id) || leg);
+        const next: Basket = {
+          ...current,
+          legs,
+          status: legs.every(leg => leg.status === 'quoted') ? 'quoted' : 'draft',
+        };
+        set({ basket: next, isQuotingBasket: false });
+        return next;
+      },
+      
+      executeBasket: async (options = {}) => {
+        const basket = get().basket;
+        if (!basket || basket.status !== 'quoted') {
+          throw new Error('Quote every swap in the basket before executing it');
+        }
+        
+        const { continueOnFailure = false, solanaSigner, solanaSubmission, ...evmOptions } = options;
+        const limits: QuoteConfirmationOptions = {
+          ...(options.maxPriceImpact !== undefined && { maxPriceImpact: options.maxPriceImpact }),
+          ...(options.expertMode !== undefined && { expertMode: options.expertMode }),
+        };
+        const isSolana = basket.chainId === undefined;
+        const userId = isSolana ? solanaSigner?.publicKey.toBase58() : getAccount().address;
+        if (!userId) {
+          throw new Error(ERROR_MESSAGES.WALLET_NOT_CONNECTED);
+        }
+        
+        const setLeg = (legId: string, updates: Partial<BasketLeg>) => {
+          set((state) => state.basket?.id === basket.id
+            ? { basket: withBasketLeg(state.basket, legId, updates) }
+            : {}
+          );
+        };
+        const failLeg = (leg: BasketLeg, error: string) => {
+          const trade = getFailedLegTrade(leg, basket.id, userId, error);
+          get().addTrade(trade);
+          setLeg(leg.id, { status: 'failed', error, tradeId: trade.id });
+        };
+        
+        set({ basket: { ...basket, status: 'executing', executedAt: new Date() }, error: null });
+        
+        // A Jito bundle lands every Solana leg in one go, or none of them.
+        // Each leg is simulated on its own first, so a leg spending what an
+        // earlier one buys goes through the one-after-another path instead.
+        const canBundle = isSolana
+          && solanaSubmission?.mode === 'jito'
+          && !!solanaSigner?.signTransaction
+          && basket.legs.length <= APP_CONFIG.JITO.MAX_BUNDLE_SIZE
+          && !hasDependentSwaps(basket.legs.flatMap(leg => leg.quote ? [leg.quote] : []));
+        
+        if (canBundle && solanaSigner) {
+          basket.legs.forEach(leg => setLeg(leg.id, { status: 'executing' }));
+          
+          try {
+            const quotes = await Promise.all(basket.legs.map(leg => {
+              if (!leg.quote) throw new Error('Swap has no quote');
+              return get().confirmQuote(leg.quote, limits);
+            }));
+            const signatures = await jupiterService.sendSwapBundle(quotes, solanaSigner, solanaSubmission);
+            
+            quotes.forEach((quote, index) => {
+              const leg = basket.legs[index];
+              const txHash = signatures[index];
+              if (!leg || !txHash) return;
+              
+              const trade: Trade = {
+                id: `trade_${Date.now()}_${leg.id}`,
+                userId,
+                type: 'swap',
+                fromToken: quote.fromToken,
+                toToken: quote.toToken,
+                fromAmount: quote.fromAmount,
+                toAmount: quote.toAmount,
+                price: quote.price,
+                gasUsed: quote.gasEstimate,
+                gasFee: '0', // Filled in from the transaction
+                txHash,
+                status: 'confirmed',
+                timestamp: new Date(),
+                basketId: basket.id,
+              };
+              get().addTrade(trade);
+              get().recordSwapExecution(trade.id)
+                .catch(error => logger.warn(`Failed to record executed amounts for ${txHash}:`, error));
+              setLeg(leg.id, { status: 'confirmed', quote, txHash, tradeId: trade.id });
+            });
+          } catch (error) {
+            const message = error instanceof Error ? error.message : 'Basket bundle failed';
+            basket.legs.forEach(leg => failLeg(leg, message));
+          }
+        } else {
+          // One after another: a leg may spend what an earlier one bought.
+          // Aggregator routers check the caller, so EVM legs can't be
+          // batched through a multicall contract either.
+          let isHalted = false;
+          
+          for (const leg of basket.legs) {
+            if (isHalted) {
+              setLeg(leg.id, { status: 'skipped' });
+              continue;
+            }
+            
+            setLeg(leg.id, { status: 'executing' });
+            let txHash: string | undefined;
+            
+            try {
+              if (!leg.quote) {
+                throw new Error('Swap has no quote');
+              }
+              
+              if (isSolana) {
+                if (!solanaSigner) throw new Error(ERROR_MESSAGES.WALLET_NOT_CONNECTED);
+                txHash = await get().executeSolanaTrade(leg.quote, solanaSigner, {
+                  ...limits,
+                  ...(solanaSubmission && { submission: solanaSubmission }),
+                });
+              } else {
+                txHash = await get().executeTrade(leg.quote, evmOptions);
+              }
+              
+              const trade = get().trades.find(t => t.txHash === txHash);
+              if (trade) {
+                get().updateTrade(trade.id, { basketId: basket.id });
+              }
+              setLeg(leg.id, { txHash, ...(trade && { tradeId: trade.id }) });
+              
+              // Solana legs resolve once confirmed; EVM legs once submitted
+              if (!isSolana) {
+                const receipt = await waitForTransaction({
+                  hash: txHash as Hash,
+                  ...(basket.chainId !== undefined && { chainId: basket.chainId }),
+                });
+                if (receipt.status !== 'success') {
+                  throw new Error(`Swap ${txHash} reverted`);
+                }
+              }
+              
+              setLeg(leg.id, { status: 'confirmed' });
+            } catch (error) {
+              const message = error instanceof Error ? error.message : 'Trade execution failed';
+              
+              // A leg that reached the chain is already in the history; its
+              // trade is settled from the receipt
+              if (txHash) {
+                setLeg(leg.id, { status: 'failed', error: message });
+              } else {
+                failLeg(leg, message);
+              }
+              isHalted = !continueOnFailure;
+            }
+          }
+        }
+        
+        const executed = get().basket;
+        if (!executed || executed.id !== basket.id) {
+          return basket;
+        }
+        
+        const settled: Basket = { ...executed, status: getSettledBasketStatus(executed.legs) };
+        set({ basket: settled, isLoading: false });
+        return settled;
+      },
+      
+      clearDCAQuote: (planId) => {
+        set((state) => {
+          const dcaQuotes = { ...state.dcaQuotes };
+          delete dcaQuotes[planId];
+          return { dcaQuotes };
+        });
+      },
+      
       // Token management
       addRecentToken: (token) => {
         set((state) => {
@@ -169,66 +962,145 @@ const useTradingStore = create<TradingStore>()(
         set((state) => ({ expertMode: !state.expertMode }));
       },
       
-      // Actions
+      // Quote lifecycle
+      requestQuote: async (request) => {
+        set({ quoteRequest: request, isLoadingQuote: true, quoteError: null });
+        
+        try {
+          const [best] = await fetchQuotes(request);
+          
+          // Drop the result if the inputs changed while it was in flight
+          if (get().quoteRequest !== request) return best || null;
+          
+          set({ currentQuote: best || null, isLoadingQuote: false });
+          if (!best) {
+            set({ quoteError: ERROR_MESSAGES.NO_ROUTE_FOUND });
+          }
+          return best || null;
+        } catch (error) {
+          set({
+            quoteError: error instanceof Error ? error.message : 'Failed to get quote',
+            isLoadingQuote: false,
+          });
+          return null;
+        }
+      },
+      
       refreshQuote: async () => {
-        const state = get();
-        const { fromToken, toToken, fromAmount } = state.swapForm;
+        const { quoteRequest, isLoadingQuote } = get();
+        if (!quoteRequest || isLoadingQuote) return;
         
-        if (!fromToken || !toToken || !fromAmount || parseFloat(fromAmount) <= 0) {
-          return;
+        await get().requestQuote(quoteRequest);
+      },
+      
+      confirmQuote: async (quote, options = {}) => {
+        if (!hasQuoteExpired(quote)) {
+          return quote;
         }
         
+        // Never submit a stale quote: requote and compare before going ahead.
+        // Anything within the old quote's slippage is a price the user already
+        // accepted; only a worse one goes back to them.
+        const request = getQuoteRequest(quote);
         set({ isLoadingQuote: true, quoteError: null });
         
+        let next: SwapQuote | undefined;
         try {
-          // This would typically call a DEX aggregator API
-          // For now, we'll simulate getting a quote
-          await new Promise(resolve => setTimeout(resolve, 1000));
-          
-          const mockQuote: SwapQuote = {
-            id: `quote_${Date.now()}`,
-            fromToken,
-            toToken,
-            fromAmount,
-            toAmount: (parseFloat(fromAmount) * 0.95).toString(), // Mock 5% slippage
-            price: 0.95,
-            priceImpact: 5,
-            gasEstimate: '150000',
-            route: [],
-            aggregator: 'Mock DEX',
-            slippage: state.slippage,
-            validUntil: new Date(Date.now() + 30000), // Valid for 30 seconds
-          };
+          [next] = await fetchQuotes(request);
+        } finally {
+          set({ isLoadingQuote: false });
+        }
+        if (!next) {
+          throw new Error(ERROR_MESSAGES.NO_ROUTE_FOUND);
+        }
+        
+        const diff = diffQuotes(quote, next);
+        set({ requoteDiff: diff });
+        
+        // Whatever happens next, the panel shows and confirms the fresh quote
+        const { currentQuote, quoteRequest } = get();
+        if (currentQuote?.id === quote.id || (quoteRequest && isSameQuoteRequest(quoteRequest, request))) {
+          set({ currentQuote: next, quoteRequest: request });
+        }
+        
+        const maxPriceImpact = options.maxPriceImpact ?? APP_CONFIG.TRADING.MAX_PRICE_IMPACT;
+        if (isPriceImpactBlocked(next, maxPriceImpact, options.expertMode ?? get().expertMode)) {
+          throw new Error(
+            `Price impact of the refreshed quote is ${next.priceImpact.toFixed(2)}%, above your ${maxPriceImpact}% limit.`
+          );
+        }
+        if (diff.exceedsSlippage) {
+          throw new Error(
+            `Price moved ${Math.abs(diff.changePercent).toFixed(2)}% since your quote, beyond your ${quote.slippage}% slippage. Review the new quote to continue.`
+          );
+        }
+        
+        return next;
+      },
+      
+      clearRequoteDiff: () => {
+        set({ requoteDiff: null });
+      },
+      
+      // Simulation
+      simulateTrade: async (quote, account, options = {}) => {
+        set({ isSimulating: true, simulation: null, error: null });
+        
+        try {
+          // Quotes without a chain id are Jupiter quotes
+          const result = quote.chainId === undefined
+            ? await jupiterService.simulateSwap(quote, new PublicKey(account))
+            : await dexService.simulateSwap(quote, account as Address, options.approvalMode);
           
-          set({ currentQuote: mockQuote, isLoadingQuote: false });
+          set({ simulation: { quoteId: quote.id, result }, isSimulating: false });
+          return result;
         } catch (error) {
           set({
-            quoteError: error instanceof Error ? error.message : 'Failed to get quote',
-            isLoadingQuote: false,
+            error: error instanceof Error ? error.message : 'Failed to simulate swap',
+            isSimulating: false,
           });
+          throw error;
         }
       },
       
-      executeTrade: async (quote) => {
+      clearSimulation: () => {
+        set({ simulation: null });
+      },
+      
+      // Actions
+      executeTrade: async (quote, options = {}) => {
         set({ isLoading: true, error: null });
         
         try {
-          // This would typically execute the trade on-chain
-          // For now, we'll simulate the trade execution
-          await new Promise(resolve => setTimeout(resolve, 2000));
+          const { address } = getAccount();
+          if (!address) {
+            throw new Error(ERROR_MESSAGES.WALLET_NOT_CONNECTED);
+          }
+          
+          // Requotes if the quote expired while the user was deciding
+          const liveQuote = await get().confirmQuote(quote, options);
+          
+          // Approves the router if needed, then submits the swap via the wallet
+          const txHash = await dexService.executeSwap(
+            liveQuote,
+            address,
+            options.approvalMode,
+            options.gasSpeed,
+            options.submission
+          );
           
           const trade: Trade = {
             id: `trade_${Date.now()}`,
-            userId: 'current_user', // This would come from auth
+            userId: address,
             type: 'swap',
-            fromToken: quote.fromToken,
-            toToken: quote.toToken,
-            fromAmount: quote.fromAmount,
-            toAmount: quote.toAmount,
-            price: quote.price,
-            gasUsed: quote.gasEstimate,
-            gasFee: '0.005', // Mock gas fee
-            txHash: `0x${Math.random().toString(16).substr(2, 64)}`,
+            fromToken: liveQuote.fromToken,
+            toToken: liveQuote.toToken,
+            fromAmount: liveQuote.fromAmount,
+            toAmount: liveQuote.toAmount,
+            price: liveQuote.price,
+            gasUsed: liveQuote.gasEstimate,
+            gasFee: '0', // Filled in from the receipt
+            txHash,
             status: 'pending',
             timestamp: new Date(),
           };
@@ -237,20 +1109,73 @@ const useTradingStore = create<TradingStore>()(
           get().addTrade(trade);
           
           // Add tokens to recent list
-          get().addRecentToken(quote.fromToken);
-          get().addRecentToken(quote.toToken);
+          get().addRecentToken(liveQuote.fromToken);
+          get().addRecentToken(liveQuote.toToken);
           
-          set({ isLoading: false, currentQuote: null });
+          set({ isLoading: false, currentQuote: null, simulation: null });
           
-          // Simulate trade confirmation after 5 seconds
-          setTimeout(() => {
-            get().updateTrade(trade.id, { 
-              status: Math.random() > 0.1 ? 'confirmed' : 'failed',
-              blockNumber: Math.floor(Math.random() * 1000000) + 18000000,
+          // Settle the trade once the swap is mined
+          waitForTransaction({ hash: txHash, ...(liveQuote.chainId !== undefined && { chainId: liveQuote.chainId }) })
+            .then(receipt => {
+              get().updateTrade(trade.id, {
+                status: receipt.status === 'success' ? 'confirmed' : 'failed',
+                blockNumber: Number(receipt.blockNumber),
+                gasUsed: receipt.gasUsed.toString(),
+                gasFee: formatAmount(receipt.gasUsed * receipt.effectiveGasPrice, 18),
+              });
+              
+              if (receipt.status === 'success' && liveQuote.chainId !== undefined) {
+                get().recordSwapExecution(trade.id, liveQuote.chainId)
+                  .catch(error => logger.warn(`Failed to record executed amounts for ${txHash}:`, error));
+              }
+            })
+            .catch(error => {
+              logger.error(`Failed to confirm trade ${txHash}:`, error);
+              get().updateTrade(trade.id, { status: 'failed' });
             });
-          }, 5000);
           
-          return trade.txHash;
+          return txHash;
+        } catch (error) {
+          set({
+            error: error instanceof Error ? error.message : 'Trade execution failed',
+            isLoading: false,
+          });
+          throw error;
+        }
+      },
+      
+      executeSolanaTrade: async (quote, signer, options = {}) => {
+        set({ isLoading: true, error: null });
+        
+        try {
+          const liveQuote = await get().confirmQuote(quote, options);
+          
+          // Resolves once the swap (or its Jito bundle) has landed
+          const txHash = await jupiterService.sendSwap(liveQuote, signer, options.submission);
+          
+          const trade: Trade = {
+            id: `trade_${Date.now()}`,
+            userId: signer.publicKey.toBase58(),
+            type: 'swap',
+            fromToken: liveQuote.fromToken,
+            toToken: liveQuote.toToken,
+            fromAmount: liveQuote.fromAmount,
+            toAmount: liveQuote.toAmount,
+            price: liveQuote.price,
+            gasUsed: liveQuote.gasEstimate,
+            gasFee: '0', // Filled in from the transaction
+            txHash,
+            status: 'confirmed',
+            timestamp: new Date(),
+          };
+          get().addTrade(trade);
+          get().recordSwapExecution(trade.id)
+            .catch(error => logger.warn(`Failed to record executed amounts for ${txHash}:`, error));
+          get().addRecentToken(liveQuote.fromToken);
+          get().addRecentToken(liveQuote.toToken);
+          
+          set({ isLoading: false, currentQuote: null, simulation: null });
+          return txHash;
         } catch (error) {
           set({
             error: error instanceof Error ? error.message : 'Trade execution failed',
@@ -269,6 +1194,8 @@ const useTradingStore = create<TradingStore>()(
       storage: createJSONStorage(() => localStorage),
       partialize: (state) => ({
         trades: state.trades,
+        limitOrders: state.limitOrders,
+        dcaPlans: state.dcaPlans,
         recentTokens: state.recentTokens,
         slippage: state.slippage,
         autoSlippage: state.autoSlippage,
@@ -322,7 +1249,218 @@ export function useSwapQuote() {
     clearQuote: () => setCurrentQuote(null),
     clearError,
     hasQuote: !!currentQuote,
-    isValidQuote: currentQuote && new Date() < currentQuote.validUntil,
+    isValidQuote: currentQuote && !hasQuoteExpired(currentQuote),
+  };
+}
+
+/**
+ * The simulation of `quote`, if it's been dry-run. A result for any other
+ * quote (e.g. the one a refresh replaced) doesn't count.
+ */
+export function useTradeSimulation(quote: SwapQuote | null) {
+  const { simulation, isSimulating, simulateTrade, clearSimulation } = useTrading();
+  const result = simulation && quote && simulation.quoteId === quote.id ? simulation.result : null;
+  
+  return {
+    simulation: result,
+    isSimulating,
+    simulate: simulateTrade,
+    clearSimulation,
+    isBlocked: !!result && !result.success,
+  };
+}
+
+/**
+ * Countdown for a quote, refreshing it in the background shortly before it
+ * expires. Defaults to the store's current quote and `refreshQuote`.
+ */
+export function useQuoteLifecycle(options: {
+  quote?: SwapQuote | null;
+  onRefresh?: () => unknown;
+} = {}) {
+  const { currentQuote, refreshQuote, requoteDiff, clearRequoteDiff, isLoadingQuote } = useTrading();
+  const quote = options.quote !== undefined ? options.quote : currentQuote;
+  const onRefresh = options.onRefresh || refreshQuote;
+  
+  const [timeRemaining, setTimeRemaining] = React.useState(() => quote ? getQuoteTimeRemaining(quote) : 0);
+  const refreshedQuoteId = React.useRef<string | null>(null);
+  
+  React.useEffect(() => {
+    if (!quote) {
+      setTimeRemaining(0);
+      return;
+    }
+    
+    const tick = () => {
+      setTimeRemaining(getQuoteTimeRemaining(quote));
+      
+      // Once per quote, and not while the tab is in the background
+      if (isQuoteRefreshDue(quote) && refreshedQuoteId.current !== quote.id && !document.hidden) {
+        refreshedQuoteId.current = quote.id;
+        onRefresh();
+      }
+    };
+    
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [quote, onRefresh]);
+  
+  return {
+    quote,
+    secondsRemaining: Math.ceil(timeRemaining / 1000),
+    isExpired: !!quote && timeRemaining === 0,
+    isRefreshing: isLoadingQuote,
+    requoteDiff,
+    clearRequoteDiff,
+  };
+}
+
+export function useGasFees(chainId?: number, gasUnits?: string) {
+  const [estimate, setEstimate] = React.useState<GasFeeEstimate | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  
+  React.useEffect(() => {
+    setEstimate(null);
+    if (chainId === undefined) return;
+    
+    let isCancelled = false;
+    const load = async () => {
+      try {
+        const next = await gasService.getFeeEstimate(chainId);
+        if (!isCancelled) {
+          setEstimate(next);
+          setError(null);
+        }
+      } catch (error) {
+        if (!isCancelled) {
+          setError(error instanceof Error ? error.message : 'Failed to estimate gas fees');
+        }
+      }
+    };
+    
+    void load();
+    const interval = setInterval(() => void load(), APP_CONFIG.UI.POLLING_INTERVAL);
+    return () => {
+      isCancelled = true;
+      clearInterval(interval);
+    };
+  }, [chainId]);
+  
+  const costs = React.useMemo(() =>
+    estimate && gasUnits ? gasService.projectCosts(estimate, gasUnits) : [], [estimate, gasUnits]
+  );
+  
+  return {
+    estimate,
+    costs,
+    isLoading: chainId !== undefined && !estimate && !error,
+    error,
+  };
+}
+
+/**
+ * Priority fee levels for a Jupiter swap, refreshed while it's on screen.
+ * `computeUnits` defaults to a typical swap until it has been simulated.
+ */
+export function usePriorityFees(quote: SwapQuote | null, maxFeeLamports?: number, computeUnits?: number) {
+  const [estimate, setEstimate] = React.useState<PriorityFeeEstimate | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const isSolanaQuote = !!quote && quote.chainId === undefined;
+  
+  React.useEffect(() => {
+    setEstimate(null);
+    if (!quote || quote.chainId !== undefined) return;
+    
+    let isCancelled = false;
+    const load = async () => {
+      try {
+        const next = await jupiterService.getPriorityFeeEstimate(quote, {
+          ...(computeUnits !== undefined && { computeUnits }),
+          ...(maxFeeLamports !== undefined && { maxFeeLamports }),
+        });
+        if (!isCancelled) {
+          setEstimate(next);
+          setError(null);
+        }
+      } catch (error) {
+        if (!isCancelled) {
+          setError(error instanceof Error ? error.message : 'Failed to estimate priority fees');
+        }
+      }
+    };
+    
+    void load();
+    const interval = setInterval(() => void load(), APP_CONFIG.UI.POLLING_INTERVAL);
+    return () => {
+      isCancelled = true;
+      clearInterval(interval);
+    };
+  }, [quote, maxFeeLamports, computeUnits]);
+  
+  return {
+    estimate,
+    levels: estimate ? GAS_SPEEDS.map(speed => estimate.levels[speed]) : [],
+    isLoading: isSolanaQuote && !estimate && !error,
+    error,
+  };
+}
+
+/**
+ * Token accounts the Solana wallet can close for their rent, with dust
+ * included on request. Reclaiming lists them again once it's done.
+ */
+export function useRentReclaim(owner: PublicKey | null, includeDust: boolean = false) {
+  const [summary, setSummary] = React.useState<RentReclaimSummary | null>(null);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [isReclaiming, setIsReclaiming] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  
+  const refresh = React.useCallback(async () => {
+    if (!owner) {
+      setSummary(null);
+      return;
+    }
+    
+    setIsLoading(true);
+    try {
+      setSummary(await rentReclaimService.getReclaimableAccounts(owner, { includeDust }));
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to list reclaimable accounts');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [owner, includeDust]);
+  
+  React.useEffect(() => {
+    void refresh();
+  }, [refresh]);
+  
+  const reclaim = React.useCallback(async (signer: SolanaSwapSigner, submission?: SolanaSubmissionOptions) => {
+    if (!summary) return null;
+    
+    setIsReclaiming(true);
+    try {
+      return await rentReclaimService.reclaimRent(
+        [...summary.emptyAccounts, ...(includeDust ? summary.dustAccounts : [])],
+        signer,
+        { swapDust: includeDust, ...(submission && { submission }) }
+      );
+    } finally {
+      setIsReclaiming(false);
+      void refresh();
+    }
+  }, [summary, includeDust, refresh]);
+  
+  return {
+    summary,
+    accountCount: summary ? summary.emptyAccounts.length + (includeDust ? summary.dustAccounts.length : 0) : 0,
+    isLoading,
+    isReclaiming,
+    error,
+    refresh,
+    reclaim,
   };
 }
 
@@ -334,6 +1472,7 @@ export function useSwapForm() {
       fromToken: undefined,
       toToken: undefined,
       fromAmount: '',
+      toAmount: '',
     });
   }, [updateSwapForm]);
   
@@ -342,19 +1481,28 @@ export function useSwapForm() {
       fromToken: swapForm.toToken,
       toToken: swapForm.fromToken,
       fromAmount: '',
+      toAmount: '',
     });
   }, [swapForm.fromToken, swapForm.toToken, updateSwapForm]);
   
+  const setSwapMode = React.useCallback((swapMode: SwapMode) => {
+    updateSwapForm({ swapMode });
+  }, [updateSwapForm]);
+  
+  const amount = swapForm.swapMode === 'ExactOut' ? swapForm.toAmount : swapForm.fromAmount;
+  
   return {
     form: swapForm,
     updateForm: updateSwapForm,
     resetForm,
     swapTokens,
+    swapMode: swapForm.swapMode,
+    setSwapMode,
     slippage,
     updateSlippage,
     autoSlippage,
     toggleAutoSlippage,
-    isFormValid: !!(swapForm.fromToken && swapForm.toToken && swapForm.fromAmount),
+    isFormValid: !!(swapForm.fromToken && swapForm.toToken && amount),
   };
 }
 
@@ -386,6 +1534,264 @@ export function useTrades() {
   };
 }
 
+export function useLimitOrders() {
+  const {
+    limitOrders,
+    createLimitOrder,
+    cancelLimitOrder,
+    syncLimitOrders,
+    isLoading,
+    error,
+  } = useTrading();
+  const { addNotification } = useNotifications();
+  
+  const openOrders = React.useMemo(() =>
+    limitOrders.filter(order => order.status === 'open' || order.status === 'partially_filled'),
+    [limitOrders]
+  );
+  const hasOpenOrders = openOrders.length > 0;
+  
+  // Poll fill state while there are orders on the book
+  React.useEffect(() => {
+    if (!hasOpenOrders) return;
+    
+    const refresh = async () => {
+      try {
+        const filled = await syncLimitOrders();
+        filled.forEach(order => {
+          const isComplete = order.status === 'filled';
+          addNotification({
+            userId: order.maker,
+            type: 'trade_update',
+            title: isComplete ? 'Limit Order Filled' : 'Limit Order Partially Filled',
+            message: `Sold ${order.filledFromAmount} ${order.fromToken.symbol} for ${order.filledToAmount} ${order.toToken.symbol}`,
+            isRead: false,
+            priority: isComplete ? 'high' : 'medium',
+            metadata: { orderId: order.id, protocol: order.protocol },
+          });
+        });
+      } catch (err) {
+        logger.error('Failed to sync limit orders:', err);
+      }
+    };
+    
+    void refresh();
+    const interval = setInterval(() => void refresh(), APP_CONFIG.UI.POLLING_INTERVAL);
+    return () => clearInterval(interval);
+  }, [hasOpenOrders, syncLimitOrders, addNotification]);
+  
+  return {
+    orders: limitOrders,
+    openOrders,
+    createOrder: createLimitOrder,
+    cancelOrder: cancelLimitOrder,
+    refresh: syncLimitOrders,
+    isLoading,
+    error,
+    hasOpenOrders,
+  };
+}
+
+export function useDCAPlans() {
+  const {
+    dcaPlans,
+    dcaQuotes,
+    createDCAPlan,
+    pauseDCAPlan,
+    resumeDCAPlan,
+    cancelDCAPlan,
+    prepareDCAExecution,
+    executeDCAPlan,
+    skipDCAExecution,
+    syncDCAPlans,
+    isLoading,
+    error,
+  } = useTrading();
+  const { addNotification } = useNotifications();
+  
+  const activePlans = React.useMemo(() =>
+    dcaPlans.filter(plan => plan.status === 'active' || plan.status === 'paused'),
+    [dcaPlans]
+  );
+  
+  // Purchases quoted and waiting for the user to confirm them in their wallet
+  const duePurchases = React.useMemo(() =>
+    dcaPlans.flatMap(plan => {
+      const quote = dcaQuotes[plan.id];
+      return quote && plan.status === 'active' ? [{ plan, quote }] : [];
+    }),
+    [dcaPlans, dcaQuotes]
+  );
+  
+  const hasActivePlans = activePlans.some(plan => plan.status === 'active');
+  
+  // Scheduler: quote due wallet purchases and pick up Jupiter DCA fills
+  React.useEffect(() => {
+    if (!hasActivePlans) return;
+    
+    const evaluate = async () => {
+      const { dcaPlans: plans, dcaQuotes: quotes } = useTradingStore.getState();
+      const due = dcaService.getDuePlans(plans).filter(plan => !quotes[plan.id]);
+      
+      await Promise.all(due.map(async (plan) => {
+        try {
+          const quote = await prepareDCAExecution(plan.id);
+          addNotification({
+            userId: plan.owner,
+            type: 'trade_update',
+            title: 'Recurring Buy Ready',
+            message: `Confirm ${plan.amountPerExecution} ${plan.fromToken.symbol} → ~${quote.toAmount} ${plan.toToken.symbol}`,
+            isRead: false,
+            priority: 'medium',
+            metadata: { planId: plan.id },
+          });
+        } catch (err) {
+          logger.error(`Failed to quote DCA plan ${plan.id}:`, err);
+        }
+      }));
+      
+      try {
+        const fills = await syncDCAPlans();
+        fills.forEach(trade => {
+          addNotification({
+            userId: trade.userId,
+            type: 'trade_update',
+            title: 'Recurring Buy Executed',
+            message: `Bought ${trade.toAmount} ${trade.toToken?.symbol} for ${trade.fromAmount} ${trade.fromToken.symbol}`,
+            isRead: false,
+            priority: 'low',
+            metadata: { txHash: trade.txHash },
+          });
+        });
+      } catch (err) {
+        logger.error('Failed to sync DCA plans:', err);
+      }
+    };
+    
+    void evaluate();
+    const interval = setInterval(() => void evaluate(), APP_CONFIG.UI.POLLING_INTERVAL);
+    return () => clearInterval(interval);
+  }, [hasActivePlans, prepareDCAExecution, syncDCAPlans, addNotification]);
+  
+  return {
+    plans: dcaPlans,
+    activePlans,
+    duePurchases,
+    createPlan: createDCAPlan,
+    pausePlan: pauseDCAPlan,
+    resumePlan: resumeDCAPlan,
+    cancelPlan: cancelDCAPlan,
+    executePurchase: executeDCAPlan,
+    skipPurchase: skipDCAExecution,
+    isLoading,
+    error,
+    hasActivePlans,
+  };
+}
+
+export function useBridge() {
+  const {
+    trades,
+    bridgeQuotes,
+    isLoadingBridgeQuotes,
+    fetchBridgeQuotes,
+    executeBridge,
+    trackBridgeTransfers,
+    isLoading,
+    error,
+  } = useTrading();
+  const { addNotification } = useNotifications();
+  
+  const transfers = React.useMemo(() =>
+    trades.filter(trade => trade.type === 'bridge'), [trades]
+  );
+  const hasPendingTransfers = transfers.some(trade => trade.status === 'pending');
+  
+  // Poll the destination leg of in-flight transfers until funds arrive
+  React.useEffect(() => {
+    if (!hasPendingTransfers) return;
+    
+    const track = async () => {
+      let settled: Trade[];
+      try {
+        settled = await trackBridgeTransfers();
+      } catch (err) {
+        logger.error('Failed to track bridge transfers:', err);
+        return;
+      }
+      
+      settled.forEach(trade => {
+        const destination = trade.stages?.[1];
+        const isCompleted = trade.status === 'confirmed';
+        addNotification({
+          userId: trade.userId,
+          type: 'trade_update',
+          title: isCompleted ? 'Bridge Transfer Complete' : 'Bridge Transfer Failed',
+          message: isCompleted
+            ? `Received ${trade.toAmount} ${trade.toToken?.symbol} via ${trade.bridge}`
+            : `${trade.fromAmount} ${trade.fromToken.symbol} via ${trade.bridge} did not arrive${destination ? `: ${destination.label}` : ''}`,
+          isRead: false,
+          priority: isCompleted ? 'medium' : 'high',
+          metadata: { txHash: trade.txHash, destinationTxHash: destination?.txHash },
+        });
+      });
+    };
+    
+    void track();
+    const interval = setInterval(() => void track(), APP_CONFIG.UI.POLLING_INTERVAL);
+    return () => clearInterval(interval);
+  }, [hasPendingTransfers, trackBridgeTransfers, addNotification]);
+  
+  return {
+    quotes: bridgeQuotes,
+    isLoadingQuotes: isLoadingBridgeQuotes,
+    getQuotes: fetchBridgeQuotes,
+    executeBridge,
+    transfers,
+    pendingTransfers: transfers.filter(trade => trade.status === 'pending'),
+    isLoading,
+    error,
+  };
+}
+
+export function useBasket() {
+  const {
+    trades,
+    basket,
+    isQuotingBasket,
+    addBasketLeg,
+    removeBasketLeg,
+    clearBasket,
+    quoteBasket,
+    executeBasket,
+    error,
+  } = useTrading();
+  
+  const summary = React.useMemo(() =>
+    basket ? getBasketSummary(basket) : null, [basket]
+  );
+  
+  const basketTrades = React.useMemo(() =>
+    basket ? trades.filter(trade => trade.basketId === basket.id) : [], [trades, basket]
+  );
+  
+  return {
+    basket,
+    legs: basket?.legs || [],
+    summary,
+    trades: basketTrades,
+    addLeg: addBasketLeg,
+    removeLeg: removeBasketLeg,
+    clearBasket,
+    quoteBasket,
+    executeBasket,
+    isQuoting: isQuotingBasket,
+    isExecuting: basket?.status === 'executing',
+    canExecute: basket?.status === 'quoted',
+    error,
+  };
+}
+
 export function useRecentTokens() {
   const { recentTokens, addRecentToken, clearRecentTokens } = useTrading();
   
@@ -402,18 +1808,24 @@ export function useRecentTokens() {
 // =============================================================================
 
 export function calculatePriceImpact(quote: SwapQuote): number {
-  // This would calculate actual price impact based on market prices
+  // Measured by the quoting service against a reference mid price
   return quote.priceImpact;
 }
 
 export function calculateMinimumReceived(quote: SwapQuote, slippage: number): string {
-  const slippageMultiplier = 1 - (slippage / 100);
-  const minimumReceived = parseFloat(quote.toAmount) * slippageMultiplier;
-  return minimumReceived.toString();
+  const { decimals } = quote.toToken;
+  const minimumReceived = applySlippage(parseAmount(quote.toAmount, decimals), slippage, 'min');
+  return formatAmount(minimumReceived, decimals);
+}
+
+export function calculateMaximumSent(quote: SwapQuote, slippage: number): string {
+  const { decimals } = quote.fromToken;
+  const maximumSent = applySlippage(parseAmount(quote.fromAmount, decimals), slippage, 'max');
+  return formatAmount(maximumSent, decimals);
 }
 
 export function isQuoteExpired(quote: SwapQuote): boolean {
-  return new Date() >= quote.validUntil;
+  return hasQuoteExpired(quote);
 }
 
 export function formatRouteDescription(quote: SwapQuote): string {
@@ -423,10 +1835,14 @@ export function formatRouteDescription(quote: SwapQuote): string {
   
   const protocols = quote.route.map(step => step.protocol);
   const uniqueProtocols = [...new Set(protocols)];
+  const via = uniqueProtocols.length === 1
+    ? `via ${uniqueProtocols[0]}`
+    : `via ${uniqueProtocols.slice(0, 2).join(', ')}${uniqueProtocols.length > 2 ? '...' : ''}`;
   
-  if (uniqueProtocols.length === 1) {
-    return `via ${uniqueProtocols[0]}`;
+  const intermediates = getIntermediateTokens(quote.route);
+  if (intermediates.length === 0) {
+    return via;
   }
   
-  return `via ${uniqueProtocols.slice(0, 2).join(', ')}${uniqueProtocols.length > 2 ? '...' : ''}`;
+  return `${via} through ${intermediates.map(token => token.symbol).join(', ')}`;
 }
\ No newline at end of file
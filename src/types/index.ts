@@ -1,4 +1,5 @@
-import { Address } from 'viem';
+import { Connection, SendOptions, Signer, Transaction, VersionedTransaction } from '@solana/web3.js';
+import { Address, Hash, Hex } from 'viem';
 
 // =============================================================================
 // CORE TYPES
@@ -26,6 +27,39 @@ export interface Token {
   volume24h?: number;
   isVerified?: boolean;
   tags?: string[];
+  safety?: TokenSafety; // Solana mints only
+}
+
+export type TokenRiskLevel = 'low' | 'medium' | 'high';
+
+export type TokenSafetyCheck =
+  | 'mint_authority'
+  | 'freeze_authority'
+  | 'transfer_fee'
+  | 'transfer_hook'
+  | 'permanent_delegate'
+  | 'holder_concentration'
+  | 'unverified';
+
+export interface TokenSafetyWarning {
+  check: TokenSafetyCheck;
+  severity: TokenRiskLevel;
+  message: string;
+}
+
+// What a Solana mint's account lets its issuer do, read from chain
+export interface TokenSafety {
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+  isToken2022: boolean;
+  transferFeeBps: number;
+  transferHookProgram: string | null;
+  permanentDelegate: string | null;
+  topHoldersShare: number | null; // Percent of supply in the largest accounts; null until checked
+  isVerified: boolean;
+  warnings: TokenSafetyWarning[];
+  riskLevel: TokenRiskLevel; // The most severe warning
+  checkedAt: Date;
 }
 
 export interface TokenBalance {
@@ -72,10 +106,136 @@ export interface PerformanceDataPoint {
   pnlPercentage: number;
 }
 
+// A Solana token account whose rent can be reclaimed by closing it. Dust has a
+// balance to swap to SOL first; empty accounts close as they are.
+export interface ReclaimableTokenAccount {
+  address: string; // The token account, not the mint
+  token: Token;
+  amount: string; // Raw units
+  uiAmount: number;
+  rentLamports: number;
+  isToken2022: boolean;
+  dustValueSol?: string; // What the balance swaps for; dust only
+}
+
+export interface RentReclaimSummary {
+  emptyAccounts: ReclaimableTokenAccount[];
+  dustAccounts: ReclaimableTokenAccount[];
+  reclaimableLamports: number; // Rent of every listed account
+  reclaimableSol: string;
+  dustValueSol: string;
+}
+
+export interface RentReclaimResult {
+  closedAccounts: string[];
+  failedAccounts: string[]; // Dust that couldn't be swapped, or batches that didn't land
+  signatures: string[]; // Dust swaps, then close batches
+  reclaimedLamports: number;
+}
+
 // =============================================================================
 // TRADING TYPES
 // =============================================================================
 
+export type SwapMode = 'ExactIn' | 'ExactOut';
+
+export type PriceImpactSeverity = 'low' | 'medium' | 'high' | 'severe';
+
+// How much of a token the router may spend: just this swap, or max uint256
+export type ApprovalMode = 'exact' | 'unlimited';
+
+// Signature-based approvals: the token's own EIP-2612 permit, or Uniswap Permit2
+export type PermitType = 'eip2612' | 'permit2';
+
+// How aggressively to price a transaction's gas
+export type GasSpeed = 'slow' | 'standard' | 'fast' | 'instant';
+
+export interface GasFeeLevel {
+  speed: GasSpeed;
+  maxFeePerGas: bigint; // Legacy gas price on chains without EIP-1559
+  maxPriorityFeePerGas: bigint;
+  expectedFeePerGas: bigint; // What we expect to actually pay: base fee plus tip
+}
+
+export interface GasFeeEstimate {
+  chainId: number;
+  isEip1559: boolean;
+  baseFeePerGas: bigint; // Next block's base fee
+  levels: Record<GasSpeed, GasFeeLevel>;
+  nativePriceUSD: number | null;
+  updatedAt: Date;
+}
+
+export interface GasCostProjection {
+  speed: GasSpeed;
+  expectedCost: string; // In the chain's native currency
+  maxCost: string;
+  expectedCostUSD: number | null;
+  maxCostUSD: number | null;
+}
+
+// Where a signed EVM transaction is broadcast: through the wallet to the
+// public mempool, or to a private relay that hides it until it's included
+export type SubmissionStrategy = 'public' | 'private';
+
+export interface SubmissionOptions {
+  strategy: SubmissionStrategy;
+  relayUrl?: string; // Overrides the chain's default private relay
+}
+
+// How a Solana transaction reaches the leader: through the wallet's RPC, or
+// as a tipped Jito bundle that lands whole and can't be front-run
+export type SolanaSubmissionMode = 'rpc' | 'jito';
+
+export interface SolanaSubmissionOptions {
+  mode: SolanaSubmissionMode;
+  tipLamports?: number;
+  blockEngineUrl?: string;
+  priorityLevel?: GasSpeed; // RPC mode bids a priority fee at this speed
+  maxPriorityFeeLamports?: number;
+}
+
+// Matches the wallet adapter's sendTransaction
+export type SolanaTransactionSender = (
+  transaction: Transaction | VersionedTransaction,
+  connection: Connection,
+  options?: SendOptions & { signers?: Signer[] }
+) => Promise<string>;
+
+// Matches the wallet adapter's signTransaction, for flows that send the
+// signed transaction themselves
+export type SolanaTransactionSigner = (transaction: VersionedTransaction) => Promise<VersionedTransaction>;
+
+export interface PriorityFeeLevel {
+  speed: GasSpeed;
+  microLamportsPerComputeUnit: number; // What recent slots locking the swap's accounts paid
+  lamports: number; // Total priority fee for the swap, after the cap
+  fee: string; // In SOL
+  feeUSD: number | null;
+  isCapped: boolean;
+}
+
+export interface PriorityFeeEstimate {
+  computeUnits: number;
+  levels: Record<GasSpeed, PriorityFeeLevel>;
+  solPriceUSD: number | null;
+  updatedAt: Date;
+}
+
+export type JitoBundleStatus = 'pending' | 'landed' | 'failed' | 'invalid';
+
+export interface SignedPermit {
+  type: PermitType;
+  token: Address;
+  owner: Address;
+  spender: Address;
+  amount: bigint;
+  nonce: bigint;
+  deadline: number; // Unix seconds after which the signature is void
+  expiration?: number; // Permit2 only: when the granted allowance lapses
+  signature: Hex;
+}
+
 export interface SwapQuote {
   id: string;
   fromToken: Token;
@@ -84,25 +244,112 @@ export interface SwapQuote {
   toAmount: string;
   price: number;
   priceImpact: number;
+  priceImpactSeverity?: PriceImpactSeverity;
+  referencePrice?: number; // Mid price the impact was measured against
+  isPriceImpactEstimated?: boolean; // Measured against oracle prices, not a spot quote
   gasEstimate: string;
   route: RouteStep[];
   aggregator: string;
   slippage: number;
+  swapMode?: SwapMode;
+  chainId?: number;
   validUntil: Date;
+  // USD valuation used for ranking (output value, gas cost, and the difference)
+  grossValueUSD?: number;
+  gasCostUSD?: number;
+  netValueUSD?: number;
 }
 
+// Inputs that produced a quote, kept so it can be requoted when it expires
+export interface QuoteRequest {
+  fromToken: Token;
+  toToken: Token;
+  amount: string; // Input amount, or the output amount in ExactOut mode
+  slippage: number;
+  swapMode: SwapMode;
+  chainId?: number; // EVM chain; omitted for Solana
+}
+
+// How a fresh quote compares to the expired one it replaces, on the side
+// the user didn't fix (output for ExactIn, input for ExactOut)
+export interface QuoteDiff {
+  previous: SwapQuote;
+  next: SwapQuote;
+  changePercent: number; // Negative when the new quote is worse for the user
+  exceedsSlippage: boolean;
+}
+
+// A single pool a quote routes through. A quote's `route` is the flat list of
+// these; `pathIndex`/`hopIndex` place each one in the route graph.
 export interface RouteStep {
   protocol: string;
-  poolAddress: Address;
-  percentage: number;
+  poolAddress: Address; // Zero address when the aggregator doesn't expose the pool
+  percentage: number; // Share of the quote's total input that flows through this pool
   tokenIn: Token;
   tokenOut: Token;
+  amountIn?: string;
+  amountOut?: string;
+  fee?: number; // Pool fee in hundredths of a bip, where the venue exposes it
+  pathIndex: number; // Parallel path the pool belongs to
+  hopIndex: number; // Position along that path, starting at 0
+}
+
+// One leg of a path: every pool that swaps tokenIn for tokenOut at that point
+export interface RouteHop {
+  hopIndex: number;
+  tokenIn: Token;
+  tokenOut: Token;
+  percentage: number;
+  pools: RouteStep[];
+}
+
+export interface RoutePath {
+  percentage: number;
+  hops: RouteHop[];
+}
+
+export interface SwapTransaction {
+  to: Address;
+  data: Hex;
+  value: bigint;
+  gas?: bigint;
+}
+
+// A token entering (positive) or leaving (negative) the wallet
+export interface BalanceChange {
+  token: Token;
+  amount: string;
+}
+
+// What a transaction would do if it were sent now
+export interface SimulationResult {
+  success: boolean;
+  balanceChanges: BalanceChange[];
+  logs: string[];
+  error?: string; // Revert reason or program error
+  gasUsed?: string; // Compute units on Solana
+  // Set when the node could only report success or failure, so the
+  // balance changes couldn't be traced
+  isPartial?: boolean;
+  simulatedAt: Date;
+}
+
+export type TradeStageStatus = 'pending' | 'confirmed' | 'failed';
+
+// One leg of a trade that settles in several transactions, e.g. a bridge's
+// source and destination chain transfers
+export interface TradeStage {
+  label: string;
+  chainId: number;
+  status: TradeStageStatus;
+  txHash?: string;
+  completedAt?: Date;
 }
 
 export interface Trade {
   id: string;
   userId: string;
-  type: 'swap' | 'add_liquidity' | 'remove_liquidity';
+  type: 'swap' | 'bridge' | 'add_liquidity' | 'remove_liquidity';
   fromToken: Token;
   toToken?: Token;
   fromAmount: string;
@@ -114,6 +361,191 @@ export interface Trade {
   status: 'pending' | 'confirmed' | 'failed';
   timestamp: Date;
   blockNumber?: number;
+  // Set once a swap's amounts are read back from the chain
+  quotedToAmount?: string;
+  quotedPrice?: number;
+  realizedSlippage?: number; // Percent below the quoted price; negative when it beat the quote
+  stages?: TradeStage[];
+  bridge?: string; // Bridge that carried a cross-chain trade
+  basketId?: string; // Basket the trade was executed as a leg of
+  error?: string; // Why a trade that never made it on-chain failed
+}
+
+// What a confirmed swap actually moved, read from its receipt or transaction
+export interface SwapExecution {
+  fromAmount: string;
+  toAmount: string;
+  gasUsed: string;
+  gasFee: string; // In the chain's native currency
+  blockNumber: number; // Slot on Solana
+}
+
+export type BasketLegStatus = 'draft' | 'quoted' | 'executing' | 'confirmed' | 'failed' | 'skipped';
+
+// One swap in a basket, quoted and executed alongside the others
+export interface BasketLeg {
+  id: string;
+  request: QuoteRequest;
+  status: BasketLegStatus;
+  quote?: SwapQuote;
+  txHash?: string;
+  tradeId?: string;
+  error?: string;
+}
+
+export type BasketStatus = 'draft' | 'quoted' | 'executing' | 'completed' | 'partial' | 'failed';
+
+// Several swaps on one chain, reviewed and executed as a single plan
+export interface Basket {
+  id: string;
+  chainId?: number; // EVM chain every leg trades on; omitted for Solana
+  legs: BasketLeg[];
+  status: BasketStatus;
+  createdAt: Date;
+  executedAt?: Date;
+}
+
+export interface BasketSummary {
+  legCount: number;
+  quotedCount: number;
+  totalInUSD: number;
+  totalOutUSD: number;
+  totalGasUSD: number;
+  netChangeUSD: number; // Value out less value in and gas
+  isComplete: boolean; // Every leg has a USD value, so the totals cover the whole basket
+}
+
+// An ERC20 allowance the connected address has granted, as it stands now
+export interface TokenApproval {
+  id: string;
+  chainId: number;
+  token: Token;
+  spender: Address;
+  spenderLabel?: string; // Router or protocol the spender is known to be
+  allowance: string;
+  isUnlimited: boolean;
+  balance: string;
+  exposureUSD: number | null; // Value the spender could move now: the lesser of allowance and balance
+  isRisky: boolean; // Unlimited and granted to a contract we don't recognise
+  lastApprovedBlock: number;
+  lastApprovedTxHash: Hash;
+}
+
+export type LimitOrderProtocol = '1inch' | 'Jupiter';
+
+export type LimitOrderStatus = 'open' | 'partially_filled' | 'filled' | 'cancelled' | 'expired';
+
+export interface CreateLimitOrderParams {
+  fromToken: Token;
+  toToken: Token;
+  fromAmount: string;
+  limitPrice: number; // toToken received per fromToken
+  chainId?: number; // EVM chain to place the order on; omitted for Solana
+  expiresAt?: Date;
+}
+
+export interface LimitOrder {
+  id: string; // 1inch order hash or Jupiter order account
+  protocol: LimitOrderProtocol;
+  chainId?: number;
+  maker: string;
+  fromToken: Token;
+  toToken: Token;
+  fromAmount: string;
+  toAmount: string;
+  limitPrice: number;
+  filledFromAmount: string;
+  filledToAmount: string;
+  status: LimitOrderStatus;
+  createdAt: Date;
+  expiresAt?: Date;
+  txHash?: string; // Creation or cancellation transaction, where there is one
+  orderData?: Record<string, string>; // Signed 1inch order struct, needed to cancel on-chain
+}
+
+export type DCAInterval = 'hourly' | 'daily' | 'weekly' | 'biweekly' | 'monthly';
+
+// 'wallet' quotes each purchase and waits for the user to confirm it;
+// 'jupiter' deposits the full budget into Jupiter's on-chain DCA program
+export type DCAExecutionMode = 'wallet' | 'jupiter';
+
+export type DCAEndCondition =
+  | { type: 'never' }
+  | { type: 'executions'; count: number }
+  | { type: 'date'; endDate: Date };
+
+export type DCAPlanStatus = 'active' | 'paused' | 'completed' | 'cancelled';
+
+export interface CreateDCAPlanParams {
+  fromToken: Token;
+  toToken: Token;
+  amountPerExecution: string; // fromToken spent on each purchase
+  interval: DCAInterval;
+  endCondition: DCAEndCondition;
+  executionMode: DCAExecutionMode;
+  chainId?: number; // EVM chain to buy on; omitted for Solana
+  startAt?: Date;
+}
+
+export interface DCAPlan {
+  id: string;
+  owner: string;
+  chainId?: number;
+  fromToken: Token;
+  toToken: Token;
+  amountPerExecution: string;
+  interval: DCAInterval;
+  endCondition: DCAEndCondition;
+  executionMode: DCAExecutionMode;
+  status: DCAPlanStatus;
+  createdAt: Date;
+  nextExecutionAt: Date;
+  lastExecutedAt?: Date;
+  executionCount: number;
+  totalSpent: string;
+  totalReceived: string;
+  tradeIds: string[];
+  recurringOrderKey?: string; // Jupiter DCA order account
+}
+
+export interface BridgeQuoteRequest {
+  fromChainId: number; // EVM chain ID, or SOLANA_CHAIN_ID
+  toChainId: number;
+  fromToken: Token;
+  toTokenAddress: string; // Resolved to a token from the bridge's response
+  amount: string;
+  fromAddress: string;
+  toAddress: string; // Receiving wallet on the destination chain
+  slippage: number;
+}
+
+export interface BridgeFee {
+  name: string;
+  token: Token;
+  amount: string;
+  amountUSD: number;
+  included: boolean; // Taken out of the transferred amount rather than paid on top
+}
+
+export interface BridgeQuote {
+  id: string;
+  bridge: string;
+  fromChainId: number;
+  toChainId: number;
+  fromToken: Token;
+  toToken: Token;
+  fromAmount: string;
+  toAmount: string;
+  toAmountMin: string;
+  fromAddress: string;
+  toAddress: string;
+  fees: BridgeFee[];
+  feeUSD: number;
+  gasCostUSD: number;
+  estimatedDuration: number; // Seconds until funds arrive on the destination chain
+  approvalAddress?: string;
+  validUntil: Date;
+  raw?: unknown; // Route step, needed to build the source transaction
 }
 
 // =============================================================================
@@ -305,6 +737,8 @@ export interface SwapFormData {
   fromToken?: Token;
   toToken?: Token;
   fromAmount: string;
+  toAmount: string; // Desired output when swapMode is 'ExactOut'
+  swapMode: SwapMode;
   slippage: number;
   autoSlippage: boolean;
 }
@@ -360,6 +794,7 @@ export type ErrorCode =
   | 'INSUFFICIENT_BALANCE'
   | 'SLIPPAGE_TOO_HIGH'
   | 'TRADE_FAILED'
+  | 'TRANSACTION_EXPIRED'
   | 'API_ERROR'
   | 'NETWORK_ERROR'
   | 'VALIDATION_ERROR'
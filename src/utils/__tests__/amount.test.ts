@@ -0,0 +1,163 @@
+import {
+  applySlippage,
+  convertDecimals,
+  divideRounded,
+  formatAmount,
+  mulDiv,
+  parseAmount,
+  percentToBps,
+  toNumber,
+} from '../amount';
+
+const MAX_UINT256 = '115792089237316195423570985008687907853269984665640564039457584007913129639935';
+
+describe('parseAmount', () => {
+  it('scales decimal strings to base units', () => {
+    expect(parseAmount('1.5', 18)).toBe(BigInt('1500000000000000000'));
+    expect(parseAmount('0.000001', 6)).toBe(BigInt(1));
+    expect(parseAmount('42', 0)).toBe(BigInt(42));
+    expect(parseAmount('.5', 1)).toBe(BigInt(5));
+    expect(parseAmount('5.', 1)).toBe(BigInt(50));
+  });
+
+  it('accepts scientific notation', () => {
+    expect(parseAmount('2e-3', 6)).toBe(BigInt(2000));
+    expect(parseAmount('1.5e10', 0)).toBe(BigInt('15000000000'));
+    expect(parseAmount('1E+2', 2)).toBe(BigInt(10000));
+  });
+
+  it('ignores surrounding whitespace and thousands separators', () => {
+    expect(parseAmount(' 1,000.5 ', 2)).toBe(BigInt(100050));
+  });
+
+  it('rounds digits beyond the token precision', () => {
+    expect(parseAmount('1.23456789', 6)).toBe(BigInt(1234567));
+    expect(parseAmount('1.23456789', 6, 'up')).toBe(BigInt(1234568));
+    expect(parseAmount('1.2345675', 6, 'half-up')).toBe(BigInt(1234568));
+    expect(parseAmount('1.2345674', 6, 'half-up')).toBe(BigInt(1234567));
+    expect(parseAmount('0.0000001', 6, 'up')).toBe(BigInt(1));
+  });
+
+  it('parses zero', () => {
+    expect(parseAmount('0', 18)).toBe(BigInt(0));
+    expect(parseAmount('0.000', 6)).toBe(BigInt(0));
+  });
+
+  it('parses the largest uint256 without losing precision', () => {
+    expect(parseAmount(MAX_UINT256, 0)).toBe(BigInt(MAX_UINT256));
+  });
+
+  it.each(['', '   ', 'abc', '1.2.3', '-1', '.', 'e5', '1e', '0x10', 'NaN'])(
+    'rejects %p',
+    value => {
+      expect(() => parseAmount(value, 18)).toThrow('Invalid amount');
+    }
+  );
+});
+
+describe('formatAmount', () => {
+  it('formats base units as a trimmed decimal string', () => {
+    expect(formatAmount(BigInt(1500000), 6)).toBe('1.5');
+    expect(formatAmount(BigInt(1000000), 6)).toBe('1');
+    expect(formatAmount('1', 18)).toBe('0.000000000000000001');
+    expect(formatAmount(BigInt(42), 0)).toBe('42');
+  });
+
+  it('formats zero and negative amounts', () => {
+    expect(formatAmount(BigInt(0), 18)).toBe('0');
+    expect(formatAmount(BigInt(-1500000), 6)).toBe('-1.5');
+  });
+
+  it('formats the largest uint256 exactly', () => {
+    expect(formatAmount(MAX_UINT256, 18))
+      .toBe('115792089237316195423570985008687907853269984665640564039457.584007913129639935');
+  });
+
+  it('rounds to maxDecimals', () => {
+    expect(formatAmount(BigInt(1234567), 6, { maxDecimals: 2 })).toBe('1.23');
+    expect(formatAmount(BigInt(1234567), 6, { maxDecimals: 2, rounding: 'up' })).toBe('1.24');
+    expect(formatAmount(BigInt(1235000), 6, { maxDecimals: 2, rounding: 'half-up' })).toBe('1.24');
+    expect(formatAmount(BigInt(1234999), 6, { maxDecimals: 2, rounding: 'half-up' })).toBe('1.23');
+    expect(formatAmount(BigInt(1500000), 6, { maxDecimals: 8 })).toBe('1.5');
+  });
+
+  it('round-trips with parseAmount', () => {
+    ['0.1', '123.456', '0.000000000000000001', '1000000'].forEach(value => {
+      expect(formatAmount(parseAmount(value, 18), 18)).toBe(value);
+    });
+  });
+
+  it('rejects non-integer base units', () => {
+    expect(() => formatAmount('1.5', 6)).toThrow();
+  });
+});
+
+describe('toNumber', () => {
+  it('converts base units to a float', () => {
+    expect(toNumber('1500000', 6)).toBe(1.5);
+    expect(toNumber(BigInt(0), 18)).toBe(0);
+    expect(toNumber(BigInt('1000000000'), 9)).toBe(1);
+  });
+});
+
+describe('convertDecimals', () => {
+  it('scales up without rounding', () => {
+    expect(convertDecimals(BigInt(1500000), 6, 18)).toBe(BigInt('1500000000000000000'));
+  });
+
+  it('scales down with the given rounding', () => {
+    const value = BigInt('1500000000000000001');
+    expect(convertDecimals(value, 18, 6)).toBe(BigInt(1500000));
+    expect(convertDecimals(value, 18, 6, 'up')).toBe(BigInt(1500001));
+    expect(convertDecimals(value, 18, 6, 'half-up')).toBe(BigInt(1500000));
+  });
+
+  it('leaves equal precisions alone', () => {
+    expect(convertDecimals(BigInt(123), 6, 6)).toBe(BigInt(123));
+    expect(convertDecimals(BigInt(0), 18, 6)).toBe(BigInt(0));
+  });
+});
+
+describe('divideRounded', () => {
+  it('rounds the quotient', () => {
+    expect(divideRounded(BigInt(5), BigInt(2))).toBe(BigInt(2));
+    expect(divideRounded(BigInt(5), BigInt(2), 'up')).toBe(BigInt(3));
+    expect(divideRounded(BigInt(5), BigInt(2), 'half-up')).toBe(BigInt(3));
+    expect(divideRounded(BigInt(4), BigInt(3), 'half-up')).toBe(BigInt(1));
+    expect(divideRounded(BigInt(6), BigInt(3), 'up')).toBe(BigInt(2));
+  });
+
+  it('throws on division by zero', () => {
+    expect(() => divideRounded(BigInt(1), BigInt(0))).toThrow('Division by zero');
+  });
+});
+
+describe('mulDiv', () => {
+  it('keeps full precision between the multiply and the divide', () => {
+    expect(mulDiv(BigInt(MAX_UINT256), BigInt(3), BigInt(3))).toBe(BigInt(MAX_UINT256));
+    expect(mulDiv(BigInt(10), BigInt(1), BigInt(3), 'up')).toBe(BigInt(4));
+  });
+});
+
+describe('applySlippage', () => {
+  it('converts percentages to basis points', () => {
+    expect(percentToBps(0.5)).toBe(BigInt(50));
+    expect(percentToBps(0.1)).toBe(BigInt(10));
+    expect(percentToBps(0)).toBe(BigInt(0));
+  });
+
+  it('bounds the amount either side', () => {
+    expect(applySlippage(BigInt(10000), 0.5, 'min')).toBe(BigInt(9950));
+    expect(applySlippage(BigInt(10000), 0.5, 'max')).toBe(BigInt(10050));
+  });
+
+  it('rounds in the trader-safe direction', () => {
+    expect(applySlippage(BigInt(1), 0.5, 'min')).toBe(BigInt(0));
+    expect(applySlippage(BigInt(1), 0.5, 'max')).toBe(BigInt(2));
+  });
+
+  it('leaves zero amounts at zero', () => {
+    expect(applySlippage(BigInt(0), 1, 'min')).toBe(BigInt(0));
+    expect(applySlippage(BigInt(0), 1, 'max')).toBe(BigInt(0));
+  });
+});
@@ -0,0 +1,107 @@
+import { Address } from 'viem';
+import { Basket, BasketLeg, QuoteRequest } from '@/types';
+import { getBasketSummary, getSettledBasketStatus, hasDependentSwaps } from '../basket';
+import { DAI, makeQuote, USDC, WETH } from './fixtures';
+
+const request: QuoteRequest = {
+  fromToken: WETH,
+  toToken: USDC,
+  amount: '1',
+  slippage: 0.5,
+  swapMode: 'ExactIn',
+  chainId: 1,
+};
+
+function makeLeg(overrides: Partial<BasketLeg> = {}): BasketLeg {
+  return { id: 'leg_1', request, status: 'quoted', ...overrides };
+}
+
+function makeBasket(legs: BasketLeg[]): Basket {
+  return { id: 'basket_1', chainId: 1, legs, status: 'quoted', createdAt: new Date() };
+}
+
+describe('getBasketSummary', () => {
+  it('totals legs valued from token prices', () => {
+    const quote = makeQuote({
+      fromToken: { ...WETH, price: 2000 },
+      toToken: { ...USDC, price: 1 },
+      toAmount: '1990',
+      gasCostUSD: 5,
+    });
+    const summary = getBasketSummary(makeBasket([makeLeg({ quote }), makeLeg({ id: 'leg_2', quote })]));
+
+    expect(summary.legCount).toBe(2);
+    expect(summary.quotedCount).toBe(2);
+    expect(summary.totalInUSD).toBe(4000);
+    expect(summary.totalOutUSD).toBe(3980);
+    expect(summary.totalGasUSD).toBe(10);
+    expect(summary.netChangeUSD).toBe(-30);
+    expect(summary.isComplete).toBe(true);
+  });
+
+  it('falls back to the aggregator value for the ranked side', () => {
+    const exactIn = makeQuote({ fromToken: { ...WETH, price: 2000 }, grossValueUSD: 1995 });
+    const exactOut = makeQuote({ swapMode: 'ExactOut', toToken: { ...USDC, price: 1 }, grossValueUSD: 2005 });
+    const summary = getBasketSummary(makeBasket([
+      makeLeg({ quote: exactIn }),
+      makeLeg({ id: 'leg_2', quote: exactOut }),
+    ]));
+
+    expect(summary.totalInUSD).toBe(4005);
+    expect(summary.totalOutUSD).toBe(3995);
+    expect(summary.isComplete).toBe(true);
+  });
+
+  it('is incomplete while a leg is unquoted or unvalued', () => {
+    const unquoted = getBasketSummary(makeBasket([makeLeg({ status: 'draft' })]));
+    const unvalued = getBasketSummary(makeBasket([makeLeg({ quote: makeQuote() })]));
+
+    expect(unquoted.quotedCount).toBe(0);
+    expect(unquoted.isComplete).toBe(false);
+    expect(unvalued.isComplete).toBe(false);
+  });
+
+  it('is incomplete when empty', () => {
+    expect(getBasketSummary(makeBasket([])).isComplete).toBe(false);
+  });
+});
+
+describe('hasDependentSwaps', () => {
+  it('allows swaps that spend what the wallet already holds', () => {
+    expect(hasDependentSwaps([
+      makeQuote({ fromToken: WETH, toToken: USDC }),
+      makeQuote({ fromToken: DAI, toToken: USDC }),
+    ])).toBe(false);
+  });
+
+  it('flags a swap spending what an earlier one buys', () => {
+    expect(hasDependentSwaps([
+      makeQuote({ fromToken: WETH, toToken: USDC }),
+      makeQuote({ fromToken: { ...USDC, address: USDC.address.toLowerCase() as Address }, toToken: DAI }),
+    ])).toBe(true);
+  });
+
+  it('ignores a later swap buying what an earlier one spent', () => {
+    expect(hasDependentSwaps([
+      makeQuote({ fromToken: USDC, toToken: DAI }),
+      makeQuote({ fromToken: WETH, toToken: USDC }),
+    ])).toBe(false);
+  });
+});
+
+describe('getSettledBasketStatus', () => {
+  it('completes when every leg confirmed', () => {
+    expect(getSettledBasketStatus([makeLeg({ status: 'confirmed' })])).toBe('completed');
+  });
+
+  it('is partial when only some legs confirmed', () => {
+    expect(getSettledBasketStatus([
+      makeLeg({ status: 'confirmed' }),
+      makeLeg({ id: 'leg_2', status: 'skipped' }),
+    ])).toBe('partial');
+  });
+
+  it('fails when no leg confirmed', () => {
+    expect(getSettledBasketStatus([makeLeg({ status: 'failed' })])).toBe('failed');
+  });
+});
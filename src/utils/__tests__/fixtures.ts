@@ -0,0 +1,46 @@
+import { Address } from 'viem';
+import { SwapQuote, Token } from '@/types';
+
+export const USDC: Token = {
+  id: 'usd-coin',
+  address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48' as Address,
+  symbol: 'USDC',
+  name: 'USD Coin',
+  decimals: 6,
+};
+
+export const WETH: Token = {
+  id: 'weth',
+  address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2' as Address,
+  symbol: 'WETH',
+  name: 'Wrapped Ether',
+  decimals: 18,
+};
+
+export const DAI: Token = {
+  id: 'dai',
+  address: '0x6B175474E89094C44Da98b954EedeAC495271d0F' as Address,
+  symbol: 'DAI',
+  name: 'Dai Stablecoin',
+  decimals: 18,
+};
+
+export function makeQuote(overrides: Partial<SwapQuote> = {}): SwapQuote {
+  return {
+    id: 'quote_1',
+    fromToken: WETH,
+    toToken: USDC,
+    fromAmount: '1',
+    toAmount: '2000',
+    price: 2000,
+    priceImpact: 0,
+    gasEstimate: '150000',
+    route: [],
+    aggregator: '1inch',
+    slippage: 0.5,
+    swapMode: 'ExactIn',
+    chainId: 1,
+    validUntil: new Date(Date.now() + 30000),
+    ...overrides,
+  };
+}
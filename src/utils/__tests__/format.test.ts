@@ -0,0 +1,19 @@
+import { formatGasPrice } from '../format';
+
+describe('formatGasPrice', () => {
+  it('formats wei as gwei', () => {
+    expect(formatGasPrice('25000000000')).toBe('25 Gwei');
+    expect(formatGasPrice(BigInt('1500000000'))).toBe('1.5 Gwei');
+    expect(formatGasPrice(30000000000)).toBe('30 Gwei');
+  });
+
+  it('accepts decimal and scientific strings', () => {
+    expect(formatGasPrice('1.5e10')).toBe('15 Gwei');
+    expect(formatGasPrice('2500000000.5')).toBe('2.5 Gwei');
+  });
+
+  it('renders unparseable input as zero instead of throwing', () => {
+    expect(formatGasPrice('')).toBe('0 Gwei');
+    expect(formatGasPrice('not a price')).toBe('0 Gwei');
+  });
+});
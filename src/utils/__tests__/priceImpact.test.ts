@@ -0,0 +1,63 @@
+import {
+  calculatePriceImpact,
+  getPriceImpactSeverity,
+  isPriceImpactBlocked,
+  withPriceImpact,
+} from '../priceImpact';
+import { makeQuote } from './fixtures';
+
+describe('calculatePriceImpact', () => {
+  it('measures the shortfall against the reference price', () => {
+    expect(calculatePriceImpact(1980, 2000)).toBeCloseTo(1);
+    expect(calculatePriceImpact(1000, 2000)).toBeCloseTo(50);
+    expect(calculatePriceImpact(2000, 2000)).toBe(0);
+  });
+
+  it('never reports negative impact for a better-than-mid fill', () => {
+    expect(calculatePriceImpact(2100, 2000)).toBe(0);
+  });
+
+  it('returns zero without a usable reference', () => {
+    expect(calculatePriceImpact(1980, 0)).toBe(0);
+    expect(calculatePriceImpact(1980, -1)).toBe(0);
+    expect(calculatePriceImpact(1980, Infinity)).toBe(0);
+    expect(calculatePriceImpact(NaN, 2000)).toBe(0);
+  });
+});
+
+describe('getPriceImpactSeverity', () => {
+  it('buckets impact at the configured thresholds', () => {
+    expect(getPriceImpactSeverity(0)).toBe('low');
+    expect(getPriceImpactSeverity(0.99)).toBe('low');
+    expect(getPriceImpactSeverity(1)).toBe('medium');
+    expect(getPriceImpactSeverity(3)).toBe('high');
+    expect(getPriceImpactSeverity(5)).toBe('severe');
+    expect(getPriceImpactSeverity(40)).toBe('severe');
+  });
+});
+
+describe('withPriceImpact', () => {
+  it('attaches impact, severity and the reference to the quote', () => {
+    const quote = withPriceImpact(makeQuote({ price: 1900 }), 2000);
+
+    expect(quote.priceImpact).toBeCloseTo(5);
+    expect(quote.priceImpactSeverity).toBe('severe');
+    expect(quote.referencePrice).toBe(2000);
+    expect(quote.isPriceImpactEstimated).toBe(false);
+  });
+
+  it('flags impact measured against an oracle reference', () => {
+    expect(withPriceImpact(makeQuote(), 2000, true).isPriceImpactEstimated).toBe(true);
+  });
+});
+
+describe('isPriceImpactBlocked', () => {
+  it('blocks quotes above the maximum impact', () => {
+    expect(isPriceImpactBlocked(makeQuote({ priceImpact: 16 }), 15, false)).toBe(true);
+    expect(isPriceImpactBlocked(makeQuote({ priceImpact: 15 }), 15, false)).toBe(false);
+  });
+
+  it('lets expert mode through', () => {
+    expect(isPriceImpactBlocked(makeQuote({ priceImpact: 50 }), 15, true)).toBe(false);
+  });
+});
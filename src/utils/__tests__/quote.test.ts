@@ -0,0 +1,135 @@
+import { APP_CONFIG } from '@/lib/constants';
+import {
+  diffQuotes,
+  getQuoteRequest,
+  getQuoteTimeRemaining,
+  getQuoteValidUntil,
+  isQuoteExpired,
+  isQuoteRefreshDue,
+  isSameQuoteRequest,
+} from '../quote';
+import { makeQuote, USDC, WETH } from './fixtures';
+
+const { QUOTE_TTL, QUOTE_REFRESH_BUFFER } = APP_CONFIG.TRADING;
+const NOW = new Date('2026-01-10T12:00:00Z').getTime();
+
+describe('quote expiry', () => {
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('gives a fresh quote the full time to live', () => {
+    expect(getQuoteValidUntil().getTime()).toBe(NOW + QUOTE_TTL);
+  });
+
+  it('counts down to zero and never below', () => {
+    const quote = makeQuote({ validUntil: new Date(NOW + 10000) });
+
+    expect(getQuoteTimeRemaining(quote)).toBe(10000);
+    expect(getQuoteTimeRemaining(quote, NOW + 4000)).toBe(6000);
+    expect(getQuoteTimeRemaining(quote, NOW + 60000)).toBe(0);
+  });
+
+  it('accepts a serialized expiry', () => {
+    const quote = makeQuote({ validUntil: new Date(NOW + 10000).toISOString() as unknown as Date });
+    expect(getQuoteTimeRemaining(quote)).toBe(10000);
+  });
+
+  it('expires a quote at its expiry time', () => {
+    expect(isQuoteExpired(makeQuote({ validUntil: new Date(NOW + 1) }))).toBe(false);
+    expect(isQuoteExpired(makeQuote({ validUntil: new Date(NOW) }))).toBe(true);
+  });
+
+  it('is due for a refresh within the buffer before expiry', () => {
+    expect(isQuoteRefreshDue(makeQuote({ validUntil: new Date(NOW + QUOTE_REFRESH_BUFFER + 1) }))).toBe(false);
+    expect(isQuoteRefreshDue(makeQuote({ validUntil: new Date(NOW + QUOTE_REFRESH_BUFFER) }))).toBe(true);
+    expect(isQuoteRefreshDue(makeQuote({ validUntil: new Date(NOW - 1) }))).toBe(true);
+  });
+});
+
+describe('getQuoteRequest', () => {
+  it('requests the input amount for an exact-in quote', () => {
+    expect(getQuoteRequest(makeQuote())).toEqual({
+      fromToken: WETH,
+      toToken: USDC,
+      amount: '1',
+      slippage: 0.5,
+      swapMode: 'ExactIn',
+      chainId: 1,
+    });
+  });
+
+  it('requests the output amount for an exact-out quote', () => {
+    const request = getQuoteRequest(makeQuote({ swapMode: 'ExactOut' }));
+    expect(request.amount).toBe('2000');
+    expect(request.swapMode).toBe('ExactOut');
+  });
+
+  it('leaves the chain out for Solana quotes', () => {
+    const solanaQuote = makeQuote();
+    delete solanaQuote.chainId;
+    expect(getQuoteRequest(solanaQuote)).not.toHaveProperty('chainId');
+  });
+});
+
+describe('isSameQuoteRequest', () => {
+  it('matches a requote of the same swap', () => {
+    const request = getQuoteRequest(makeQuote());
+    expect(isSameQuoteRequest(request, getQuoteRequest(makeQuote({ id: 'quote_2', toAmount: '1995' })))).toBe(true);
+  });
+
+  it('tells apart swaps with different inputs', () => {
+    const request = getQuoteRequest(makeQuote());
+
+    expect(isSameQuoteRequest(request, { ...request, amount: '2' })).toBe(false);
+    expect(isSameQuoteRequest(request, { ...request, swapMode: 'ExactOut' })).toBe(false);
+    expect(isSameQuoteRequest(request, { ...request, chainId: 137 })).toBe(false);
+  });
+});
+
+describe('diffQuotes', () => {
+  it('reports no change for an identical requote', () => {
+    const diff = diffQuotes(makeQuote(), makeQuote({ id: 'quote_2' }));
+
+    expect(diff.changePercent).toBe(0);
+    expect(diff.exceedsSlippage).toBe(false);
+  });
+
+  it('measures the change in what an exact-in swap receives', () => {
+    const better = diffQuotes(makeQuote(), makeQuote({ toAmount: '2010' }));
+    const worse = diffQuotes(makeQuote(), makeQuote({ toAmount: '1995' }));
+
+    expect(better.changePercent).toBeCloseTo(0.5);
+    expect(worse.changePercent).toBeCloseTo(-0.25);
+    expect(worse.exceedsSlippage).toBe(false);
+  });
+
+  it('flags an exact-in requote below the old minimum received', () => {
+    // 0.5% slippage on 2000 USDC leaves a 1990 minimum
+    expect(diffQuotes(makeQuote(), makeQuote({ toAmount: '1990' })).exceedsSlippage).toBe(false);
+    expect(diffQuotes(makeQuote(), makeQuote({ toAmount: '1989.999999' })).exceedsSlippage).toBe(true);
+  });
+
+  it('treats paying more as worse for an exact-out swap', () => {
+    const previous = makeQuote({ swapMode: 'ExactOut' });
+    const diff = diffQuotes(previous, makeQuote({ swapMode: 'ExactOut', fromAmount: '1.004' }));
+
+    expect(diff.changePercent).toBeCloseTo(-0.4);
+    expect(diff.exceedsSlippage).toBe(false);
+  });
+
+  it('flags an exact-out requote above the old maximum sent', () => {
+    const previous = makeQuote({ swapMode: 'ExactOut' });
+
+    expect(diffQuotes(previous, makeQuote({ swapMode: 'ExactOut', fromAmount: '1.005' })).exceedsSlippage).toBe(false);
+    expect(diffQuotes(previous, makeQuote({ swapMode: 'ExactOut', fromAmount: '1.005000000000000001' })).exceedsSlippage).toBe(true);
+  });
+
+  it('reports no change against a zero-amount quote', () => {
+    expect(diffQuotes(makeQuote({ toAmount: '0' }), makeQuote()).changePercent).toBe(0);
+  });
+});
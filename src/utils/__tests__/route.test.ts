@@ -0,0 +1,91 @@
+import { Address } from 'viem';
+import { RouteStep, Token } from '@/types';
+import { getIntermediateTokens, groupRoutePaths, resolveRouteToken } from '../route';
+import { DAI, USDC, WETH } from './fixtures';
+
+function makeStep(
+  tokenIn: Token,
+  tokenOut: Token,
+  overrides: Partial<RouteStep> = {}
+): RouteStep {
+  return {
+    protocol: 'UNISWAP_V3',
+    poolAddress: '0x0000000000000000000000000000000000000001' as Address,
+    percentage: 100,
+    tokenIn,
+    tokenOut,
+    pathIndex: 0,
+    hopIndex: 0,
+    ...overrides,
+  };
+}
+
+describe('resolveRouteToken', () => {
+  it('matches known tokens regardless of address case', () => {
+    expect(resolveRouteToken(USDC.address.toLowerCase(), [WETH, USDC])).toBe(USDC);
+  });
+
+  it('falls back to a placeholder labelled with the shortened address', () => {
+    const address = '0x1234567890abcdef1234567890abcdef12345678';
+    const token = resolveRouteToken(address, [WETH], 8);
+
+    expect(token.symbol).toBe('0x12…5678');
+    expect(token.address).toBe(address);
+    expect(token.decimals).toBe(8);
+    expect(token.isVerified).toBe(false);
+  });
+});
+
+describe('groupRoutePaths', () => {
+  it('keeps a direct swap as a single hop', () => {
+    const [path, ...rest] = groupRoutePaths([makeStep(WETH, USDC)]);
+
+    expect(rest).toEqual([]);
+    expect(path?.percentage).toBe(100);
+    expect(path?.hops).toHaveLength(1);
+  });
+
+  it('merges pools that trade the same pair at the same position', () => {
+    const paths = groupRoutePaths([
+      makeStep(WETH, USDC, { percentage: 60 }),
+      makeStep(WETH, USDC, { percentage: 40, protocol: 'SUSHI' }),
+    ]);
+    const hop = paths[0]?.hops[0];
+
+    expect(paths).toHaveLength(1);
+    expect(hop?.percentage).toBe(100);
+    expect(hop?.pools.map(pool => pool.protocol)).toEqual(['UNISWAP_V3', 'SUSHI']);
+  });
+
+  it('splits parallel paths and orders hops along each', () => {
+    const paths = groupRoutePaths([
+      makeStep(DAI, USDC, { pathIndex: 1, hopIndex: 1, percentage: 30 }),
+      makeStep(WETH, DAI, { pathIndex: 1, hopIndex: 0, percentage: 30 }),
+      makeStep(WETH, USDC, { pathIndex: 0, percentage: 70 }),
+    ]);
+
+    expect(paths.map(path => path.percentage)).toEqual([70, 30]);
+    expect(paths[1]?.hops.map(hop => hop.tokenOut.symbol)).toEqual(['DAI', 'USDC']);
+  });
+
+  it('returns no paths for an empty route', () => {
+    expect(groupRoutePaths([])).toEqual([]);
+  });
+});
+
+describe('getIntermediateTokens', () => {
+  it('lists each token the route passes through once', () => {
+    const route = [
+      makeStep(WETH, DAI, { percentage: 50 }),
+      makeStep(DAI, USDC, { hopIndex: 1, percentage: 50 }),
+      makeStep(WETH, DAI, { pathIndex: 1, percentage: 50 }),
+      makeStep(DAI, USDC, { pathIndex: 1, hopIndex: 1, percentage: 50 }),
+    ];
+
+    expect(getIntermediateTokens(route)).toEqual([DAI]);
+  });
+
+  it('has none for a direct swap', () => {
+    expect(getIntermediateTokens([makeStep(WETH, USDC)])).toEqual([]);
+  });
+});
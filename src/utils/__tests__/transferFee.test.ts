@@ -0,0 +1,65 @@
+import { TransferFee, calculateFee } from '@solana/spl-token';
+import { applyTransferFees, getPreFeeAmount } from '../transferFee';
+
+function makeFee(transferFeeBasisPoints: number, maximumFee: bigint = BigInt('1000000000000')): TransferFee {
+  return { epoch: BigInt(500), transferFeeBasisPoints, maximumFee };
+}
+
+const ONE_PERCENT = makeFee(100);
+const TWO_PERCENT = makeFee(200);
+
+describe('getPreFeeAmount', () => {
+  it('leaves the amount alone without a fee', () => {
+    expect(getPreFeeAmount(BigInt(9900), null)).toBe(BigInt(9900));
+    expect(getPreFeeAmount(BigInt(0), ONE_PERCENT)).toBe(BigInt(0));
+  });
+
+  it('grosses up so the amount arrives after the fee', () => {
+    expect(getPreFeeAmount(BigInt(9900), ONE_PERCENT)).toBe(BigInt(10000));
+  });
+
+  it('rounds up to the smallest transfer that covers the amount', () => {
+    const gross = getPreFeeAmount(BigInt(100), ONE_PERCENT);
+
+    expect(gross).toBe(BigInt(102));
+    expect(gross - calculateFee(ONE_PERCENT, gross)).toBe(BigInt(100));
+    expect(gross - BigInt(1) - calculateFee(ONE_PERCENT, gross - BigInt(1))).toBeLessThan(BigInt(100));
+  });
+
+  it('adds no more than the maximum fee', () => {
+    const capped = makeFee(100, BigInt(50));
+
+    expect(getPreFeeAmount(BigInt(1000000), capped)).toBe(BigInt(1000050));
+    expect(getPreFeeAmount(BigInt(1000), makeFee(10000, BigInt(7)))).toBe(BigInt(1007));
+  });
+});
+
+describe('applyTransferFees', () => {
+  const route = { inAmount: BigInt(10000), outAmount: BigInt(5000) };
+
+  it('passes the route through without fees', () => {
+    expect(applyTransferFees(route, 'ExactIn', null, null)).toEqual({ sent: BigInt(10000), received: BigInt(5000) });
+    expect(applyTransferFees(route, 'ExactOut', null, null)).toEqual({ sent: BigInt(10000), received: BigInt(5000) });
+  });
+
+  it('scales an exact-in output down to the input left after the fee', () => {
+    // 100 of the 10000 sent is withheld, so the route swaps 9900
+    expect(applyTransferFees(route, 'ExactIn', ONE_PERCENT, null)).toEqual({ sent: BigInt(10000), received: BigInt(4950) });
+  });
+
+  it('withholds the output fee from what arrives', () => {
+    expect(applyTransferFees(route, 'ExactIn', null, TWO_PERCENT)).toEqual({ sent: BigInt(10000), received: BigInt(4900) });
+    expect(applyTransferFees(route, 'ExactIn', ONE_PERCENT, TWO_PERCENT).received).toBe(BigInt(4851));
+  });
+
+  it('sends enough on an exact-out route for its input to arrive', () => {
+    const exactOut = { inAmount: BigInt(9900), outAmount: BigInt(5000) };
+
+    expect(applyTransferFees(exactOut, 'ExactOut', ONE_PERCENT, null)).toEqual({ sent: BigInt(10000), received: BigInt(5000) });
+  });
+
+  it('keeps the output of an empty route', () => {
+    const empty = { inAmount: BigInt(0), outAmount: BigInt(0) };
+    expect(applyTransferFees(empty, 'ExactIn', ONE_PERCENT, null)).toEqual({ sent: BigInt(0), received: BigInt(0) });
+  });
+});
@@ -0,0 +1,151 @@
+// Fixed-point token amount helpers. Amounts are carried as bigint base units
+// (wei, lamports, ...) and only converted to floats for display and USD math.
+
+export type RoundingMode = 'down' | 'up' | 'half-up';
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+const BPS_DENOMINATOR = BigInt(10000);
+
+const DECIMAL_PATTERN = /^(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+function pow10(exponent: number): bigint {
+  return BigInt(`1${'0'.repeat(exponent)}`);
+}
+
+/**
+ * Divide two non-negative bigints with the given rounding mode
+ */
+export function divideRounded(
+  numerator: bigint,
+  denominator: bigint,
+  rounding: RoundingMode = 'down'
+): bigint {
+  if (denominator === ZERO) {
+    throw new Error('Division by zero');
+  }
+
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+
+  if (remainder === ZERO || rounding === 'down') return quotient;
+  if (rounding === 'up') return quotient + ONE;
+  return remainder * TWO >= denominator ? quotient + ONE : quotient;
+}
+
+/**
+ * Multiply then divide without losing precision in between
+ */
+export function mulDiv(
+  value: bigint,
+  numerator: bigint,
+  denominator: bigint,
+  rounding: RoundingMode = 'down'
+): bigint {
+  return divideRounded(value * numerator, denominator, rounding);
+}
+
+/**
+ * Parse a decimal string (e.g. "1.5", "0.000001", "2e-3") into base units
+ */
+export function parseAmount(
+  value: string,
+  decimals: number,
+  rounding: RoundingMode = 'down'
+): bigint {
+  const cleaned = value.trim().replace(/,/g, '');
+  const match = DECIMAL_PATTERN.exec(cleaned);
+
+  if (!cleaned || !match || (!match[1] && !match[2])) {
+    throw new Error(`Invalid amount: ${value}`);
+  }
+
+  const whole = match[1] || '';
+  const fraction = match[2] || '';
+  const exponent = parseInt(match[3] || '0', 10);
+  const digits = BigInt(`${whole}${fraction}` || '0');
+
+  // Number of places the digit string must be shifted left to reach base units
+  const shift = decimals + exponent - fraction.length;
+
+  return shift >= 0
+    ? digits * pow10(shift)
+    : divideRounded(digits, pow10(-shift), rounding);
+}
+
+/**
+ * Format base units as a plain decimal string (never scientific notation)
+ */
+export function formatAmount(
+  value: bigint | string,
+  decimals: number,
+  options: { maxDecimals?: number; rounding?: RoundingMode } = {}
+): string {
+  const { maxDecimals, rounding = 'down' } = options;
+
+  let units = typeof value === 'bigint' ? value : BigInt(value);
+  const isNegative = units < ZERO;
+  if (isNegative) units = -units;
+
+  let scale = decimals;
+  if (maxDecimals !== undefined && maxDecimals < decimals) {
+    units = divideRounded(units, pow10(decimals - maxDecimals), rounding);
+    scale = maxDecimals;
+  }
+
+  let digits = units.toString();
+  if (digits.length <= scale) {
+    digits = '0'.repeat(scale - digits.length + 1) + digits;
+  }
+
+  const whole = digits.slice(0, digits.length - scale);
+  const fraction = digits.slice(digits.length - scale).replace(/0+$/, '');
+
+  return `${isNegative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+/**
+ * Convert base units to a float for display or USD valuation only
+ */
+export function toNumber(value: bigint | string, decimals: number): number {
+  return parseFloat(formatAmount(value, decimals));
+}
+
+/**
+ * Rescale an amount between two decimal precisions
+ */
+export function convertDecimals(
+  value: bigint,
+  fromDecimals: number,
+  toDecimals: number,
+  rounding: RoundingMode = 'down'
+): bigint {
+  if (toDecimals >= fromDecimals) {
+    return value * pow10(toDecimals - fromDecimals);
+  }
+  return divideRounded(value, pow10(fromDecimals - toDecimals), rounding);
+}
+
+/**
+ * Convert a slippage percentage (0.5 = 0.5%) to basis points
+ */
+export function percentToBps(percent: number): bigint {
+  return BigInt(Math.round(percent * 100));
+}
+
+/**
+ * Apply slippage to an amount: 'min' for the least you'll receive,
+ * 'max' for the most you'll send
+ */
+export function applySlippage(
+  amount: bigint,
+  slippagePercent: number,
+  bound: 'min' | 'max'
+): bigint {
+  const bps = percentToBps(slippagePercent);
+
+  return bound === 'min'
+    ? mulDiv(amount, BPS_DENOMINATOR - bps, BPS_DENOMINATOR, 'down')
+    : mulDiv(amount, BPS_DENOMINATOR + bps, BPS_DENOMINATOR, 'up');
+}
@@ -0,0 +1,81 @@
+import { Basket, BasketLeg, BasketStatus, BasketSummary, SwapQuote } from '@/types';
+
+/**
+ * USD value a quote spends and receives. Token prices are used where the
+ * tokens carry them; otherwise the side the aggregator valued for ranking
+ * fills in (the output for ExactIn, the input for ExactOut).
+ */
+function getQuoteValueUSD(quote: SwapQuote): { in: number | null; out: number | null } {
+  const isExactOut = (quote.swapMode || 'ExactIn') === 'ExactOut';
+  const rankedValue = quote.grossValueUSD ?? null;
+
+  const valueIn = quote.fromToken.price !== undefined
+    ? parseFloat(quote.fromAmount) * quote.fromToken.price
+    : isExactOut ? rankedValue : null;
+  const valueOut = quote.toToken.price !== undefined
+    ? parseFloat(quote.toAmount) * quote.toToken.price
+    : isExactOut ? null : rankedValue;
+
+  return { in: valueIn, out: valueOut };
+}
+
+/**
+ * Totals for reviewing a basket as one plan. Only quoted legs count; a leg
+ * missing a USD value leaves the totals incomplete.
+ */
+export function getBasketSummary(basket: Basket): BasketSummary {
+  let totalInUSD = 0;
+  let totalOutUSD = 0;
+  let totalGasUSD = 0;
+  let quotedCount = 0;
+  let isComplete = basket.legs.length > 0;
+
+  basket.legs.forEach(leg => {
+    if (!leg.quote) {
+      isComplete = false;
+      return;
+    }
+
+    const value = getQuoteValueUSD(leg.quote);
+    quotedCount++;
+    totalInUSD += value.in ?? 0;
+    totalOutUSD += value.out ?? 0;
+    totalGasUSD += leg.quote.gasCostUSD ?? 0;
+    if (value.in === null || value.out === null) {
+      isComplete = false;
+    }
+  });
+
+  return {
+    legCount: basket.legs.length,
+    quotedCount,
+    totalInUSD,
+    totalOutUSD,
+    totalGasUSD,
+    netChangeUSD: totalOutUSD - totalInUSD - totalGasUSD,
+    isComplete,
+  };
+}
+
+/**
+ * Whether a swap spends a token an earlier one buys. It only succeeds once
+ * the earlier swap has landed, so it can't be simulated on its own.
+ */
+export function hasDependentSwaps(quotes: SwapQuote[]): boolean {
+  const bought = new Set<string>();
+
+  return quotes.some(quote => {
+    if (bought.has(quote.fromToken.address.toLowerCase())) return true;
+    bought.add(quote.toToken.address.toLowerCase());
+    return false;
+  });
+}
+
+/**
+ * Overall status once execution has stopped, from how its legs ended
+ */
+export function getSettledBasketStatus(legs: BasketLeg[]): BasketStatus {
+  const confirmed = legs.filter(leg => leg.status === 'confirmed').length;
+  if (confirmed === legs.length) return 'completed';
+  return confirmed > 0 ? 'partial' : 'failed';
+}
@@ -1,5 +1,6 @@
 import numeral from 'numeral';
 import { format, formatDistanceToNow, isToday, isYesterday } from 'date-fns';
+import { toNumber } from './amount';
 
 /**
  * Format a number with specified decimal places and thousands separators
@@ -160,10 +161,14 @@ export function formatPriceChange(
 /**
  * Format gas price in Gwei
  */
-export function formatGasPrice(gasPrice: string | number): string {
-  const gasPriceNum = typeof gasPrice === 'string' ? parseFloat(gasPrice) : gasPrice;
-  const gwei = gasPriceNum / 1e9;
-  return `${formatNumber(gwei, { precision: 1 })} Gwei`;
+export function formatGasPrice(gasPrice: string | number | bigint): string {
+  // Whole wei converts exactly; decimal or scientific strings ("1.5e10")
+  // fall back to float division rather than throwing mid-render
+  const wei = typeof gasPrice === 'string' ? gasPrice.trim() : gasPrice;
+  const gwei = typeof wei === 'bigint' || (typeof wei === 'string' && /^-?\d+$/.test(wei))
+    ? toNumber(wei, 9)
+    : Number(wei) / 1e9;
+  return `${formatNumber(gwei, 1)} Gwei`;
 }
 
 /**
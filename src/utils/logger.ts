@@ -0,0 +1,20 @@
+/* eslint-disable no-console */
+
+const isDevelopment = process.env.NODE_ENV === 'development';
+
+/**
+ * Console output for services and stores. Warnings cover failures the code
+ * recovers from (a quote source down, a fallback taken), so they only show
+ * in development; errors are what the user ends up seeing and always log.
+ */
+export const logger = {
+  warn(message: string, ...details: unknown[]): void {
+    if (isDevelopment) {
+      console.warn(message, ...details);
+    }
+  },
+
+  error(message: string, ...details: unknown[]): void {
+    console.error(message, ...details);
+  },
+};
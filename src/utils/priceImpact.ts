@@ -0,0 +1,54 @@
+import { PriceImpactSeverity, SwapQuote } from '@/types';
+import { APP_CONFIG } from '@/lib/constants';
+
+const { PRICE_IMPACT_WARNING } = APP_CONFIG.TRADING;
+
+/**
+ * Price impact (%) of executing at `executionPrice` against a reference mid
+ * price. Both prices are quoted as output tokens per input token.
+ */
+export function calculatePriceImpact(executionPrice: number, referencePrice: number): number {
+  if (!isFinite(executionPrice) || !isFinite(referencePrice) || referencePrice <= 0) {
+    return 0;
+  }
+
+  // A fill better than mid (stale oracle, rounding) is not negative impact
+  return Math.max(0, (1 - executionPrice / referencePrice) * 100);
+}
+
+/**
+ * Bucket a price impact (%) into a warning level
+ */
+export function getPriceImpactSeverity(priceImpact: number): PriceImpactSeverity {
+  if (priceImpact >= PRICE_IMPACT_WARNING.SEVERE) return 'severe';
+  if (priceImpact >= PRICE_IMPACT_WARNING.HIGH) return 'high';
+  if (priceImpact >= PRICE_IMPACT_WARNING.MEDIUM) return 'medium';
+  return 'low';
+}
+
+/**
+ * Attach price impact and its warning level to a quote. `isEstimated` marks
+ * a reference taken from oracle prices rather than the pair's own liquidity.
+ */
+export function withPriceImpact(quote: SwapQuote, referencePrice: number, isEstimated: boolean = false): SwapQuote {
+  const priceImpact = calculatePriceImpact(quote.price, referencePrice);
+
+  return {
+    ...quote,
+    priceImpact,
+    priceImpactSeverity: getPriceImpactSeverity(priceImpact),
+    referencePrice,
+    isPriceImpactEstimated: isEstimated,
+  };
+}
+
+/**
+ * Whether a quote's price impact is too high to confirm
+ */
+export function isPriceImpactBlocked(
+  quote: SwapQuote,
+  maxPriceImpact: number,
+  expertMode: boolean
+): boolean {
+  return !expertMode && quote.priceImpact > maxPriceImpact;
+}
@@ -0,0 +1,89 @@
+import { QuoteDiff, QuoteRequest, SwapQuote } from '@/types';
+import { APP_CONFIG } from '@/lib/constants';
+import { parseAmount, applySlippage } from './amount';
+
+const { QUOTE_TTL, QUOTE_REFRESH_BUFFER } = APP_CONFIG.TRADING;
+
+/**
+ * Expiry time for a quote fetched now
+ */
+export function getQuoteValidUntil(): Date {
+  return new Date(Date.now() + QUOTE_TTL);
+}
+
+/**
+ * Milliseconds until a quote expires (zero once it has)
+ */
+export function getQuoteTimeRemaining(quote: SwapQuote, now: number = Date.now()): number {
+  return Math.max(0, new Date(quote.validUntil).getTime() - now);
+}
+
+export function isQuoteExpired(quote: SwapQuote): boolean {
+  return getQuoteTimeRemaining(quote) === 0;
+}
+
+/**
+ * Whether a quote is close enough to expiry to refresh it in the background.
+ * Cached quotes in this window aren't served either, so a refresh always
+ * fetches a new one.
+ */
+export function isQuoteRefreshDue(quote: SwapQuote): boolean {
+  return getQuoteTimeRemaining(quote) <= QUOTE_REFRESH_BUFFER;
+}
+
+/**
+ * The request that reproduces a quote
+ */
+export function getQuoteRequest(quote: SwapQuote): QuoteRequest {
+  const swapMode = quote.swapMode || 'ExactIn';
+
+  return {
+    fromToken: quote.fromToken,
+    toToken: quote.toToken,
+    amount: swapMode === 'ExactOut' ? quote.toAmount : quote.fromAmount,
+    slippage: quote.slippage,
+    swapMode,
+    ...(quote.chainId !== undefined && { chainId: quote.chainId }),
+  };
+}
+
+/**
+ * Whether two requests ask for the same swap, so a quote for one stands in
+ * for the other
+ */
+export function isSameQuoteRequest(a: QuoteRequest, b: QuoteRequest): boolean {
+  return a.fromToken.address === b.fromToken.address &&
+    a.toToken.address === b.toToken.address &&
+    a.amount === b.amount &&
+    a.slippage === b.slippage &&
+    a.swapMode === b.swapMode &&
+    a.chainId === b.chainId;
+}
+
+/**
+ * Compare a fresh quote to the one it replaces. The new quote exceeds
+ * slippage when it falls outside the bound the old one would have
+ * executed with: below its minimum received, or above its maximum sent.
+ */
+export function diffQuotes(previous: SwapQuote, next: SwapQuote): QuoteDiff {
+  const isExactOut = (previous.swapMode || 'ExactIn') === 'ExactOut';
+  const token = isExactOut ? previous.fromToken : previous.toToken;
+  const previousAmount = parseAmount(isExactOut ? previous.fromAmount : previous.toAmount, token.decimals);
+  const nextAmount = parseAmount(isExactOut ? next.fromAmount : next.toAmount, token.decimals);
+
+  const exceedsSlippage = isExactOut
+    ? nextAmount > applySlippage(previousAmount, previous.slippage, 'max')
+    : nextAmount < applySlippage(previousAmount, previous.slippage, 'min');
+
+  const previousValue = parseFloat(isExactOut ? previous.fromAmount : previous.toAmount);
+  const nextValue = parseFloat(isExactOut ? next.fromAmount : next.toAmount);
+  const change = previousValue > 0 ? ((nextValue - previousValue) / previousValue) * 100 : 0;
+
+  return {
+    previous,
+    next,
+    // Paying more is worse in ExactOut, receiving less is worse in ExactIn
+    changePercent: isExactOut ? -change : change,
+    exceedsSlippage,
+  };
+}
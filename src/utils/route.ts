@@ -0,0 +1,83 @@
+import { Address } from 'viem';
+import { RouteHop, RoutePath, RouteStep, Token } from '@/types';
+
+/**
+ * Find a route token among the tokens we already know about, falling back to
+ * a placeholder labelled with the shortened address
+ */
+export function resolveRouteToken(
+  address: string,
+  knownTokens: Token[],
+  decimals: number = 18
+): Token {
+  const match = knownTokens.find(token => token.address.toLowerCase() === address.toLowerCase());
+  if (match) return match;
+
+  return {
+    id: address,
+    address: address as Address,
+    symbol: `${address.slice(0, 4)}…${address.slice(-4)}`,
+    name: 'Unknown Token',
+    decimals,
+    isVerified: false,
+  };
+}
+
+/**
+ * Group a quote's pools into parallel paths, each a sequence of hops. Pools at
+ * the same position that trade the same pair are merged into one hop.
+ */
+export function groupRoutePaths(route: RouteStep[]): RoutePath[] {
+  const paths = new Map<number, Map<string, RouteHop>>();
+
+  route.forEach(step => {
+    const hops = paths.get(step.pathIndex) || new Map<string, RouteHop>();
+    const key = `${step.hopIndex}_${step.tokenIn.address.toLowerCase()}_${step.tokenOut.address.toLowerCase()}`;
+    const hop = hops.get(key);
+
+    if (hop) {
+      hop.pools.push(step);
+      hop.percentage += step.percentage;
+    } else {
+      hops.set(key, {
+        hopIndex: step.hopIndex,
+        tokenIn: step.tokenIn,
+        tokenOut: step.tokenOut,
+        percentage: step.percentage,
+        pools: [step],
+      });
+    }
+    paths.set(step.pathIndex, hops);
+  });
+
+  return Array.from(paths.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, hopsByKey]) => {
+      const hops = Array.from(hopsByKey.values()).sort((a, b) => a.hopIndex - b.hopIndex);
+
+      return {
+        // Everything entering the path passes through its first hop(s)
+        percentage: hops
+          .filter(hop => hop.hopIndex === 0)
+          .reduce((sum, hop) => sum + hop.percentage, 0),
+        hops,
+      };
+    });
+}
+
+/**
+ * Tokens the route passes through between the input and the output
+ */
+export function getIntermediateTokens(route: RouteStep[]): Token[] {
+  const inputs = new Set(route.map(step => step.tokenIn.address.toLowerCase()));
+  const seen = new Set<string>();
+
+  return route
+    .map(step => step.tokenOut)
+    .filter(token => {
+      const key = token.address.toLowerCase();
+      if (!inputs.has(key) || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
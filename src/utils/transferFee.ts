@@ -0,0 +1,43 @@
+import { TransferFee, calculateFee } from '@solana/spl-token';
+import { SwapMode } from '@/types';
+
+/**
+ * The amount to transfer for `amount` to arrive once a Token-2022 transfer
+ * fee is withheld
+ */
+export function getPreFeeAmount(amount: bigint, fee: TransferFee | null): bigint {
+  if (!fee || amount === BigInt(0)) return amount;
+
+  const maxBps = BigInt(10000);
+  const bps = BigInt(fee.transferFeeBasisPoints);
+  if (bps >= maxBps) return amount + fee.maximumFee;
+
+  // Rounded up, as the fee itself is
+  const gross = (amount * maxBps + maxBps - bps - BigInt(1)) / (maxBps - bps);
+  return gross - amount > fee.maximumFee ? amount + fee.maximumFee : gross;
+}
+
+/**
+ * What the wallet sends and receives for a route once Token-2022 fees are
+ * withheld on top of it: from the input as it enters the first pool, and
+ * from the output as it arrives.
+ *
+ * ExactIn sends the route's input, of which only what's left after the fee is
+ * swapped, so the output scales down with it. ExactOut has to send enough that
+ * the route's input is left after the fee.
+ */
+export function applyTransferFees(
+  route: { inAmount: bigint; outAmount: bigint },
+  swapMode: SwapMode,
+  inputFee: TransferFee | null,
+  outputFee: TransferFee | null
+): { sent: bigint; received: bigint } {
+  const { inAmount, outAmount } = route;
+  const sent = swapMode === 'ExactOut' ? getPreFeeAmount(inAmount, inputFee) : inAmount;
+  const routed = swapMode === 'ExactIn' && inputFee ? sent - calculateFee(inputFee, sent) : inAmount;
+
+  const routeOutput = inAmount > BigInt(0) ? outAmount * routed / inAmount : outAmount;
+  const received = outputFee ? routeOutput - calculateFee(outputFee, routeOutput) : routeOutput;
+
+  return { sent, received };
+}